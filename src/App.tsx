@@ -1,4 +1,5 @@
 import { useEffect, useState, useRef } from 'react'
+import { Toaster } from 'sonner'
 import { IDELayout } from './components/ide/IDELayout'
 import { AuthForm } from './components/auth/AuthForm'
 import { ErrorBoundary } from './components/ErrorBoundary'
@@ -95,6 +96,7 @@ function App() {
     <ErrorBoundary>
       <AuthProvider>
         <AppContent />
+        <Toaster theme="dark" position="bottom-right" />
       </AuthProvider>
     </ErrorBoundary>
   );
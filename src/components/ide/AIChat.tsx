@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { AIMessage, CodeBlock } from '@/types';
 import { codestralAI } from '@/services/CodestralAIService';
+import { fileSystemService } from '@/services/FileSystemService';
 import { Send, Bot, User, Loader2, Zap, Bug, HelpCircle, Code2 } from 'lucide-react';
 import Editor from '@monaco-editor/react';
 
@@ -35,13 +36,22 @@ const AIChat: React.FC<AIChatProps> = ({ workspace, activeFile, isVisible = true
   }, [inputValue]);
 
   useEffect(() => {
-    if (activeFile) {
+    if (!activeFile) return;
+
+    let cancelled = false;
+    // Ignored files (build output, vendored code) are not sent as context
+    fileSystemService.getIgnoreMatcher().then(ignore => {
+      if (cancelled) return;
       setCurrentFile({
         path: activeFile.path,
-        content: activeFile.content,
+        content: ignore.isIgnored(activeFile.path) ? undefined : activeFile.content,
         language: activeFile.language
       });
-    }
+    });
+
+    return () => {
+      cancelled = true;
+    };
   }, [activeFile]);
 
   const handleSend = async (message?: string) => {
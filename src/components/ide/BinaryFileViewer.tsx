@@ -0,0 +1,137 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { fileSystemService } from '@/services/FileSystemService';
+import { formatBytes, hexDumpRow, HEX_BYTES_PER_ROW, imageMimeType } from '@/lib/binary';
+import { Binary, Download, Image as ImageIcon } from 'lucide-react';
+
+interface BinaryFileViewerProps {
+  filePath: string;
+  fileName: string;
+  // Object key of the file's bytes in storage
+  storagePath: string;
+  size?: number;
+}
+
+// The hex view stops here; larger files are downloaded to be inspected
+const HEX_VIEW_LIMIT = 64 * 1024;
+
+export const BinaryFileViewer: React.FC<BinaryFileViewerProps> = ({
+  filePath,
+  fileName,
+  storagePath,
+  size: listedSize,
+}) => {
+  const [blob, setBlob] = useState<Blob | null>(null);
+  const [bytes, setBytes] = useState<Uint8Array | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const mimeType = imageMimeType(filePath);
+  const [showHex, setShowHex] = useState(!mimeType);
+
+  useEffect(() => {
+    let cancelled = false;
+    setBlob(null);
+    setBytes(null);
+    setError(null);
+
+    (async () => {
+      try {
+        const data = await fileSystemService.downloadBinary({ path: filePath, storagePath });
+        const head = new Uint8Array(await data.slice(0, HEX_VIEW_LIMIT).arrayBuffer());
+        if (!cancelled) {
+          setBlob(mimeType ? data.slice(0, data.size, mimeType) : data);
+          setBytes(head);
+        }
+      } catch (err) {
+        console.error('Error loading binary file:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load file');
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filePath, storagePath, mimeType]);
+
+  const imageUrl = useMemo(() => (blob && mimeType ? URL.createObjectURL(blob) : null), [blob, mimeType]);
+
+  useEffect(() => () => {
+    if (imageUrl) URL.revokeObjectURL(imageUrl);
+  }, [imageUrl]);
+
+  const hexRows = useMemo(() => {
+    if (!bytes || !showHex) return [];
+    const rows: string[] = [];
+    for (let offset = 0; offset < bytes.length; offset += HEX_BYTES_PER_ROW) {
+      rows.push(hexDumpRow(bytes, offset));
+    }
+    return rows;
+  }, [bytes, showHex]);
+
+  const handleDownload = () => {
+    if (!blob) return;
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const size = blob?.size ?? listedSize ?? 0;
+
+  return (
+    <div className="flex flex-col h-full bg-gray-900 text-gray-300">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700">
+        <div className="flex items-center gap-2 text-sm min-w-0">
+          <span className="truncate">{filePath}</span>
+          <span className="text-xs text-gray-500 flex-shrink-0">{formatBytes(size)}</span>
+        </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          {mimeType && (
+            <button
+              onClick={() => setShowHex(prev => !prev)}
+              className="flex items-center gap-1 px-2 py-1 rounded text-xs hover:bg-gray-700 text-gray-400 hover:text-white"
+              title={showHex ? 'Show image' : 'Show bytes'}
+            >
+              {showHex ? <ImageIcon size={14} /> : <Binary size={14} />}
+              {showHex ? 'Image' : 'Hex'}
+            </button>
+          )}
+          <button
+            onClick={handleDownload}
+            disabled={!blob}
+            className="flex items-center gap-1 px-2 py-1 rounded text-xs hover:bg-gray-700 text-gray-400 hover:text-white disabled:opacity-50"
+            title="Download file"
+          >
+            <Download size={14} />
+            Download
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto min-h-0">
+        {error ? (
+          <div className="p-4 text-sm text-red-400">{error}</div>
+        ) : !bytes ? (
+          <div className="p-4 text-sm text-gray-500">Loading...</div>
+        ) : showHex ? (
+          <pre className="p-3 text-xs font-mono leading-5 text-gray-300">
+            {hexRows.join('\n')}
+            {size > HEX_VIEW_LIMIT && (
+              <span className="block mt-2 text-gray-500">
+                Showing the first {formatBytes(HEX_VIEW_LIMIT)} of {formatBytes(size)}
+              </span>
+            )}
+          </pre>
+        ) : (
+          <div className="flex items-center justify-center h-full p-4 bg-[repeating-conic-gradient(#1f2937_0%_25%,#111827_0%_50%)] bg-[length:16px_16px]">
+            {imageUrl && <img src={imageUrl} alt={fileName} className="max-w-full max-h-full object-contain" />}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BinaryFileViewer;
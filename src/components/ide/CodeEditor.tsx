@@ -1,7 +1,22 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import Editor, { Monaco, OnMount } from '@monaco-editor/react';
-import { FileNode, LSPDiagnostic, Workspace } from '@/types';
+import { EditorRevealTarget, FileLock, FileNode, LSPDiagnostic, Workspace } from '@/types';
 import { fileSystemService } from '@/services/FileSystemService';
+import { workspaceService } from '@/services/WorkspaceService';
+import { StaleRevisionError } from '@/services/storage';
+import { isSameOrDescendant } from '@/lib/paths';
+import { isEditableBy, isLockActive } from '@/lib/locks';
+import {
+  DEFAULT_WORKSPACE_SETTINGS,
+  EditorSettings,
+  FormatterSettings,
+  parseWorkspaceSettings,
+  validateWorkspaceSettings,
+  WorkspaceSettings,
+} from '@/lib/workspaceSettings';
+import { FileTimeline } from './FileTimeline';
+import { MergeConflictView } from './MergeConflictView';
+import { BinaryFileViewer } from './BinaryFileViewer';
 // Monaco is loaded through @monaco-editor/react
 import {
   Maximize2,
@@ -13,6 +28,8 @@ import {
   FileText,
   Settings,
   RotateCcw,
+  History,
+  Lock,
 } from 'lucide-react';
 
 interface EditorTab {
@@ -22,35 +39,41 @@ interface EditorTab {
   language: string;
   content: string;
   isDirty: boolean;
+  // Revision and content of the last save, the base for a three-way merge
+  revision?: number;
+  savedContent: string;
+  // Binary files open in the BinaryFileViewer instead of Monaco
+  storagePath?: string;
+  size?: number;
+  readOnly?: boolean;
+  lock?: FileLock;
+}
+
+// Why a tab can't be edited, or null when it can
+function lockLabel(tab: EditorTab, userId: string | null): string | null {
+  if (tab.readOnly) return 'Read-only';
+  if (isLockActive(tab.lock) && tab.lock.userId !== userId) return `Locked by ${tab.lock.userName}`;
+  return null;
+}
+
+interface SaveConflict {
+  tabId: string;
+  mine: string;
+  theirs: string;
+  theirsRevision: number;
 }
 
 interface CodeEditorProps {
   workspace: Workspace;
   openFiles: FileNode[];
   activeFile: FileNode | null;
-  onFileContentChange: (fileId: string, content: string) => void;
-}
-
-interface EditorSettings {
-  fontSize: number;
-  tabSize: number;
-  wordWrap: 'off' | 'on' | 'wordWrapColumn' | 'bounded';
-  minimap: boolean;
-  lineNumbers: 'on' | 'off' | 'relative' | 'interval';
-  autoSave: boolean;
-  autoSaveDelay: number;
+  // Resolves to the saved revision; rejects with StaleRevisionError on a conflict
+  onFileContentChange: (fileId: string, content: string, baseRevision?: number) => Promise<number | undefined>;
+  revealTarget?: EditorRevealTarget | null;
+  // Editor and formatter settings are part of the workspace settings
+  onSettingsChange?: (settings: WorkspaceSettings) => void;
 }
 
-const DEFAULT_SETTINGS: EditorSettings = {
-  fontSize: 14,
-  tabSize: 2,
-  wordWrap: 'on',
-  minimap: true,
-  lineNumbers: 'on',
-  autoSave: true,
-  autoSaveDelay: 1000,
-};
-
 const SUPPORTED_LANGUAGES = [
   'javascript', 'typescript', 'python', 'java', 'cpp', 'c', 'csharp',
   'go', 'rust', 'ruby', 'php', 'html', 'css', 'scss', 'json', 'xml',
@@ -58,21 +81,30 @@ const SUPPORTED_LANGUAGES = [
 ];
 
 const LINTING_TIMEOUT = 1000;
+// Settings changes are saved once they settle, e.g. after dragging a slider
+const SETTINGS_SAVE_DELAY = 500;
 
 export const CodeEditor: React.FC<CodeEditorProps> = ({
   workspace,
   openFiles,
   activeFile,
   onFileContentChange,
+  revealTarget,
+  onSettingsChange,
 }) => {
   // Core state
   const [tabs, setTabs] = useState<EditorTab[]>([]);
   const [activeTabId, setActiveTabId] = useState<string | null>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [isSplitView, setIsSplitView] = useState(false);
-  const [settings, setSettings] = useState<EditorSettings>(DEFAULT_SETTINGS);
+  const settings = workspace?.settings?.editor ?? DEFAULT_WORKSPACE_SETTINGS.editor;
+  const formatter = workspace?.settings?.formatter ?? DEFAULT_WORKSPACE_SETTINGS.formatter;
+  const editorTheme = settings.theme === 'light' ? 'vs' : 'codestral-dark';
   const [showSettings, setShowSettings] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [conflict, setConflict] = useState<SaveConflict | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
   
   // Editor refs
   const mainEditorRef = useRef<any>(null);
@@ -80,6 +112,17 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
   const monacoRef = useRef<Monaco | null>(null);
   const autoSaveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const lintingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const settingsSaveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Editor callbacks are bound once on mount, so they read tabs through this ref
+  const tabsRef = useRef<EditorTab[]>([]);
+  tabsRef.current = tabs;
+  // Set while content is replaced programmatically so it is not treated as an edit
+  const suppressChangeRef = useRef(false);
+  // Waits here until the target file's editor is mounted
+  const pendingRevealRef = useRef<EditorRevealTarget | null>(null);
+  // Saves for the conflicted tab wait until the merge is resolved
+  const conflictRef = useRef<SaveConflict | null>(null);
+  conflictRef.current = conflict;
   
   // Diagnostics
   const [diagnostics, setDiagnostics] = useState<Map<string, LSPDiagnostic[]>>(new Map());
@@ -96,6 +139,34 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
     return otherTabs.length > 0 ? otherTabs[0] : null;
   }, [tabs, activeTabId, isSplitView]);
 
+  // Scroll the main editor to the pending target once it shows that file
+  const applyPendingReveal = useCallback(() => {
+    const target = pendingRevealRef.current;
+    const editor = mainEditorRef.current;
+    const monacoInstance = monacoRef.current;
+    const tab = target && tabsRef.current.find(t => t.id === target.fileId);
+    if (!target || !editor || !monacoInstance || !tab) return;
+
+    if (editor.getModel()?.uri.toString() !== monacoInstance.Uri.file(tab.filePath).toString()) return;
+
+    const position = { lineNumber: target.line, column: target.column || 1 };
+    editor.setPosition(position);
+    editor.revealPositionInCenter(position);
+    editor.focus();
+    pendingRevealRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    fileSystemService.getCurrentUser().then(user => setUserId(user?.id ?? null));
+  }, []);
+
+  useEffect(() => {
+    if (revealTarget) {
+      pendingRevealRef.current = revealTarget;
+      applyPendingReveal();
+    }
+  }, [revealTarget, applyPendingReveal]);
+
   // Initialize Monaco editor features
   const configureMonaco = useCallback((monaco: Monaco) => {
     // Define custom theme
@@ -150,6 +221,8 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
       wordWrap: settings.wordWrap,
       minimap: { enabled: settings.minimap },
       lineNumbers: settings.lineNumbers,
+      formatOnPaste: formatter.formatOnPaste,
+      formatOnType: formatter.formatOnType,
       automaticLayout: true,
       scrollBeyondLastLine: false,
       smoothScrolling: true,
@@ -164,14 +237,13 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
         comments: true,
         strings: true,
       },
-      formatOnPaste: true,
-      formatOnType: true,
     });
 
     // Add keyboard shortcuts
     editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, () => {
-      if (activeTab) {
-        saveFile(activeTab);
+      const tab = activeTab && tabsRef.current.find(t => t.id === activeTab.id);
+      if (tab) {
+        saveFile(tab);
       }
     });
 
@@ -185,7 +257,7 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
 
     // Set up change detection and auto-save
     editor.onDidChangeModelContent(() => {
-      if (activeTab) {
+      if (activeTab && !suppressChangeRef.current) {
         const content = editor.getValue();
         updateTabContent(activeTab.id, content);
         triggerAutoSave(activeTab.id);
@@ -193,21 +265,28 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
       }
     });
 
-    // Configure model for active tab
+    // Configure model for active tab, reusing it if the tab was shown before
     if (activeTab) {
-      const model = monaco.editor.createModel(
+      const uri = monaco.Uri.file(activeTab.filePath);
+      const model = monaco.editor.getModel(uri) || monaco.editor.createModel(
         activeTab.content,
         activeTab.language,
-        monaco.Uri.file(activeTab.filePath)
+        uri
       );
+      if (model.getValue() !== activeTab.content) {
+        suppressChangeRef.current = true;
+        model.setValue(activeTab.content);
+        suppressChangeRef.current = false;
+      }
       editor.setModel(model);
+      applyPendingReveal();
     }
 
     // Handle cursor position changes for collaboration
     editor.onDidChangeCursorPosition((e) => {
       // TODO: Implement cursor position tracking for collaboration
     });
-  }, [activeTab, settings, configureMonaco]);
+  }, [activeTab, settings, formatter, configureMonaco, applyPendingReveal]);
 
   // Handle secondary editor mount (for split view)
   const handleSecondaryEditorMount: OnMount = useCallback((editor, monaco) => {
@@ -220,6 +299,8 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
       wordWrap: settings.wordWrap,
       minimap: { enabled: settings.minimap },
       lineNumbers: settings.lineNumbers,
+      formatOnPaste: formatter.formatOnPaste,
+      formatOnType: formatter.formatOnType,
       automaticLayout: true,
       scrollBeyondLastLine: false,
       smoothScrolling: true,
@@ -227,7 +308,7 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
 
     // Set up change detection
     editor.onDidChangeModelContent(() => {
-      if (secondaryTab) {
+      if (secondaryTab && !suppressChangeRef.current) {
         const content = editor.getValue();
         updateTabContent(secondaryTab.id, content);
         triggerAutoSave(secondaryTab.id);
@@ -237,14 +318,15 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
 
     // Configure model for secondary tab
     if (secondaryTab) {
-      const model = monaco.editor.createModel(
+      const uri = monaco.Uri.file(secondaryTab.filePath);
+      const model = monaco.editor.getModel(uri) || monaco.editor.createModel(
         secondaryTab.content,
         secondaryTab.language,
-        monaco.Uri.file(secondaryTab.filePath)
+        uri
       );
       editor.setModel(model);
     }
-  }, [secondaryTab, settings]);
+  }, [secondaryTab, settings, formatter]);
 
   // Update tab content
   const updateTabContent = useCallback((tabId: string, content: string) => {
@@ -263,32 +345,92 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
 
     if (settings.autoSave) {
       autoSaveTimeoutRef.current = setTimeout(() => {
-        const tab = tabs.find(t => t.id === tabId);
+        const tab = tabsRef.current.find(t => t.id === tabId);
         if (tab) {
           saveFile(tab);
         }
       }, settings.autoSaveDelay);
     }
-  }, [settings.autoSave, settings.autoSaveDelay, tabs]);
+  }, [settings.autoSave, settings.autoSaveDelay]);
 
   // Save file
   const saveFile = useCallback(async (tab: EditorTab) => {
+    if (conflictRef.current?.tabId === tab.id) return;
+
     setIsSaving(true);
     try {
-      onFileContentChange(tab.id, tab.content);
-      
+      const revision = await onFileContentChange(tab.id, tab.content, tab.revision);
+
+      // Edits made while the save was in flight keep the tab dirty
       setTabs(prev => prev.map(t => 
         t.id === tab.id 
-          ? { ...t, isDirty: false }
+          ? { ...t, isDirty: t.content !== tab.content, revision: revision ?? t.revision, savedContent: tab.content }
           : t
       ));
     } catch (error) {
-      console.error('Failed to save file:', error);
+      if (error instanceof StaleRevisionError) {
+        setConflict({
+          tabId: tab.id,
+          mine: tab.content,
+          theirs: error.current.content,
+          theirsRevision: error.current.revision,
+        });
+      } else {
+        console.error('Failed to save file:', error);
+      }
     } finally {
       setIsSaving(false);
     }
   }, [onFileContentChange]);
 
+  // Replace a tab's content with a version that is already persisted
+  const applySavedContent = useCallback((tabId: string, content: string, revision?: number) => {
+    setTabs(prev => prev.map(t =>
+      t.id === tabId
+        ? { ...t, content, isDirty: false, revision: revision ?? t.revision, savedContent: content }
+        : t
+    ));
+
+    const tab = tabsRef.current.find(t => t.id === tabId);
+    const monacoInstance = monacoRef.current;
+    const model = tab && monacoInstance?.editor.getModel(monacoInstance.Uri.file(tab.filePath));
+    if (model && model.getValue() !== content) {
+      suppressChangeRef.current = true;
+      model.setValue(content);
+      suppressChangeRef.current = false;
+    }
+  }, []);
+
+  // Save the merge result on top of the revision it was merged with
+  const resolveConflict = useCallback((content: string) => {
+    const current = conflictRef.current;
+    const tab = current && tabsRef.current.find(t => t.id === current.tabId);
+    setConflict(null);
+    if (!current || !tab) return;
+
+    const merged: EditorTab = {
+      ...tab,
+      content,
+      isDirty: content !== current.theirs,
+      revision: current.theirsRevision,
+      savedContent: current.theirs,
+    };
+    setTabs(prev => prev.map(t => t.id === merged.id ? merged : t));
+
+    const monacoInstance = monacoRef.current;
+    const model = monacoInstance?.editor.getModel(monacoInstance.Uri.file(tab.filePath));
+    if (model && model.getValue() !== content) {
+      suppressChangeRef.current = true;
+      model.setValue(content);
+      suppressChangeRef.current = false;
+    }
+
+    conflictRef.current = null;
+    if (merged.isDirty) {
+      saveFile(merged);
+    }
+  }, [saveFile]);
+
   // Linting and error detection
   const scheduleLinting = useCallback((filePath: string, content: string, language: string) => {
     if (lintingTimeoutRef.current) {
@@ -408,6 +550,12 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
       language,
       content: file.content || '',
       isDirty: file.isDirty || false,
+      revision: file.revision,
+      savedContent: file.content || '',
+      storagePath: file.storagePath,
+      size: file.size,
+      readOnly: file.readOnly,
+      lock: file.lock,
     };
 
     setTabs(prev => [...prev, newTab]);
@@ -417,6 +565,7 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
   // Close tab
   const closeTab = useCallback(async (tabId: string) => {
     setTabs(prev => prev.filter(tab => tab.id !== tabId));
+    setConflict(prev => prev?.tabId === tabId ? null : prev);
     
     if (activeTabId === tabId) {
       const remainingTabs = tabs.filter(tab => tab.id !== tabId);
@@ -447,13 +596,43 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
     setIsSplitView(prev => !prev);
   }, []);
 
-  // Handle settings changes
+  // Handle settings changes: validated against the workspace settings
+  // schema, shown at once and saved when they settle
+  const saveSettings = useCallback((changes: Partial<WorkspaceSettings>) => {
+    if (!workspace) return;
+
+    let next: WorkspaceSettings;
+    try {
+      next = validateWorkspaceSettings({ ...parseWorkspaceSettings(workspace.settings), ...changes });
+    } catch (error) {
+      console.error('Invalid editor settings:', error);
+      return;
+    }
+    onSettingsChange?.(next);
+
+    if (settingsSaveTimeoutRef.current) {
+      clearTimeout(settingsSaveTimeoutRef.current);
+    }
+    settingsSaveTimeoutRef.current = setTimeout(() => {
+      workspaceService.updateWorkspace(workspace.id, { settings: next }).catch(error => {
+        console.error('Failed to save editor settings:', error);
+      });
+    }, SETTINGS_SAVE_DELAY);
+  }, [workspace, onSettingsChange]);
+
   const updateSetting = useCallback(<K extends keyof EditorSettings>(
     key: K,
     value: EditorSettings[K]
   ) => {
-    setSettings(prev => ({ ...prev, [key]: value }));
-  }, []);
+    saveSettings({ editor: { ...settings, [key]: value } });
+  }, [saveSettings, settings]);
+
+  const updateFormatterSetting = useCallback(<K extends keyof FormatterSettings>(
+    key: K,
+    value: FormatterSettings[K]
+  ) => {
+    saveSettings({ formatter: { ...formatter, [key]: value } });
+  }, [saveSettings, formatter]);
 
   // Apply settings to editor
   useEffect(() => {
@@ -465,6 +644,8 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
         wordWrap: settings.wordWrap,
         minimap: { enabled: settings.minimap },
         lineNumbers: settings.lineNumbers,
+        formatOnPaste: formatter.formatOnPaste,
+        formatOnType: formatter.formatOnType,
       });
     }
 
@@ -476,9 +657,11 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
         wordWrap: settings.wordWrap,
         minimap: { enabled: settings.minimap },
         lineNumbers: settings.lineNumbers,
+        formatOnPaste: formatter.formatOnPaste,
+        formatOnType: formatter.formatOnType,
       });
     }
-  }, [settings]);
+  }, [settings, formatter]);
 
   // Clean up on unmount
   useEffect(() => {
@@ -507,12 +690,76 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
     }
   }, [openFiles, openFile, tabs.length]);
 
-  // Sync activeFile with activeTab
+  // Tabs follow files that were renamed or moved
+  useEffect(() => {
+    const moved = tabs.filter(tab => {
+      const file = openFiles.find(f => f.id === tab.id);
+      return file && file.path !== tab.filePath;
+    });
+
+    if (moved.length > 0) {
+      setTabs(prev => prev.map(tab => {
+        const file = openFiles.find(f => f.id === tab.id);
+        return file && file.path !== tab.filePath
+          ? { ...tab, filePath: file.path, fileName: file.name }
+          : tab;
+      }));
+    }
+  }, [openFiles, tabs]);
+
+  // Tabs pick up read-only flags and locks set here or in another session
+  useEffect(() => {
+    const changed = (tab: EditorTab) => {
+      const file = openFiles.find(f => f.id === tab.id);
+      return file && (file.readOnly !== tab.readOnly || file.lock !== tab.lock);
+    };
+
+    if (tabs.some(changed)) {
+      setTabs(prev => prev.map(tab => {
+        const file = openFiles.find(f => f.id === tab.id);
+        return changed(tab) ? { ...tab, readOnly: file.readOnly, lock: file.lock } : tab;
+      }));
+    }
+  }, [openFiles, tabs]);
+
+  // Clean tabs reload when a file's content is changed outside the editor,
+  // e.g. by a workspace replace. Only changes to the prop count, so content
+  // restored from the Timeline is not overwritten by a stale prop.
+  const seenContentRef = useRef(new Map<string, string>());
+  useEffect(() => {
+    openFiles.forEach(file => {
+      const content = file.content ?? '';
+      const seen = seenContentRef.current.get(file.id);
+      seenContentRef.current.set(file.id, content);
+      if (seen === undefined || seen === content) return;
+
+      const tab = tabsRef.current.find(t => t.id === file.id);
+      if (tab && !tab.isDirty && tab.content !== content) {
+        applySavedContent(tab.id, content, file.revision);
+      }
+    });
+  }, [openFiles, applySavedContent]);
+
+  // Tabs close when their file is deleted, here or in another session
+  useEffect(() => fileSystemService.onDidDelete(({ path }) => {
+    const remaining = tabsRef.current.filter(tab => !isSameOrDescendant(tab.filePath, path));
+    if (remaining.length === tabsRef.current.length) return;
+
+    setTabs(remaining);
+    setActiveTabId(prev => remaining.some(tab => tab.id === prev) ? prev : remaining[0]?.id ?? null);
+    setConflict(prev => prev && remaining.some(tab => tab.id === prev.tabId) ? prev : null);
+  }), []);
+
+  // Sync activeFile with activeTab, opening a tab for it if needed
   useEffect(() => {
     if (activeFile && activeFile.id !== activeTabId) {
-      setActiveTabId(activeFile.id);
+      if (tabs.some(tab => tab.id === activeFile.id)) {
+        setActiveTabId(activeFile.id);
+      } else {
+        openFile(activeFile);
+      }
     }
-  }, [activeFile, activeTabId]);
+  }, [activeFile, activeTabId, tabs, openFile]);
 
   return (
     <div className={`flex flex-col h-full bg-gray-900 ${isFullscreen ? 'fixed inset-0 z-50' : ''}`}>
@@ -539,6 +786,18 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
             <RotateCcw size={18} />
           </button>
 
+          {/* Timeline Toggle */}
+          <button
+            onClick={() => setShowTimeline(prev => !prev)}
+            disabled={!activeTab || !!activeTab.storagePath}
+            className={`p-2 rounded hover:bg-gray-700 disabled:opacity-50 ${
+              showTimeline ? 'text-blue-400' : 'text-gray-400 hover:text-white'
+            }`}
+            title="Timeline"
+          >
+            <History size={18} />
+          </button>
+
           {/* Save Button */}
           {activeTab?.isDirty && (
             <button
@@ -604,6 +863,19 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
                 <option value={8}>8</option>
               </select>
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Theme
+              </label>
+              <select
+                value={settings.theme}
+                onChange={(e) => updateSetting('theme', e.target.value as EditorSettings['theme'])}
+                className="w-full px-3 py-1 bg-gray-700 text-white rounded"
+              >
+                <option value="dark">Dark</option>
+                <option value="light">Light</option>
+              </select>
+            </div>
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">
                 Word Wrap
@@ -630,6 +902,26 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
                 <span>Minimap</span>
               </label>
             </div>
+            <div className="flex items-center space-x-4">
+              <label className="flex items-center space-x-2 text-sm font-medium text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={formatter.formatOnPaste}
+                  onChange={(e) => updateFormatterSetting('formatOnPaste', e.target.checked)}
+                  className="rounded"
+                />
+                <span>Format on Paste</span>
+              </label>
+              <label className="flex items-center space-x-2 text-sm font-medium text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={formatter.formatOnType}
+                  onChange={(e) => updateFormatterSetting('formatOnType', e.target.checked)}
+                  className="rounded"
+                />
+                <span>Format on Type</span>
+              </label>
+            </div>
           </div>
         </div>
       )}
@@ -649,6 +941,11 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
               <span className="truncate max-w-[150px]" title={tab.fileName}>
                 {tab.fileName}
               </span>
+              {lockLabel(tab, userId) && (
+                <span title={lockLabel(tab, userId)} className="ml-1 flex-shrink-0 text-yellow-500">
+                  <Lock size={12} />
+                </span>
+              )}
               {tab.isDirty && <span className="ml-1 text-blue-400">●</span>}
               <button
                 onClick={(e) => {
@@ -665,63 +962,107 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
       )}
 
       {/* Editor Area */}
-      <div className={`flex-1 ${isSplitView ? 'grid grid-cols-2' : ''}`}>
-        {/* Main Editor */}
-        <div className={`relative ${isSplitView ? 'border-r border-gray-700' : ''}`}>
-          {activeTab ? (
-            <Editor
-              height="100%"
-              defaultLanguage={activeTab.language}
-              defaultValue={activeTab.content}
-              theme="codestral-dark"
-              onMount={handleEditorMount}
-              loading={
-                <div className="flex items-center justify-center h-full text-gray-400">
-                  <div className="text-center">
-                    <FileText size={48} className="mx-auto mb-4 opacity-50" />
-                    <p>Loading editor...</p>
+      {conflict && activeTab?.id === conflict.tabId ? (
+        <div className="flex-1 min-h-0">
+          <MergeConflictView
+            key={`${conflict.tabId}:${conflict.theirsRevision}`}
+            filePath={activeTab.filePath}
+            language={activeTab.language}
+            base={activeTab.savedContent}
+            mine={conflict.mine}
+            theirs={conflict.theirs}
+            onResolve={resolveConflict}
+          />
+        </div>
+      ) : showTimeline && activeTab && !activeTab.storagePath ? (
+        <div className="flex-1 min-h-0">
+          <FileTimeline
+            key={activeTab.id}
+            filePath={activeTab.filePath}
+            language={activeTab.language}
+            currentContent={activeTab.content}
+            onRestore={(content, revision) => applySavedContent(activeTab.id, content, revision)}
+            onClose={() => setShowTimeline(false)}
+          />
+        </div>
+      ) : (
+        <div className={`flex-1 ${isSplitView ? 'grid grid-cols-2' : ''}`}>
+          {/* Main Editor */}
+          <div className={`relative ${isSplitView ? 'border-r border-gray-700' : ''}`}>
+            {activeTab?.storagePath ? (
+              <BinaryFileViewer
+                key={activeTab.id}
+                filePath={activeTab.filePath}
+                fileName={activeTab.fileName}
+                storagePath={activeTab.storagePath}
+                size={activeTab.size}
+              />
+            ) : activeTab ? (
+              <Editor
+                key={`${activeTab.id}:${activeTab.filePath}`}
+                height="100%"
+                defaultLanguage={activeTab.language}
+                defaultValue={activeTab.content}
+                theme={editorTheme}
+                onMount={handleEditorMount}
+                loading={
+                  <div className="flex items-center justify-center h-full text-gray-400">
+                    <div className="text-center">
+                      <FileText size={48} className="mx-auto mb-4 opacity-50" />
+                      <p>Loading editor...</p>
+                    </div>
                   </div>
+                }
+                options={{
+                  selectOnLineNumbers: true,
+                  roundedSelection: false,
+                  readOnly: !isEditableBy(activeTab, userId),
+                  cursorStyle: 'line',
+                  automaticLayout: true,
+                }}
+              />
+            ) : (
+              <div className="flex items-center justify-center h-full text-gray-400">
+                <div className="text-center">
+                  <FileText size={64} className="mx-auto mb-4 opacity-30" />
+                  <p className="text-lg">No file open</p>
+                  <p className="text-sm">Select a file from the explorer to start editing</p>
                 </div>
-              }
-              options={{
-                selectOnLineNumbers: true,
-                roundedSelection: false,
-                readOnly: false,
-                cursorStyle: 'line',
-                automaticLayout: true,
-              }}
-            />
-          ) : (
-            <div className="flex items-center justify-center h-full text-gray-400">
-              <div className="text-center">
-                <FileText size={64} className="mx-auto mb-4 opacity-30" />
-                <p className="text-lg">No file open</p>
-                <p className="text-sm">Select a file from the explorer to start editing</p>
               </div>
+            )}
+          </div>
+
+          {/* Secondary Editor (Split View) */}
+          {isSplitView && secondaryTab && (
+            <div className="relative">
+              {secondaryTab.storagePath ? (
+                <BinaryFileViewer
+                  key={secondaryTab.id}
+                  filePath={secondaryTab.filePath}
+                  fileName={secondaryTab.fileName}
+                  storagePath={secondaryTab.storagePath}
+                  size={secondaryTab.size}
+                />
+              ) : (
+                <Editor
+                  height="100%"
+                  defaultLanguage={secondaryTab.language}
+                  defaultValue={secondaryTab.content}
+                  theme={editorTheme}
+                  onMount={handleSecondaryEditorMount}
+                  options={{
+                    selectOnLineNumbers: true,
+                    roundedSelection: false,
+                    readOnly: !isEditableBy(secondaryTab, userId),
+                    cursorStyle: 'line',
+                    automaticLayout: true,
+                  }}
+                />
+              )}
             </div>
           )}
         </div>
-
-        {/* Secondary Editor (Split View) */}
-        {isSplitView && secondaryTab && (
-          <div className="relative">
-            <Editor
-              height="100%"
-              defaultLanguage={secondaryTab.language}
-              defaultValue={secondaryTab.content}
-              theme="codestral-dark"
-              onMount={handleSecondaryEditorMount}
-              options={{
-                selectOnLineNumbers: true,
-                roundedSelection: false,
-                readOnly: false,
-                cursorStyle: 'line',
-                automaticLayout: true,
-              }}
-            />
-          </div>
-        )}
-      </div>
+      )}
 
       {/* Status Bar */}
       <div className="flex items-center justify-between px-4 py-1 bg-gray-800 border-t border-gray-700 text-xs text-gray-400">
@@ -731,6 +1072,12 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
               <span>{activeTab.fileName}</span>
               <span>{activeTab.language}</span>
               {activeTab.isDirty && <span className="text-blue-400">Unsaved</span>}
+              {lockLabel(activeTab, userId) && (
+                <span className="flex items-center text-yellow-500">
+                  <Lock size={12} className="mr-1" />
+                  {lockLabel(activeTab, userId)}
+                </span>
+              )}
             </>
           )}
         </div>
@@ -1,11 +1,19 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import * as ContextMenu from '@radix-ui/react-context-menu';
 import * as Dialog from '@radix-ui/react-dialog';
-import { FileNode, Workspace } from '@/types';
+import { toast } from 'sonner';
+import { ArchiveImportResult, FileEventOrigin, FileNode, PathMove, Workspace } from '@/types';
 import { workspaceService } from '@/services/WorkspaceService';
-import { fileSystemService } from '@/services/FileSystemService';
+import { DEFAULT_LOCK_MINUTES, fileSystemService } from '@/services/FileSystemService';
+import { basename, dirname, isSameOrDescendant, joinPath, PathValidationError, validateName } from '@/lib/paths';
+import { formatBytes, imageMimeType } from '@/lib/binary';
+import { IgnoreMatcher } from '@/lib/ignore';
+import { isLockActive } from '@/lib/locks';
 import {
+  Binary,
+  Camera,
   File,
+  FileImage,
   Folder,
   FolderOpen,
   ChevronRight,
@@ -16,41 +24,109 @@ import {
   Trash2,
   Edit2,
   MoreHorizontal,
+  MessageSquare,
+  Download,
+  Upload,
+  Eye,
+  EyeOff,
+  Lock,
+  Unlock,
 } from 'lucide-react';
 
 interface FileExplorerProps {
   workspace: Workspace;
   onFileSelect: (file: FileNode) => void;
   onFileOpen?: (file: FileNode) => void;
+  onPathMoved?: (fromPath: string, toPath: string) => void;
+  onOpenTrash?: () => void;
+  onOpenSnapshots?: () => void;
 }
 
+// Paths dragged from inside the explorer; OS drops only carry 'Files'
+const DRAG_MIME = 'application/x-codestral-paths';
+
+// Lets a burst of remote changes, e.g. a folder move, settle into one refresh
+const REMOTE_REFRESH_DELAY = 200;
+
+// Whether files matched by ignore files are hidden rather than dimmed
+const HIDE_IGNORED_KEY = 'codestral-explorer-hide-ignored';
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
 interface TreeNodeProps {
   node: FileNode;
   level: number;
+  isSelected?: boolean;
+  isDropTarget?: boolean;
+  isIgnored?: boolean;
+  userId?: string | null;
+  children?: React.ReactNode;
   onFileSelect?: (file: FileNode) => void;
   onFileOpen?: (file: FileNode) => void;
   onRename?: (node: FileNode, newName: string) => void;
   onDelete?: (node: FileNode) => void;
+  onToggleExpanded?: (node: FileNode, expanded: boolean) => void;
+  onEditDescription?: (node: FileNode) => void;
+  onDownload?: (node: FileNode) => void;
+  onToggleReadOnly?: (node: FileNode) => void;
+  onToggleLock?: (node: FileNode) => void;
+  onSelect?: (node: FileNode, e: React.MouseEvent) => boolean;
+  onDragStart?: (node: FileNode, e: React.DragEvent) => void;
+  onDragOver?: (node: FileNode, e: React.DragEvent) => void;
+  onDrop?: (node: FileNode, e: React.DragEvent) => void;
 }
 
 const TreeNode: React.FC<TreeNodeProps> = ({
   node,
   level,
+  isSelected = false,
+  isDropTarget = false,
+  isIgnored = false,
+  userId = null,
+  children,
   onFileSelect,
   onFileOpen,
   onRename,
   onDelete,
+  onToggleExpanded,
+  onEditDescription,
+  onDownload,
+  onToggleReadOnly,
+  onToggleLock,
+  onSelect,
+  onDragStart,
+  onDragOver,
+  onDrop,
 }) => {
   const [isExpanded, setIsExpanded] = useState(node.isOpen || false);
   const [isEditing, setIsEditing] = useState(false);
   const [editName, setEditName] = useState(node.name);
 
-  const handleClick = () => {
+  const lock = isLockActive(node.lock) ? node.lock : null;
+  const lockedByOther = !!lock && lock.userId !== userId;
+
+  const setExpanded = (expanded: boolean) => {
+    if (expanded === isExpanded) return;
+    setIsExpanded(expanded);
+    onToggleExpanded?.(node, expanded);
+  };
+
+  const handleClick = (e: React.MouseEvent) => {
+    // Modifier clicks only change the selection
+    if (onSelect?.(node, e)) return;
+
     if (node.type === 'file') {
       onFileSelect?.(node);
       onFileOpen?.(node);
     } else {
-      setIsExpanded(!isExpanded);
+      setExpanded(!isExpanded);
     }
   };
 
@@ -82,6 +158,12 @@ const TreeNode: React.FC<TreeNodeProps> = ({
     const ext = node.name.split('.').pop()?.toLowerCase();
     const iconProps = { className: "w-4 h-4 text-gray-600" };
 
+    if (node.storagePath) {
+      return imageMimeType(node.name)
+        ? <FileImage {...iconProps} className="w-4 h-4 text-purple-500" />
+        : <Binary {...iconProps} />;
+    }
+
     switch (ext) {
       case 'js':
       case 'jsx':
@@ -128,116 +210,244 @@ const TreeNode: React.FC<TreeNodeProps> = ({
   };
 
   return (
-    <ContextMenu.Root>
-      <ContextMenu.Trigger asChild>
-        <div
-          className={`select-none group flex items-center gap-1 px-2 py-1 hover:bg-gray-100 dark:hover:bg-gray-800 cursor-pointer rounded-sm transition-colors ${
-            level > 0 ? `ml-${level * 4}` : ''
-          }`}
-          style={{ marginLeft: `${level * 16}px` }}
-          draggable
-          onDragStart={(e) => {
-            e.dataTransfer.setData('text/plain', node.path);
-            e.dataTransfer.effectAllowed = 'move';
-          }}
-          onDragOver={(e) => {
-            e.preventDefault();
-            if (node.type === 'folder') {
-              e.dataTransfer.dropEffect = 'move';
-            }
-          }}
-          onDrop={(e) => {
-            e.preventDefault();
-            const sourcePath = e.dataTransfer.getData('text/plain');
-            // Handle drop logic here (move files/folders)
-            console.log('Dropped:', sourcePath, 'onto', node.path);
-          }}
-        >
-          {node.type === 'folder' && (
-            <div className="w-4 h-4 flex items-center justify-center">
-              {isExpanded ? (
-                <ChevronDown className="w-3 h-3 text-gray-500" />
+    <>
+      <ContextMenu.Root>
+        <ContextMenu.Trigger asChild>
+          <div
+            className={`select-none group flex items-center gap-1 px-2 py-1 hover:bg-gray-100 dark:hover:bg-gray-800 cursor-pointer rounded-sm transition-colors ${
+              level > 0 ? `ml-${level * 4}` : ''
+            } ${isSelected ? 'bg-blue-100 dark:bg-blue-900/40' : ''} ${
+              isDropTarget ? 'ring-1 ring-inset ring-blue-500 bg-blue-50 dark:bg-blue-500/10' : ''
+            } ${isIgnored ? 'opacity-50' : ''}`}
+            style={{ marginLeft: `${level * 16}px` }}
+            title={node.description || (node.type === 'file' ? formatBytes(node.size || 0) : undefined)}
+            draggable={!isEditing}
+            onDragStart={(e) => onDragStart?.(node, e)}
+            onDragOver={(e) => onDragOver?.(node, e)}
+            onDrop={(e) => {
+              onDrop?.(node, e);
+              if (node.type === 'folder') {
+                setExpanded(true);
+              }
+            }}
+          >
+            {node.type === 'folder' && (
+              <div className="w-4 h-4 flex items-center justify-center">
+                {isExpanded ? (
+                  <ChevronDown className="w-3 h-3 text-gray-500" />
+                ) : (
+                  <ChevronRight className="w-3 h-3 text-gray-500" />
+                )}
+              </div>
+            )}
+            
+            <div className="flex items-center gap-2 flex-1" onClick={(e) => handleClick(e)}>
+              {getFileIcon(node)}
+              {isEditing ? (
+                <input
+                  type="text"
+                  value={editName}
+                  onChange={(e) => setEditName(e.target.value)}
+                  onBlur={handleSaveRename}
+                  onKeyDown={handleKeyDown}
+                  className="flex-1 bg-transparent border border-blue-500 rounded px-1 text-sm outline-none"
+                  autoFocus
+                  onClick={(e) => e.stopPropagation()}
+                />
               ) : (
-                <ChevronRight className="w-3 h-3 text-gray-500" />
+                <span className="text-sm text-gray-700 dark:text-gray-300 truncate">
+                  {node.name}
+                  {node.isDirty && <span className="text-orange-500 ml-1">•</span>}
+                </span>
+              )}
+              {!isEditing && (node.readOnly || lock) && (
+                <span title={node.readOnly ? 'Read-only' : `Locked by ${lockedByOther ? lock.userName : 'you'}`}>
+                  <Lock className={`w-3 h-3 flex-shrink-0 ${lockedByOther || node.readOnly ? 'text-yellow-500' : 'text-gray-400'}`} />
+                </span>
               )}
             </div>
-          )}
-          
-          <div className="flex items-center gap-2 flex-1" onClick={handleClick}>
-            {getFileIcon(node)}
-            {isEditing ? (
-              <input
-                type="text"
-                value={editName}
-                onChange={(e) => setEditName(e.target.value)}
-                onBlur={handleSaveRename}
-                onKeyDown={handleKeyDown}
-                className="flex-1 bg-transparent border border-blue-500 rounded px-1 text-sm outline-none"
-                autoFocus
-                onClick={(e) => e.stopPropagation()}
-              />
-            ) : (
-              <span className="text-sm text-gray-700 dark:text-gray-300 truncate">
-                {node.name}
-                {node.isDirty && <span className="text-orange-500 ml-1">•</span>}
-              </span>
-            )}
-          </div>
 
-          <div className="opacity-0 group-hover:opacity-100 transition-opacity">
-            <ContextMenu.Trigger asChild>
-              <button
-                className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded"
-                onClick={(e) => e.stopPropagation()}
-              >
-                <MoreHorizontal className="w-3 h-3 text-gray-500" />
-              </button>
-            </ContextMenu.Trigger>
+            <div className="opacity-0 group-hover:opacity-100 transition-opacity">
+              <ContextMenu.Trigger asChild>
+                <button
+                  className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <MoreHorizontal className="w-3 h-3 text-gray-500" />
+                </button>
+              </ContextMenu.Trigger>
+            </div>
           </div>
-        </div>
-      </ContextMenu.Trigger>
+        </ContextMenu.Trigger>
 
-      <ContextMenu.Portal>
-        <ContextMenu.Content className="bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700 py-1 min-w-[180px] z-50">
-          <ContextMenu.Item
-            className="px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer flex items-center gap-2"
-            onClick={() => handleRename()}
-          >
-            <Edit2 className="w-4 h-4" />
-            Rename
-          </ContextMenu.Item>
-          <ContextMenu.Item
-            className="px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer flex items-center gap-2"
-            onClick={() => onDelete?.(node)}
-          >
-            <Trash2 className="w-4 h-4" />
-            Delete
-          </ContextMenu.Item>
-        </ContextMenu.Content>
-      </ContextMenu.Portal>
-    </ContextMenu.Root>
+        <ContextMenu.Portal>
+          <ContextMenu.Content className="bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700 py-1 min-w-[180px] z-50">
+            <ContextMenu.Item
+              className="px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer flex items-center gap-2"
+              onClick={() => handleRename()}
+            >
+              <Edit2 className="w-4 h-4" />
+              Rename
+            </ContextMenu.Item>
+            {node.type === 'folder' && (
+              <ContextMenu.Item
+                className="px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer flex items-center gap-2"
+                onClick={() => onEditDescription?.(node)}
+              >
+                <MessageSquare className="w-4 h-4" />
+                Edit Description
+              </ContextMenu.Item>
+            )}
+            {node.type === 'folder' && (
+              <ContextMenu.Item
+                className="px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer flex items-center gap-2"
+                onClick={() => onDownload?.(node)}
+              >
+                <Download className="w-4 h-4" />
+                Download as ZIP
+              </ContextMenu.Item>
+            )}
+            {node.type === 'file' && (
+              <ContextMenu.Item
+                className="px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer flex items-center gap-2"
+                onClick={() => onToggleReadOnly?.(node)}
+              >
+                {node.readOnly ? <Unlock className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+                {node.readOnly ? 'Make Writable' : 'Mark as Read-only'}
+              </ContextMenu.Item>
+            )}
+            {node.type === 'file' && (
+              <ContextMenu.Item
+                className="px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer flex items-center gap-2 data-[disabled]:opacity-50 data-[disabled]:cursor-default"
+                disabled={lockedByOther}
+                onClick={() => onToggleLock?.(node)}
+              >
+                {lock ? <Unlock className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+                {lockedByOther ? `Locked by ${lock.userName}` : lock ? 'Release Lock' : 'Lock for Editing'}
+              </ContextMenu.Item>
+            )}
+            <ContextMenu.Item
+              className="px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer flex items-center gap-2"
+              onClick={() => onDelete?.(node)}
+            >
+              <Trash2 className="w-4 h-4" />
+              Delete
+            </ContextMenu.Item>
+          </ContextMenu.Content>
+        </ContextMenu.Portal>
+      </ContextMenu.Root>
+      {node.type === 'folder' && isExpanded && children}
+    </>
   );
 };
 
 export const FileExplorer: React.FC<FileExplorerProps> = ({ 
   workspace: propWorkspace, 
   onFileSelect, 
-  onFileOpen 
+  onFileOpen,
+  onPathMoved,
+  onOpenTrash,
+  onOpenSnapshots
 }) => {
   const [files, setFiles] = useState<FileNode[]>([]);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [dialogType, setDialogType] = useState<'file' | 'folder'>('file');
   const [newName, setNewName] = useState('');
   const [selectedParentPath, setSelectedParentPath] = useState('');
+  const [selectedPaths, setSelectedPaths] = useState<string[]>([]);
+  const [anchorPath, setAnchorPath] = useState<string | null>(null);
+  // Folder under the pointer while dragging; '' is the workspace root
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [ignore, setIgnore] = useState<IgnoreMatcher | null>(null);
+  const [hideIgnored, setHideIgnored] = useState(() => {
+    try {
+      return localStorage.getItem(HIDE_IGNORED_KEY) === 'true';
+    } catch {
+      return false;
+    }
+  });
+  const [userId, setUserId] = useState<string | null>(null);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
 
   const workspace = propWorkspace || workspaceService.getCurrentWorkspace();
+  const workspaceId = workspace?.id;
+
+  // Reload the ignore rules whenever an ignore file changes
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      fileSystemService.getIgnoreMatcher().then(matcher => {
+        if (!cancelled) setIgnore(matcher);
+      });
+    };
+
+    load();
+    const unsubscribe = fileSystemService.onDidChangeIgnoreRules(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [workspaceId]);
+
+  useEffect(() => {
+    fileSystemService.getCurrentUser().then(user => setUserId(user?.id ?? null));
+  }, []);
+
+  const toggleHideIgnored = () => {
+    setHideIgnored(prev => {
+      try {
+        localStorage.setItem(HIDE_IGNORED_KEY, String(!prev));
+      } catch {
+        // Only a view preference
+      }
+      return !prev;
+    });
+  };
 
   useEffect(() => {
     if (workspace) {
-      setFiles(fileSystemService.buildFileTree(workspace.files));
+      setFiles(fileSystemService.buildFileTree(workspace.files, workspace.folders));
     }
   }, [workspace]);
 
+  // Tree order, used for shift-click range selection
+  const orderedPaths = useMemo(() => {
+    const paths: string[] = [];
+    const walk = (nodes: FileNode[]) => nodes.forEach(node => {
+      paths.push(node.path);
+      if (node.children) walk(node.children);
+    });
+    walk(files);
+    return paths;
+  }, [files]);
+
+  const refreshTree = useCallback(async () => {
+    const allFiles = await fileSystemService.listFiles();
+    const folders = await fileSystemService.getFolders();
+    setFiles(fileSystemService.buildFileTree(allFiles, folders));
+  }, []);
+
+  // Our own actions refresh right away; changes from other sessions arrive
+  // as events and are batched into a single refresh
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+    const scheduleRefresh = (event: { origin: FileEventOrigin }) => {
+      if (event.origin !== 'remote') return;
+      if (timeout) clearTimeout(timeout);
+      timeout = setTimeout(refreshTree, REMOTE_REFRESH_DELAY);
+    };
+
+    const subscriptions = [
+      fileSystemService.onDidCreate(scheduleRefresh),
+      fileSystemService.onDidDelete(scheduleRefresh),
+      fileSystemService.onDidRename(scheduleRefresh),
+    ];
+    return () => {
+      if (timeout) clearTimeout(timeout);
+      subscriptions.forEach(unsubscribe => unsubscribe());
+    };
+  }, [refreshTree]);
+
   const handleCreateNew = (type: 'file' | 'folder', parentPath: string = '') => {
     setDialogType(type);
     setSelectedParentPath(parentPath);
@@ -248,29 +458,28 @@ export const FileExplorer: React.FC<FileExplorerProps> = ({
   const handleSaveNew = async () => {
     if (!newName.trim() || !workspace) return;
 
-    const fullPath = selectedParentPath 
-      ? `${selectedParentPath}/${newName.trim()}`
-      : newName.trim();
-
     try {
+      const name = validateName(newName.trim());
+      const fullPath = joinPath(selectedParentPath, name);
+
       if (dialogType === 'file') {
-        const language = fileSystemService.detectLanguage(newName);
-        const newFile = await fileSystemService.createFile(newName, fullPath, '', language);
+        const language = fileSystemService.detectLanguage(name);
+        const newFile = await fileSystemService.createFile(name, fullPath, '', language);
         await workspaceService.addFileToWorkspace(workspace.id, newFile);
       } else {
-        const newFolder = await fileSystemService.createFolder(newName, fullPath);
-        await workspaceService.addFileToWorkspace(workspace.id, newFolder);
+        const newFolder = await fileSystemService.createFolder(name, fullPath);
+        await workspaceService.addFolderToWorkspace(workspace.id, newFolder);
       }
 
       // Refresh files from the file system
-      const allFiles = await fileSystemService.getAllFiles();
-      const updatedFiles = fileSystemService.buildFileTree(allFiles);
-      setFiles(updatedFiles);
+      await refreshTree();
       setDialogOpen(false);
       setNewName('');
     } catch (error) {
       console.error('Error creating file/folder:', error);
-      alert('Failed to create file/folder. Please try again.');
+      alert(error instanceof PathValidationError
+        ? `Failed to create file/folder: ${error.message}`
+        : 'Failed to create file/folder. Please try again.');
     }
   };
 
@@ -278,51 +487,312 @@ export const FileExplorer: React.FC<FileExplorerProps> = ({
     if (!workspace) return;
 
     const oldPath = node.path;
-    const pathParts = oldPath.split('/');
-    pathParts[pathParts.length - 1] = newName;
-    const newPath = pathParts.join('/');
 
     try {
-      await fileSystemService.renameFile(oldPath, newPath, newName);
+      const newPath = joinPath(dirname(oldPath), validateName(newName));
+      await fileSystemService.movePath(oldPath, newPath);
+      await workspaceService.movePathInWorkspace(workspace.id, oldPath, newPath);
+      onPathMoved?.(oldPath, newPath);
       
       // Refresh files from the file system
-      const allFiles = await fileSystemService.getAllFiles();
-      const updatedFiles = fileSystemService.buildFileTree(allFiles);
-      setFiles(updatedFiles);
+      await refreshTree();
     } catch (error) {
       console.error('Error renaming file/folder:', error);
-      alert('Failed to rename file/folder. Please try again.');
+      alert(`Failed to rename file/folder: ${error instanceof Error ? error.message : 'Please try again.'}`);
     }
   };
 
   const handleDelete = async (node: FileNode) => {
-    if (!workspace || !confirm(`Are you sure you want to delete "${node.name}"?`)) return;
+    if (!workspace || !confirm(`Move "${node.name}" to the trash?`)) return;
 
     try {
-      await fileSystemService.deleteFile(node.path);
+      const item = await fileSystemService.deleteFile(node.path);
       await workspaceService.removeFileFromWorkspace(workspace.id, node.path);
       
       // Refresh files from the file system
-      const allFiles = await fileSystemService.getAllFiles();
-      const updatedFiles = fileSystemService.buildFileTree(allFiles);
-      setFiles(updatedFiles);
+      await refreshTree();
+
+      toast.success(`Moved "${node.name}" to the trash`, {
+        action: {
+          label: 'Undo',
+          onClick: () => handleUndoDelete(item.id),
+        },
+      });
     } catch (error) {
       console.error('Error deleting file/folder:', error);
-      alert('Failed to delete file/folder. Please try again.');
+      alert(`Failed to delete file/folder: ${error instanceof Error ? error.message : 'Please try again.'}`);
+    }
+  };
+
+  const handleUndoDelete = async (itemId: string) => {
+    if (!workspace) return;
+
+    try {
+      await workspaceService.restoreFromTrash(workspace.id, itemId);
+      await refreshTree();
+    } catch (error) {
+      console.error('Error restoring from trash:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to undo the delete.');
+    }
+  };
+
+  const handleToggleExpanded = async (node: FileNode, expanded: boolean) => {
+    try {
+      await fileSystemService.setFolderCollapsed(node.path, !expanded);
+    } catch (error) {
+      // Collapsed state is a convenience; the tree still works without it
+      console.error('Error saving folder state:', error);
+    }
+  };
+
+  const handleEditDescription = async (node: FileNode) => {
+    const description = prompt(`Description for "${node.name}"`, node.description || '');
+    if (description === null) return;
+
+    try {
+      await fileSystemService.setFolderDescription(node.path, description.trim());
+      await refreshTree();
+    } catch (error) {
+      console.error('Error updating folder description:', error);
+      toast.error('Failed to update folder description. Please try again.');
+    }
+  };
+
+  const handleToggleReadOnly = async (node: FileNode) => {
+    try {
+      await fileSystemService.setReadOnly(node.path, !node.readOnly);
+      await refreshTree();
+      toast.success(node.readOnly ? `"${node.name}" is writable again` : `Marked "${node.name}" as read-only`);
+    } catch (error) {
+      console.error('Error changing read-only flag:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to change the read-only flag.');
+    }
+  };
+
+  const handleToggleLock = async (node: FileNode) => {
+    const locked = isLockActive(node.lock);
+
+    try {
+      if (locked) {
+        await fileSystemService.unlockFile(node.path);
+      } else {
+        await fileSystemService.lockFile(node.path);
+      }
+      await refreshTree();
+      toast.success(locked
+        ? `Released the lock on "${node.name}"`
+        : `Locked "${node.name}" for ${DEFAULT_LOCK_MINUTES} minutes`);
+    } catch (error) {
+      console.error('Error changing file lock:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to change the lock.');
+    }
+  };
+
+  const handleDownloadArchive = async (folderPath: string = '') => {
+    if (!workspace) return;
+
+    try {
+      const archive = await workspaceService.exportWorkspaceArchive(workspace.id, folderPath);
+      downloadBlob(archive, `${folderPath ? basename(folderPath) : workspace.name}.zip`);
+    } catch (error) {
+      console.error('Error exporting archive:', error);
+      toast.error('Failed to export ZIP archive. Please try again.');
+    }
+  };
+
+  const reportArchiveImport = (result: ArchiveImportResult) => {
+    const count = result.files.length + result.folders.length;
+    const summary = `Imported ${count} item${count === 1 ? '' : 's'} from archive`;
+
+    if (result.failed.length === 0) {
+      toast.success(summary);
+      return;
+    }
+
+    console.warn('Archive entries that failed to import:', result.failed);
+    toast.warning(`${summary}, ${result.failed.length} failed`, {
+      description: result.failed.slice(0, 5).map(entry => `${entry.path}: ${entry.error}`).join('\n'),
+    });
+  };
+
+  const handleImportArchive = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const archive = e.target.files?.[0];
+    e.target.value = '';
+    if (!archive || !workspace) return;
+
+    try {
+      const result = await fileSystemService.importArchive(archive);
+      const known = new Set(workspace.files.map(file => file.path));
+      for (const file of result.files.filter(file => !known.has(file.path))) {
+        await workspaceService.addFileToWorkspace(workspace.id, file);
+      }
+      await refreshTree();
+      reportArchiveImport(result);
+    } catch (error) {
+      console.error('Error importing archive:', error);
+      toast.error(`Failed to import ZIP archive: ${error instanceof Error ? error.message : 'Please try again.'}`);
+    }
+  };
+
+  // Returns true when the click only changed the selection
+  const handleSelect = (node: FileNode, e: React.MouseEvent): boolean => {
+    if (e.metaKey || e.ctrlKey) {
+      setSelectedPaths(prev => prev.includes(node.path)
+        ? prev.filter(p => p !== node.path)
+        : [...prev, node.path]);
+      setAnchorPath(node.path);
+      return true;
+    }
+
+    if (e.shiftKey && anchorPath) {
+      const start = orderedPaths.indexOf(anchorPath);
+      const end = orderedPaths.indexOf(node.path);
+      if (start !== -1 && end !== -1) {
+        setSelectedPaths(orderedPaths.slice(Math.min(start, end), Math.max(start, end) + 1));
+        return true;
+      }
+    }
+
+    setSelectedPaths([node.path]);
+    setAnchorPath(node.path);
+    return false;
+  };
+
+  const handleDragStart = (node: FileNode, e: React.DragEvent) => {
+    const paths = selectedPaths.includes(node.path) ? selectedPaths : [node.path];
+    if (!selectedPaths.includes(node.path)) {
+      setSelectedPaths([node.path]);
+    }
+
+    e.dataTransfer.setData(DRAG_MIME, JSON.stringify(paths));
+    e.dataTransfer.setData('text/plain', paths.join('\n'));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleDragOver = (targetFolder: string, e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = e.dataTransfer.types.includes(DRAG_MIME) ? 'move' : 'copy';
+    setDropTarget(targetFolder);
+  };
+
+  // Run moves one by one, stopping at the first failure; returns what was done
+  const performMoves = async (moves: PathMove[]): Promise<PathMove[]> => {
+    if (!workspace) return [];
+
+    const completed: PathMove[] = [];
+    try {
+      for (const move of moves) {
+        await fileSystemService.movePath(move.from, move.to);
+        await workspaceService.movePathInWorkspace(workspace.id, move.from, move.to);
+        onPathMoved?.(move.from, move.to);
+        completed.push(move);
+      }
+    } catch (error) {
+      console.error('Error moving file/folder:', error);
+      toast.error(`Failed to move: ${error instanceof Error ? error.message : 'Please try again.'}`);
+    }
+
+    await refreshTree();
+    return completed;
+  };
+
+  const moveInto = async (paths: string[], targetFolder: string) => {
+    // Moving a folder already carries its selected descendants along
+    const roots = paths.filter(path => !paths.some(other => other !== path && isSameOrDescendant(path, other)));
+    const moves = roots
+      .filter(from => !isSameOrDescendant(targetFolder, from))
+      .map(from => ({ from, to: joinPath(targetFolder, basename(from)) }))
+      .filter(move => move.from !== move.to);
+
+    if (moves.length === 0) return;
+
+    const completed = await performMoves(moves);
+    if (completed.length === 0) return;
+
+    setSelectedPaths(completed.map(move => move.to));
+    toast.success(`Moved ${completed.length} item${completed.length === 1 ? '' : 's'} to ${targetFolder || 'workspace root'}`, {
+      action: {
+        label: 'Undo',
+        onClick: () => {
+          performMoves(completed.map(move => ({ from: move.to, to: move.from })).reverse());
+        },
+      },
+    });
+  };
+
+  const uploadInto = async (droppedFiles: File[], targetFolder: string) => {
+    if (!workspace) return;
+
+    try {
+      const result = await fileSystemService.importLocalFiles(droppedFiles, targetFolder);
+      for (const file of result.files) {
+        await workspaceService.addFileToWorkspace(workspace.id, file);
+      }
+      await refreshTree();
+
+      const count = result.files.length;
+      const summary = `Uploaded ${count} file${count === 1 ? '' : 's'} to ${targetFolder || 'workspace root'}`;
+      if (result.failed.length === 0) {
+        toast.success(summary);
+        return;
+      }
+
+      console.warn('Files that failed to upload:', result.failed);
+      toast.warning(`${summary}, ${result.failed.length} failed`, {
+        description: result.failed.slice(0, 5).map(entry => `${entry.path}: ${entry.error}`).join('\n'),
+      });
+    } catch (error) {
+      console.error('Error uploading files:', error);
+      toast.error('Failed to upload files. Please try again.');
     }
   };
 
+  const handleDrop = (targetFolder: string, e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTarget(null);
+
+    const internal = e.dataTransfer.getData(DRAG_MIME);
+    if (internal) {
+      moveInto(JSON.parse(internal), targetFolder);
+    } else if (e.dataTransfer.files.length > 0) {
+      uploadInto(Array.from(e.dataTransfer.files), targetFolder);
+    }
+  };
+
+  // Dropping on a file targets the folder that contains it
+  const folderFor = (node: FileNode) => node.type === 'folder' ? node.path : dirname(node.path);
+
+  const isIgnored = (node: FileNode) => !!ignore?.isIgnored(node.path, node.type === 'folder');
+
   const renderTree = (nodes: FileNode[], level: number = 0) => {
-    return nodes.map((node) => (
+    const visible = hideIgnored ? nodes.filter(node => !isIgnored(node)) : nodes;
+    return visible.map((node) => (
       <TreeNode
         key={node.path}
         node={node}
         level={level}
+        isSelected={selectedPaths.includes(node.path)}
+        isDropTarget={node.type === 'folder' && dropTarget === node.path}
+        isIgnored={isIgnored(node)}
+        userId={userId}
         onFileSelect={onFileSelect}
         onFileOpen={onFileOpen}
         onRename={handleRename}
         onDelete={handleDelete}
-      />
+        onToggleExpanded={handleToggleExpanded}
+        onEditDescription={handleEditDescription}
+        onDownload={(target) => handleDownloadArchive(target.path)}
+        onToggleReadOnly={handleToggleReadOnly}
+        onToggleLock={handleToggleLock}
+        onSelect={handleSelect}
+        onDragStart={handleDragStart}
+        onDragOver={(target, e) => handleDragOver(folderFor(target), e)}
+        onDrop={(target, e) => handleDrop(folderFor(target), e)}
+      >
+        {node.children && renderTree(node.children, level + 1)}
+      </TreeNode>
     ));
   };
 
@@ -347,10 +817,70 @@ export const FileExplorer: React.FC<FileExplorerProps> = ({
           >
             <FolderPlus className="w-4 h-4 text-gray-600 dark:text-gray-400" />
           </button>
+          <button
+            onClick={() => archiveInputRef.current?.click()}
+            className="p-1.5 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+            title="Import ZIP"
+          >
+            <Upload className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+          </button>
+          <button
+            onClick={() => handleDownloadArchive()}
+            className="p-1.5 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+            title="Download as ZIP"
+          >
+            <Download className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+          </button>
+          {ignore && !ignore.isEmpty && (
+            <button
+              onClick={toggleHideIgnored}
+              className="p-1.5 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+              title={hideIgnored ? 'Show Ignored Files' : 'Hide Ignored Files'}
+            >
+              {hideIgnored
+                ? <EyeOff className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+                : <Eye className="w-4 h-4 text-gray-600 dark:text-gray-400" />}
+            </button>
+          )}
+          {onOpenTrash && (
+            <button
+              onClick={onOpenTrash}
+              className="p-1.5 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+              title="Trash"
+            >
+              <Trash2 className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+            </button>
+          )}
+          {onOpenSnapshots && (
+            <button
+              onClick={onOpenSnapshots}
+              className="p-1.5 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+              title="Snapshots"
+            >
+              <Camera className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+            </button>
+          )}
+          <input
+            ref={archiveInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            className="hidden"
+            onChange={handleImportArchive}
+          />
         </div>
       </div>
 
-      <div className="flex-1 overflow-auto p-2">
+      <div
+        className={`flex-1 overflow-auto p-2 ${dropTarget === '' ? 'outline-dashed outline-1 -outline-offset-4 outline-blue-500' : ''}`}
+        onDragOver={(e) => handleDragOver('', e)}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+            setDropTarget(null);
+          }
+        }}
+        onDrop={(e) => handleDrop('', e)}
+        onDragEnd={() => setDropTarget(null)}
+      >
         {files.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-full text-gray-400 dark:text-gray-600">
             <Folder className="w-12 h-12 mb-2" />
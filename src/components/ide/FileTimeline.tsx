@@ -0,0 +1,179 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { FileRevision } from '@/types';
+import { fileSystemService } from '@/services/FileSystemService';
+import { History, RotateCcw, X, RefreshCw } from 'lucide-react';
+
+interface FileTimelineProps {
+  filePath: string;
+  language: string;
+  currentContent: string;
+  onRestore: (content: string, revision: number) => void;
+  onClose: () => void;
+}
+
+const CURRENT = 'current';
+
+export const FileTimeline: React.FC<FileTimelineProps> = ({
+  filePath,
+  language,
+  currentContent,
+  onRestore,
+  onClose,
+}) => {
+  const [revisions, setRevisions] = useState<FileRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [baseId, setBaseId] = useState<string>('');
+  const [compareId, setCompareId] = useState<string>(CURRENT);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const history = await fileSystemService.getFileHistory(filePath);
+      setRevisions(history);
+      setBaseId(history[0]?.id || CURRENT);
+      setCompareId(CURRENT);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filePath]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  const contentFor = useCallback((id: string) => {
+    if (id === CURRENT) return currentContent;
+    return revisions.find(r => r.id === id)?.content ?? '';
+  }, [revisions, currentContent]);
+
+  const labelFor = useCallback((revision: FileRevision, index: number) => {
+    const label = revision.createdAt.toLocaleString();
+    return index === 0 ? `${label} (latest)` : label;
+  }, []);
+
+  const original = useMemo(() => contentFor(baseId), [contentFor, baseId]);
+  const modified = useMemo(() => contentFor(compareId), [contentFor, compareId]);
+
+  const handleRestore = async (revision: FileRevision) => {
+    if (!confirm(`Restore ${filePath} to the version from ${revision.createdAt.toLocaleString()}?`)) return;
+
+    setRestoringId(revision.id);
+    try {
+      const restored = await fileSystemService.restoreRevision(filePath, revision.id);
+      onRestore(restored.content, restored.revision);
+      await loadRevisions();
+    } catch (error) {
+      console.error('Failed to restore revision:', error);
+      alert('Failed to restore revision. Please try again.');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <div className="flex h-full bg-gray-900 text-gray-300">
+      {/* Revision List */}
+      <div className="w-64 flex-shrink-0 border-r border-gray-700 flex flex-col">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <History size={16} />
+            <span>Timeline</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={loadRevisions}
+              className="p-1 rounded hover:bg-gray-700 text-gray-400 hover:text-white"
+              title="Refresh"
+            >
+              <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1 rounded hover:bg-gray-700 text-gray-400 hover:text-white"
+              title="Close Timeline"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto">
+          {revisions.length === 0 && !isLoading && (
+            <p className="px-3 py-4 text-xs text-gray-500">No saved revisions yet.</p>
+          )}
+          {revisions.map((revision, index) => (
+            <div
+              key={revision.id}
+              className={`group px-3 py-2 border-b border-gray-800 cursor-pointer ${
+                revision.id === baseId ? 'bg-gray-800' : 'hover:bg-gray-800'
+              }`}
+              onClick={() => setBaseId(revision.id)}
+            >
+              <div className="text-xs text-gray-200">{labelFor(revision, index)}</div>
+              <div className="flex items-center justify-between mt-1">
+                <span className="text-xs text-gray-500">{revision.size} bytes</span>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleRestore(revision);
+                  }}
+                  disabled={restoringId !== null}
+                  className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300 opacity-0 group-hover:opacity-100 disabled:opacity-50"
+                  title="Restore this revision"
+                >
+                  <RotateCcw size={12} />
+                  Restore
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Diff */}
+      <div className="flex-1 flex flex-col min-w-0">
+        <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-700 text-xs">
+          <select
+            value={baseId}
+            onChange={(e) => setBaseId(e.target.value)}
+            className="px-2 py-1 bg-gray-700 text-white rounded"
+          >
+            <option value={CURRENT}>Working copy</option>
+            {revisions.map((revision, index) => (
+              <option key={revision.id} value={revision.id}>{labelFor(revision, index)}</option>
+            ))}
+          </select>
+          <span className="text-gray-500">↔</span>
+          <select
+            value={compareId}
+            onChange={(e) => setCompareId(e.target.value)}
+            className="px-2 py-1 bg-gray-700 text-white rounded"
+          >
+            <option value={CURRENT}>Working copy</option>
+            {revisions.map((revision, index) => (
+              <option key={revision.id} value={revision.id}>{labelFor(revision, index)}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1">
+          <DiffEditor
+            height="100%"
+            language={language}
+            original={original}
+            modified={modified}
+            theme="codestral-dark"
+            options={{
+              readOnly: true,
+              renderSideBySide: true,
+              automaticLayout: true,
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FileTimeline;
@@ -29,6 +29,8 @@ interface HeaderProps {
   rightPanelVisible?: boolean;
   onLeftPanelToggle?: () => void;
   onRightPanelToggle?: () => void;
+  onSettingsClick?: () => void;
+  onSearchClick?: () => void;
 }
 
 export const Header: React.FC<HeaderProps> = ({
@@ -41,7 +43,9 @@ export const Header: React.FC<HeaderProps> = ({
   leftPanelVisible = true,
   rightPanelVisible = true,
   onLeftPanelToggle,
-  onRightPanelToggle
+  onRightPanelToggle,
+  onSettingsClick,
+  onSearchClick
 }) => {
   const { user, signOut } = useAuth();
   const [showUserMenu, setShowUserMenu] = useState(false);
@@ -179,6 +183,7 @@ export const Header: React.FC<HeaderProps> = ({
         <div className="h-4 w-px bg-zinc-700" />
 
         <button 
+          onClick={onSearchClick}
           className="p-2 text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800 rounded transition-colors"
           title="Search (Ctrl+Shift+F)"
         >
@@ -228,8 +233,9 @@ export const Header: React.FC<HeaderProps> = ({
         <div className="h-4 w-px bg-zinc-700" />
 
         <button 
+          onClick={onSettingsClick}
           className="p-2 text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800 rounded transition-colors"
-          title="Settings"
+          title="Workspace Settings"
         >
           <Settings className="w-4 h-4" />
         </button>
@@ -1,16 +1,26 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Panel, PanelGroup, PanelResizeHandle } from 'react-resizable-panels';
+import { toast } from 'sonner';
 import { Header } from './Header';
 import { StatusBar } from './StatusBar';
 import { FileExplorer } from './FileExplorer';
 import { CodeEditor } from './CodeEditor';
 import { TerminalPanel } from './TerminalPanel';
 import { AIChatPanel } from './AIChatPanel';
+import { WorkspaceSettingsDialog } from './WorkspaceSettingsDialog';
+import { SearchPanel } from './SearchPanel';
+import { TrashPanel } from './TrashPanel';
+import { SnapshotsPanel } from './SnapshotsPanel';
+import { QuickOpen } from './QuickOpen';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { workspaceService } from '@/services/WorkspaceService';
 import { fileSystemService } from '@/services/FileSystemService';
-import { FileNode, Workspace } from '@/types';
+import { StaleRevisionError } from '@/services/storage';
+import { CodeSearchResult, EditorRevealTarget, FileNode, ReplaceEdit, Workspace } from '@/types';
+import { basename, dirname, isSameOrDescendant, remapPath } from '@/lib/paths';
+import { getRecentFiles, recordRecentFile, remapRecentFiles } from '@/lib/recentFiles';
+import { WorkspaceSettings } from '@/lib/workspaceSettings';
 
 export const IDELayout: React.FC = () => {
   const isMobile = useIsMobile();
@@ -20,6 +30,10 @@ export const IDELayout: React.FC = () => {
   const [isRightPanelActive, setIsRightPanelActive] = useState<'terminal' | 'ai'>('terminal');
   const [rightPanelVisible, setRightPanelVisible] = useState(!isMobile);
   const [leftPanelVisible, setLeftPanelVisible] = useState(!isMobile);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [leftPanelView, setLeftPanelView] = useState<'explorer' | 'search' | 'trash' | 'snapshots'>('explorer');
+  const [quickOpenVisible, setQuickOpenVisible] = useState(false);
+  const [revealTarget, setRevealTarget] = useState<EditorRevealTarget | null>(null);
 
   useEffect(() => {
     // Initialize with the current workspace or create a default one
@@ -31,6 +45,31 @@ export const IDELayout: React.FC = () => {
     setCurrentWorkspace(workspaceService.getCurrentWorkspace() || null);
   }, []);
 
+  const openSearch = () => {
+    setLeftPanelView('search');
+    setLeftPanelVisible(true);
+    if (isMobile) {
+      setRightPanelVisible(false);
+    }
+  };
+
+  // Ctrl+Shift+F opens workspace search and Ctrl+P Quick Open from anywhere,
+  // including the editor
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        openSearch();
+      } else if ((e.ctrlKey || e.metaKey) && !e.shiftKey && !e.altKey && e.key.toLowerCase() === 'p') {
+        e.preventDefault();
+        setQuickOpenVisible(true);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   // Adjust panel visibility based on mobile state
   useEffect(() => {
     if (isMobile) {
@@ -42,8 +81,26 @@ export const IDELayout: React.FC = () => {
     }
   }, [isMobile]);
 
-  const handleFileSelect = (file: FileNode) => {
+  // Warm the content cache with recent files and the neighbours of `file`
+  const prefetchLikelyFiles = (file: FileNode | null) => {
+    if (!currentWorkspace) return;
+
+    const byPath = new Map(currentWorkspace.files.map(f => [f.path, f]));
+    const recent = getRecentFiles(currentWorkspace.id).map(path => byPath.get(path)).filter(Boolean);
+    const siblings = file
+      ? currentWorkspace.files.filter(f => dirname(f.path) === dirname(file.path))
+      : [];
+    fileSystemService.prefetchContent(
+      [...recent, ...siblings].filter(f => f.path !== file?.path && !openFiles.some(open => open.id === f.id))
+    );
+  };
+
+  const handleFileSelect = async (file: FileNode) => {
     if (file.type === 'file') {
+      if (currentWorkspace) {
+        recordRecentFile(currentWorkspace.id, file.path);
+      }
+
       // Check if file is already open
       const existingFileIndex = openFiles.findIndex(f => f.id === file.id);
       
@@ -51,11 +108,144 @@ export const IDELayout: React.FC = () => {
         // File is already open, set it as active
         setActiveFileId(file.id);
       } else {
-        // Open new file
-        const updatedOpenFiles = [...openFiles, file];
-        setOpenFiles(updatedOpenFiles);
-        setActiveFileId(file.id);
+        // Listed files carry no content; load it before the tab opens
+        try {
+          const loaded = await fileSystemService.loadFileContent(file);
+          setOpenFiles(prev => prev.some(f => f.id === loaded.id) ? prev : [...prev, loaded]);
+          setActiveFileId(loaded.id);
+        } catch (error) {
+          console.error('Error opening file:', error);
+          toast.error(`Could not open ${file.name}`);
+          return;
+        }
       }
+
+      prefetchLikelyFiles(file);
+    }
+  };
+
+  // Open tabs and the workspace file list follow a moved file or folder
+  const handlePathMoved = (fromPath: string, toPath: string) => {
+    const remap = (file: FileNode): FileNode => {
+      const newPath = remapPath(file.path, fromPath, toPath);
+      return newPath ? { ...file, path: newPath, name: basename(newPath) } : file;
+    };
+
+    setOpenFiles(prev => prev.map(remap));
+    setCurrentWorkspace(prev => prev && { ...prev, files: prev.files.map(remap) });
+    if (currentWorkspace) {
+      remapRecentFiles(currentWorkspace.id, fromPath, toPath);
+    }
+  };
+
+  // File events are subscribed once per workspace, so they call through this ref
+  const handlePathMovedRef = useRef(handlePathMoved);
+  handlePathMovedRef.current = handlePathMoved;
+
+  // Tabs and the workspace file list follow file events, including changes
+  // made in other sessions
+  const workspaceId = currentWorkspace?.id;
+  useEffect(() => {
+    if (!workspaceId) return;
+
+    const updateFiles = (update: (files: FileNode[]) => FileNode[]) => {
+      setOpenFiles(update);
+      setCurrentWorkspace(prev => prev && { ...prev, files: update(prev.files) });
+    };
+
+    const subscriptions = [
+      fileSystemService.onDidCreate(({ file }) => {
+        setCurrentWorkspace(prev => {
+          if (!prev) return prev;
+          if (file.type === 'folder') {
+            return prev.folders?.some(f => f.path === file.path)
+              ? prev
+              : { ...prev, folders: [...(prev.folders || []), file] };
+          }
+          return prev.files.some(f => f.path === file.path) ? prev : { ...prev, files: [...prev.files, file] };
+        });
+      }),
+      fileSystemService.onDidChange(({ file }) => {
+        updateFiles(files => files.map(f => f.id === file.id
+          ? {
+            ...f,
+            content: file.content,
+            revision: file.revision,
+            size: file.size,
+            encoding: file.encoding,
+            lineEnding: file.lineEnding,
+            readOnly: file.readOnly,
+            lock: file.lock,
+            isDirty: false
+          }
+          : f));
+      }),
+      fileSystemService.onDidDelete(({ path }) => {
+        updateFiles(files => files.filter(f => !isSameOrDescendant(f.path, path)));
+        setCurrentWorkspace(prev => prev && {
+          ...prev,
+          folders: prev.folders?.filter(f => !isSameOrDescendant(f.path, path)),
+        });
+      }),
+      fileSystemService.onDidRename(({ from, to, origin }) => {
+        // Local moves are reported by FileExplorer through onPathMoved
+        if (origin === 'remote') {
+          handlePathMovedRef.current(from, to);
+        }
+      }),
+    ];
+    return () => subscriptions.forEach(unsubscribe => unsubscribe());
+  }, [workspaceId]);
+
+  // Open a file and, when a line is given, scroll the editor to it
+  const openFileAt = (file: FileNode, line?: number, column?: number) => {
+    handleFileSelect(file);
+    if (line) {
+      setRevealTarget({ fileId: file.id, line, column });
+    }
+  };
+
+  const handleSearchResultOpen = async (result: CodeSearchResult) => {
+    const file = currentWorkspace?.files.find(f => f.path === result.filePath)
+      || await fileSystemService.getFile(result.filePath);
+    if (file) {
+      openFileAt(file, result.line, result.column);
+    }
+  };
+
+  // Tabs and the workspace file list pick up content written by a replace
+  const handleFilesReplaced = (edits: ReplaceEdit[]) => {
+    const written = new Map(edits.map(edit => [edit.filePath, edit]));
+    const update = (file: FileNode): FileNode => written.has(file.path)
+      ? { ...file, content: written.get(file.path).after, revision: written.get(file.path).revision, isDirty: false }
+      : file;
+
+    setOpenFiles(prev => prev.map(update));
+    setCurrentWorkspace(prev => prev && { ...prev, files: prev.files.map(update) });
+  };
+
+  // The restore already dropped replaced files from the cache and tabs;
+  // the tree is rebuilt from the reloaded workspace
+  const handleSnapshotRestored = () => {
+    const workspace = workspaceService.getCurrentWorkspace();
+    if (workspace) {
+      setCurrentWorkspace({ ...workspace });
+    }
+  };
+
+  const handleSettingsChange = (settings: WorkspaceSettings) => {
+    setCurrentWorkspace(prev => prev && { ...prev, settings });
+  };
+
+  // Tabs belong to the workspace they were opened in
+  const handleOpenWorkspace = async (workspaceId: string) => {
+    if (await workspaceService.setCurrentWorkspace(workspaceId)) {
+      setOpenFiles([]);
+      setActiveFileId(null);
+      setLeftPanelView('explorer');
+      setCurrentWorkspace({ ...workspaceService.getCurrentWorkspace() });
+    } else {
+      toast.error('Failed to open the workspace.');
     }
   };
 
@@ -73,7 +263,7 @@ export const IDELayout: React.FC = () => {
     }
   };
 
-  const handleFileContentChange = async (fileId: string, content: string) => {
+  const handleFileContentChange = async (fileId: string, content: string, baseRevision?: number) => {
     // Update open file content
     const updatedOpenFiles = openFiles.map(f => 
       f.id === fileId ? { ...f, content, isDirty: true } : f
@@ -86,17 +276,25 @@ export const IDELayout: React.FC = () => {
     // Update file content in the file system
     if (currentWorkspace && selectedFile) {
       try {
-        await fileSystemService.updateFileContent(selectedFile.path, content);
+        const revision = await fileSystemService.updateFileContent(selectedFile.path, content, baseRevision);
         
         // Update local workspace state
-        const updatedFiles = currentWorkspace.files.map(f =>
-          f.id === fileId ? { ...f, content, isDirty: false } : f
-        );
-        setCurrentWorkspace({ ...currentWorkspace, files: updatedFiles });
+        const saved = (f: FileNode) => f.id === fileId ? { ...f, content, revision, isDirty: false } : f;
+        setOpenFiles(prev => prev.map(saved));
+        setCurrentWorkspace(prev => prev && { ...prev, files: prev.files.map(saved) });
+        return revision;
       } catch (error) {
-        console.error('Error updating file content:', error);
+        // Conflicts are resolved in the editor's merge view
+        if (!(error instanceof StaleRevisionError)) {
+          // Quota and lock errors leave the tab dirty so the edit isn't lost
+          toast.error(`Could not save ${selectedFile.name}`, {
+            description: error instanceof Error ? error.message : undefined,
+          });
+        }
+        throw error;
       }
     }
+    return undefined;
   };
 
   const getActiveFile = () => {
@@ -140,6 +338,23 @@ export const IDELayout: React.FC = () => {
         rightPanelVisible={rightPanelVisible}
         onLeftPanelToggle={handleLeftPanelToggle}
         onRightPanelToggle={handleRightPanelToggle}
+        onSettingsClick={() => setSettingsOpen(true)}
+        onSearchClick={openSearch}
+      />
+
+      <QuickOpen
+        open={quickOpenVisible}
+        onOpenChange={setQuickOpenVisible}
+        workspaceId={currentWorkspace.id}
+        activeFile={getActiveFile()}
+        onOpen={openFileAt}
+      />
+
+      <WorkspaceSettingsDialog
+        workspace={currentWorkspace}
+        open={settingsOpen}
+        onOpenChange={setSettingsOpen}
+        onSettingsSaved={(settings) => setCurrentWorkspace({ ...currentWorkspace, settings })}
       />
 
       {/* Main IDE Layout */}
@@ -149,10 +364,33 @@ export const IDELayout: React.FC = () => {
           <div className="h-full relative">
             {/* File Explorer Panel */}
             <div className={`h-full ${leftPanelVisible ? 'block' : 'hidden'}`}>
-              <FileExplorer
-                workspace={currentWorkspace}
-                onFileSelect={handleFileSelect}
-              />
+              {leftPanelView === 'search' ? (
+                <SearchPanel
+                  onResultOpen={handleSearchResultOpen}
+                  onFilesReplaced={handleFilesReplaced}
+                  onClose={() => setLeftPanelView('explorer')}
+                />
+              ) : leftPanelView === 'trash' ? (
+                <TrashPanel
+                  workspace={currentWorkspace}
+                  onClose={() => setLeftPanelView('explorer')}
+                />
+              ) : leftPanelView === 'snapshots' ? (
+                <SnapshotsPanel
+                  workspace={currentWorkspace}
+                  onRestored={handleSnapshotRestored}
+                  onOpenWorkspace={handleOpenWorkspace}
+                  onClose={() => setLeftPanelView('explorer')}
+                />
+              ) : (
+                <FileExplorer
+                  workspace={currentWorkspace}
+                  onFileSelect={handleFileSelect}
+                  onPathMoved={handlePathMoved}
+                  onOpenTrash={() => setLeftPanelView('trash')}
+                  onOpenSnapshots={() => setLeftPanelView('snapshots')}
+                />
+              )}
             </div>
 
             {/* Code Editor Panel */}
@@ -162,6 +400,8 @@ export const IDELayout: React.FC = () => {
                 openFiles={openFiles}
                 activeFile={getActiveFile()}
                 onFileContentChange={handleFileContentChange}
+                revealTarget={revealTarget}
+                onSettingsChange={handleSettingsChange}
               />
             </div>
 
@@ -201,10 +441,33 @@ export const IDELayout: React.FC = () => {
               maxSize={35}
               className={!leftPanelVisible ? 'hidden' : ''}
             >
-              <FileExplorer
-                workspace={currentWorkspace}
-                onFileSelect={handleFileSelect}
-              />
+              {leftPanelView === 'search' ? (
+                <SearchPanel
+                  onResultOpen={handleSearchResultOpen}
+                  onFilesReplaced={handleFilesReplaced}
+                  onClose={() => setLeftPanelView('explorer')}
+                />
+              ) : leftPanelView === 'trash' ? (
+                <TrashPanel
+                  workspace={currentWorkspace}
+                  onClose={() => setLeftPanelView('explorer')}
+                />
+              ) : leftPanelView === 'snapshots' ? (
+                <SnapshotsPanel
+                  workspace={currentWorkspace}
+                  onRestored={handleSnapshotRestored}
+                  onOpenWorkspace={handleOpenWorkspace}
+                  onClose={() => setLeftPanelView('explorer')}
+                />
+              ) : (
+                <FileExplorer
+                  workspace={currentWorkspace}
+                  onFileSelect={handleFileSelect}
+                  onPathMoved={handlePathMoved}
+                  onOpenTrash={() => setLeftPanelView('trash')}
+                  onOpenSnapshots={() => setLeftPanelView('snapshots')}
+                />
+              )}
             </Panel>
 
             <PanelResizeHandle 
@@ -219,6 +482,8 @@ export const IDELayout: React.FC = () => {
                 openFiles={openFiles}
                 activeFile={getActiveFile()}
                 onFileContentChange={handleFileContentChange}
+                revealTarget={revealTarget}
+                onSettingsChange={handleSettingsChange}
               />
             </Panel>
 
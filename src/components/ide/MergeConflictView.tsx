@@ -0,0 +1,139 @@
+import React, { useState, useMemo } from 'react';
+import Editor, { DiffEditor } from '@monaco-editor/react';
+import { hasConflictMarkers, mergeThreeWay } from '@/lib/merge';
+import { GitMerge, Save, User, Users } from 'lucide-react';
+
+interface MergeConflictViewProps {
+  filePath: string;
+  language: string;
+  // Content the unsaved edits started from
+  base: string;
+  mine: string;
+  // Content someone else saved in the meantime
+  theirs: string;
+  onResolve: (content: string) => void;
+}
+
+export const MergeConflictView: React.FC<MergeConflictViewProps> = ({
+  filePath,
+  language,
+  base,
+  mine,
+  theirs,
+  onResolve,
+}) => {
+  const merged = useMemo(() => mergeThreeWay(base, mine, theirs), [base, mine, theirs]);
+  const [result, setResult] = useState(merged.text);
+  // Bumped to remount the result editor when its content is replaced wholesale
+  const [resultVersion, setResultVersion] = useState(0);
+
+  const replaceResult = (content: string) => {
+    setResult(content);
+    setResultVersion(prev => prev + 1);
+  };
+
+  const handleSave = () => {
+    if (hasConflictMarkers(result) && !confirm('The result still contains conflict markers. Save it anyway?')) {
+      return;
+    }
+    onResolve(result);
+  };
+
+  const diffOptions = {
+    readOnly: true,
+    renderSideBySide: false,
+    automaticLayout: true,
+    minimap: { enabled: false },
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-gray-900 text-gray-300">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700">
+        <div className="flex items-center gap-2 text-sm min-w-0">
+          <GitMerge size={16} className="text-yellow-400 flex-shrink-0" />
+          <span className="truncate">{filePath} was changed elsewhere while you were editing</span>
+          {merged.conflicts > 0 && (
+            <span className="text-xs text-yellow-400 flex-shrink-0">
+              {merged.conflicts} conflict{merged.conflicts === 1 ? '' : 's'}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <button
+            onClick={() => replaceResult(mine)}
+            className="flex items-center gap-1 px-2 py-1 rounded text-xs hover:bg-gray-700 text-gray-400 hover:text-white"
+            title="Use your version"
+          >
+            <User size={14} />
+            Accept Mine
+          </button>
+          <button
+            onClick={() => replaceResult(theirs)}
+            className="flex items-center gap-1 px-2 py-1 rounded text-xs hover:bg-gray-700 text-gray-400 hover:text-white"
+            title="Use the saved version"
+          >
+            <Users size={14} />
+            Accept Theirs
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex items-center gap-1 px-2 py-1 rounded text-xs bg-blue-600 hover:bg-blue-500 text-white"
+            title="Save the result"
+          >
+            <Save size={14} />
+            Save Merged
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 grid grid-cols-2 min-h-0 border-b border-gray-700">
+        <div className="flex flex-col min-w-0 border-r border-gray-700">
+          <div className="px-3 py-1 text-xs text-gray-500 border-b border-gray-800">Your changes (base ↔ mine)</div>
+          <div className="flex-1">
+            <DiffEditor
+              height="100%"
+              language={language}
+              original={base}
+              modified={mine}
+              theme="codestral-dark"
+              options={diffOptions}
+            />
+          </div>
+        </div>
+        <div className="flex flex-col min-w-0">
+          <div className="px-3 py-1 text-xs text-gray-500 border-b border-gray-800">Their changes (base ↔ theirs)</div>
+          <div className="flex-1">
+            <DiffEditor
+              height="100%"
+              language={language}
+              original={base}
+              modified={theirs}
+              theme="codestral-dark"
+              options={diffOptions}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 flex flex-col min-h-0">
+        <div className="px-3 py-1 text-xs text-gray-500 border-b border-gray-800">Result</div>
+        <div className="flex-1">
+          <Editor
+            key={resultVersion}
+            height="100%"
+            language={language}
+            defaultValue={result}
+            onChange={(value) => setResult(value ?? '')}
+            theme="codestral-dark"
+            options={{
+              automaticLayout: true,
+              minimap: { enabled: false },
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeConflictView;
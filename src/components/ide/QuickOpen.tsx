@@ -0,0 +1,242 @@
+import React, { useState, useEffect, useMemo, useDeferredValue } from 'react';
+import { Command } from 'cmdk';
+import { FileNode } from '@/types';
+import { fileSystemService } from '@/services/FileSystemService';
+import { basename, dirname } from '@/lib/paths';
+import { fuzzyMatch } from '@/lib/fuzzy';
+import { DocumentSymbol, extractSymbols } from '@/lib/symbols';
+import { getRecentFiles } from '@/lib/recentFiles';
+import { FileText, Hash, Clock } from 'lucide-react';
+
+interface QuickOpenProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workspaceId: string;
+  activeFile: FileNode | null;
+  onOpen: (file: FileNode, line?: number, column?: number) => void;
+}
+
+interface RankedFile {
+  file: FileNode;
+  score: number;
+  // Matched character indexes into the file path
+  positions: number[];
+  isRecent: boolean;
+}
+
+const MAX_RESULTS = 50;
+const RECENT_BONUS = 10;
+const QUICK_OPEN_PREFETCH = 3;
+
+// "src/app.ts:12:4@render" -> file query, line, column and symbol query
+function parseQuery(query: string) {
+  const at = query.indexOf('@');
+  const filePart = (at === -1 ? query : query.slice(0, at)).trim();
+  const symbolQuery = at === -1 ? null : query.slice(at + 1).trim();
+
+  const location = filePart.match(/^(.*?):(\d+)(?::(\d+))?$/);
+  return {
+    fileQuery: location ? location[1] : filePart,
+    line: location ? parseInt(location[2]) : undefined,
+    column: location?.[3] ? parseInt(location[3]) : undefined,
+    symbolQuery,
+  };
+}
+
+function rankFiles(files: FileNode[], query: string, recent: string[]): RankedFile[] {
+  const recentRank = new Map(recent.map((path, index) => [path, index]));
+  const recencyBonus = (path: string) => {
+    const rank = recentRank.get(path);
+    return rank === undefined ? 0 : RECENT_BONUS * (1 - rank / recent.length);
+  };
+
+  if (!query) {
+    return files
+      .map(file => ({ file, score: recencyBonus(file.path), positions: [], isRecent: recentRank.has(file.path) }))
+      .sort((a, b) => b.score - a.score || a.file.path.localeCompare(b.file.path))
+      .slice(0, MAX_RESULTS);
+  }
+
+  const ranked: RankedFile[] = [];
+  for (const file of files) {
+    const pathMatch = fuzzyMatch(query, file.path);
+    if (!pathMatch) continue;
+
+    // A match inside the file name beats one spread over the folders
+    const name = basename(file.path);
+    const nameMatch = fuzzyMatch(query, name);
+    const offset = file.path.length - name.length;
+    const best = nameMatch && nameMatch.score * 1.5 >= pathMatch.score
+      ? { score: nameMatch.score * 1.5, positions: nameMatch.positions.map(p => p + offset) }
+      : pathMatch;
+
+    ranked.push({
+      file,
+      score: best.score + recencyBonus(file.path),
+      positions: best.positions,
+      isRecent: recentRank.has(file.path),
+    });
+  }
+
+  return ranked
+    .sort((a, b) => b.score - a.score || a.file.path.length - b.file.path.length)
+    .slice(0, MAX_RESULTS);
+}
+
+const highlight = (text: string, positions: number[], offset: number = 0) => {
+  const marked = new Set(positions.map(p => p - offset));
+  return Array.from(text).map((char, index) => marked.has(index)
+    ? <span key={index} className="text-blue-400 font-semibold">{char}</span>
+    : char);
+};
+
+export const QuickOpen: React.FC<QuickOpenProps> = ({
+  open,
+  onOpenChange,
+  workspaceId,
+  activeFile,
+  onOpen,
+}) => {
+  const [query, setQuery] = useState('');
+  const [files, setFiles] = useState<FileNode[]>([]);
+  const [recent, setRecent] = useState<string[]>([]);
+  const [symbolFile, setSymbolFile] = useState<FileNode | null>(null);
+  const [symbols, setSymbols] = useState<DocumentSymbol[]>([]);
+  const deferredQuery = useDeferredValue(query);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setQuery('');
+    setRecent(getRecentFiles(workspaceId));
+    fileSystemService.listFiles().then(all => {
+      setFiles(all.filter(file => file.type === 'file'));
+    });
+  }, [open, workspaceId]);
+
+  const parsed = useMemo(() => parseQuery(deferredQuery), [deferredQuery]);
+
+  const ranked = useMemo(
+    () => rankFiles(files, parsed.fileQuery, recent),
+    [files, parsed.fileQuery, recent]
+  );
+
+  // The top matches are what the user is about to pick
+  useEffect(() => {
+    if (open) {
+      fileSystemService.prefetchContent(ranked.slice(0, QUICK_OPEN_PREFETCH).map(({ file }) => file));
+    }
+  }, [open, ranked]);
+
+  // `@symbol` looks in the best matching file, or the active one when no file is typed
+  const symbolTarget = useMemo(() => {
+    if (parsed.symbolQuery === null) return null;
+    return parsed.fileQuery ? ranked[0]?.file || null : activeFile;
+  }, [parsed, ranked, activeFile]);
+
+  useEffect(() => {
+    if (!symbolTarget) {
+      setSymbolFile(null);
+      setSymbols([]);
+      return;
+    }
+
+    let cancelled = false;
+    const load = async () => {
+      const file = symbolTarget.content !== undefined
+        ? symbolTarget
+        : await fileSystemService.getFile(symbolTarget.path);
+      if (!cancelled && file) {
+        setSymbolFile(file);
+        setSymbols(extractSymbols(file.content || '', file.language || fileSystemService.detectLanguage(file.name)));
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [symbolTarget]);
+
+  const rankedSymbols = useMemo(() => {
+    if (parsed.symbolQuery === null) return [];
+
+    const symbolQuery = parsed.symbolQuery;
+    return symbols
+      .flatMap(symbol => {
+        const match = fuzzyMatch(symbolQuery, symbol.name);
+        return match ? [{ symbol, match }] : [];
+      })
+      .sort((a, b) => symbolQuery ? b.match.score - a.match.score : a.symbol.line - b.symbol.line)
+      .slice(0, MAX_RESULTS);
+  }, [symbols, parsed.symbolQuery]);
+
+  const handleOpen = (file: FileNode, line?: number, column?: number) => {
+    onOpenChange(false);
+    onOpen(file, line, column);
+  };
+
+  const itemClass = 'flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer text-zinc-300 data-[selected=true]:bg-zinc-700';
+
+  return (
+    <Command.Dialog
+      open={open}
+      onOpenChange={onOpenChange}
+      label="Quick Open"
+      shouldFilter={false}
+      loop
+      overlayClassName="fixed inset-0 bg-black/50 z-40"
+      contentClassName="fixed top-20 left-1/2 -translate-x-1/2 w-[600px] max-w-[90vw] bg-zinc-800 border border-zinc-700 rounded-lg shadow-xl overflow-hidden z-50 text-zinc-100"
+    >
+      <Command.Input
+        value={query}
+        onValueChange={setQuery}
+        placeholder="Search files by name (append :line to go to a line, @ to go to a symbol)"
+        className="w-full px-3 py-2 bg-zinc-900 border-b border-zinc-700 text-sm outline-none placeholder:text-zinc-500"
+      />
+      <Command.List className="max-h-[400px] overflow-auto py-1">
+        <Command.Empty className="px-3 py-2 text-sm text-zinc-500">
+          {parsed.symbolQuery !== null && !symbolTarget ? 'Open a file to search its symbols' : 'No matching results'}
+        </Command.Empty>
+
+        {parsed.symbolQuery !== null && symbolFile ? (
+          <Command.Group heading={symbolFile.path} className="[&_[cmdk-group-heading]]:px-3 [&_[cmdk-group-heading]]:py-1 [&_[cmdk-group-heading]]:text-xs [&_[cmdk-group-heading]]:text-zinc-500">
+            {rankedSymbols.map(({ symbol, match }) => (
+              <Command.Item
+                key={`${symbol.name}:${symbol.line}`}
+                value={`${symbol.name}:${symbol.line}`}
+                onSelect={() => handleOpen(symbolFile, symbol.line, symbol.column)}
+                className={itemClass}
+              >
+                <Hash className="w-3.5 h-3.5 text-purple-400 flex-shrink-0" />
+                <span className="truncate">{highlight(symbol.name, match.positions)}</span>
+                <span className="text-xs text-zinc-500">{symbol.kind}</span>
+                <span className="ml-auto text-xs text-zinc-500">{symbol.line}</span>
+              </Command.Item>
+            ))}
+          </Command.Group>
+        ) : parsed.symbolQuery === null && ranked.map(({ file, positions, isRecent }) => {
+          const name = basename(file.path);
+          const folder = dirname(file.path);
+          return (
+            <Command.Item
+              key={file.path}
+              value={file.path}
+              onSelect={() => handleOpen(file, parsed.line, parsed.column)}
+              className={itemClass}
+            >
+              <FileText className="w-3.5 h-3.5 text-zinc-400 flex-shrink-0" />
+              <span className="truncate">{highlight(name, positions, file.path.length - name.length)}</span>
+              {folder && (
+                <span className="text-xs text-zinc-500 truncate">{highlight(folder, positions)}</span>
+              )}
+              {isRecent && <Clock className="ml-auto w-3 h-3 text-zinc-500 flex-shrink-0" />}
+            </Command.Item>
+          );
+        })}
+      </Command.List>
+    </Command.Dialog>
+  );
+};
+
+export default QuickOpen;
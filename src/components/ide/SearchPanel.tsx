@@ -0,0 +1,348 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { toast } from 'sonner';
+import { CodeSearchResult, ReplaceEdit, SearchOptions } from '@/types';
+import { DEFAULT_SEARCH_OPTIONS, searchService } from '@/services/SearchService';
+import { basename, dirname } from '@/lib/paths';
+import {
+  CaseSensitive,
+  WholeWord,
+  Regex,
+  ReplaceAll,
+  Undo2,
+  ChevronRight,
+  ChevronDown,
+  MoreHorizontal,
+  X,
+} from 'lucide-react';
+
+interface SearchPanelProps {
+  onResultOpen: (result: CodeSearchResult) => void;
+  onFilesReplaced: (edits: ReplaceEdit[]) => void;
+  onClose: () => void;
+}
+
+const SEARCH_DELAY = 300;
+
+export const SearchPanel: React.FC<SearchPanelProps> = ({
+  onResultOpen,
+  onFilesReplaced,
+  onClose,
+}) => {
+  const [options, setOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS);
+  const [replacement, setReplacement] = useState('');
+  const [showReplace, setShowReplace] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [results, setResults] = useState<CodeSearchResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isReplacing, setIsReplacing] = useState(false);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [canUndo, setCanUndo] = useState(searchService.canUndoReplace());
+  const [searchVersion, setSearchVersion] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    if (!options.query) {
+      setResults([]);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const found = await searchService.search(options);
+        if (!cancelled) {
+          setResults(found);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setResults([]);
+          setError(err instanceof Error ? err.message : 'Search failed');
+        }
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [options, searchVersion]);
+
+  const grouped = useMemo(() => {
+    const groups = new Map<string, CodeSearchResult[]>();
+    results.forEach(result => {
+      groups.set(result.filePath, [...(groups.get(result.filePath) || []), result]);
+    });
+    return Array.from(groups.entries());
+  }, [results]);
+
+  const pattern = useMemo(() => {
+    try {
+      return options.query ? searchService.buildPattern(options) : null;
+    } catch {
+      return null;
+    }
+  }, [options]);
+
+  const updateOption = <K extends keyof SearchOptions>(key: K, value: SearchOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const toggleFile = (filePath: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(filePath)) {
+        next.delete(filePath);
+      } else {
+        next.add(filePath);
+      }
+      return next;
+    });
+  };
+
+  const handleUndo = async () => {
+    try {
+      const { applied, skipped } = await searchService.undoReplace();
+      onFilesReplaced(applied);
+      setCanUndo(false);
+      setSearchVersion(v => v + 1);
+      if (skipped.length > 0) {
+        toast.warning(`Undo skipped ${skipped.length} file${skipped.length === 1 ? '' : 's'} changed since the replace`);
+      }
+    } catch (err) {
+      console.error('Failed to undo replace:', err);
+      toast.error('Failed to undo replace. Please try again.');
+    }
+  };
+
+  const handleReplaceAll = async () => {
+    setIsReplacing(true);
+    try {
+      const edits = await searchService.previewReplace(options, replacement);
+      const total = edits.reduce((sum, edit) => sum + edit.matchCount, 0);
+      if (total === 0) return;
+
+      if (!confirm(`Replace ${total} occurrence${total === 1 ? '' : 's'} across ${edits.length} file${edits.length === 1 ? '' : 's'} with "${replacement}"?`)) return;
+
+      const { applied, skipped } = await searchService.applyReplace(edits);
+      onFilesReplaced(applied);
+      setCanUndo(searchService.canUndoReplace());
+      setSearchVersion(v => v + 1);
+
+      const replaced = applied.reduce((sum, edit) => sum + edit.matchCount, 0);
+      toast.success(`Replaced ${replaced} occurrence${replaced === 1 ? '' : 's'} in ${applied.length} file${applied.length === 1 ? '' : 's'}`, {
+        description: skipped.length > 0 ? `Skipped ${skipped.length} file${skipped.length === 1 ? '' : 's'} changed during the preview` : undefined,
+        action: {
+          label: 'Undo',
+          onClick: () => {
+            handleUndo();
+          },
+        },
+      });
+    } catch (err) {
+      console.error('Failed to replace:', err);
+      toast.error(`Failed to replace: ${err instanceof Error ? err.message : 'Please try again.'}`);
+    } finally {
+      setIsReplacing(false);
+    }
+  };
+
+  // Highlight every match on the line, with the replacement previewed next to it
+  const renderSnippet = (result: CodeSearchResult) => {
+    const line = result.snippet;
+    if (!pattern) return line;
+
+    const parts: React.ReactNode[] = [];
+    let last = 0;
+    for (const match of line.matchAll(pattern)) {
+      if (match[0].length === 0) continue;
+      const start = match.index!;
+      parts.push(line.slice(last, start));
+      if (showReplace) {
+        parts.push(
+          <span key={`${start}-del`} className="bg-red-500/30 line-through">{match[0]}</span>,
+          <span key={`${start}-ins`} className="bg-green-500/30">{searchService.replaceInText(match[0], options, replacement)}</span>
+        );
+      } else {
+        parts.push(<span key={start} className="bg-yellow-500/40 text-gray-900 dark:text-gray-100">{match[0]}</span>);
+      }
+      last = start + match[0].length;
+    }
+    parts.push(line.slice(last));
+    return parts;
+  };
+
+  const toggleClass = (active: boolean) =>
+    `p-1 rounded transition-colors ${active ? 'bg-blue-500/20 text-blue-500' : 'text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700'}`;
+
+  const inputClass = 'w-full px-2 py-1 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+  return (
+    <div className="h-full flex flex-col bg-gray-50 dark:bg-gray-900 border-r border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+          Search
+        </h2>
+        <div className="flex gap-1">
+          {canUndo && (
+            <button
+              onClick={handleUndo}
+              className="p-1.5 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+              title="Undo Last Replace"
+            >
+              <Undo2 className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+            title="Close Search"
+          >
+            <X className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-2 space-y-1.5 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-start gap-1">
+          <button
+            onClick={() => setShowReplace(!showReplace)}
+            className="p-1 mt-0.5 text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700 rounded"
+            title="Toggle Replace"
+          >
+            {showReplace ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+          </button>
+          <div className="flex-1 space-y-1.5">
+            <div className="relative">
+              <input
+                ref={inputRef}
+                type="text"
+                value={options.query}
+                onChange={(e) => updateOption('query', e.target.value)}
+                placeholder="Search"
+                className={`${inputClass} pr-20`}
+              />
+              <div className="absolute right-1 top-1/2 -translate-y-1/2 flex gap-0.5">
+                <button onClick={() => updateOption('matchCase', !options.matchCase)} className={toggleClass(options.matchCase)} title="Match Case">
+                  <CaseSensitive className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => updateOption('wholeWord', !options.wholeWord)} className={toggleClass(options.wholeWord)} title="Match Whole Word">
+                  <WholeWord className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => updateOption('isRegex', !options.isRegex)} className={toggleClass(options.isRegex)} title="Use Regular Expression">
+                  <Regex className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+            {showReplace && (
+              <div className="flex items-center gap-1">
+                <input
+                  type="text"
+                  value={replacement}
+                  onChange={(e) => setReplacement(e.target.value)}
+                  placeholder="Replace"
+                  className={inputClass}
+                />
+                <button
+                  onClick={handleReplaceAll}
+                  disabled={isReplacing || results.length === 0}
+                  className="p-1 text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700 rounded disabled:opacity-40 disabled:cursor-not-allowed"
+                  title="Replace All"
+                >
+                  <ReplaceAll className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={toggleClass(showFilters)}
+            title="Toggle Search Details"
+          >
+            <MoreHorizontal className="w-3.5 h-3.5" />
+          </button>
+        </div>
+
+        {showFilters && (
+          <div className="space-y-1.5">
+            <div>
+              <label className="block text-xs text-gray-500 mb-0.5">files to include</label>
+              <input
+                type="text"
+                value={options.include}
+                onChange={(e) => updateOption('include', e.target.value)}
+                placeholder="e.g. src/**, *.{ts,tsx}"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-0.5">files to exclude</label>
+              <input
+                type="text"
+                value={options.exclude}
+                onChange={(e) => updateOption('exclude', e.target.value)}
+                placeholder="e.g. node_modules, *.min.js"
+                className={inputClass}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {error && (
+          <p className="px-3 py-2 text-xs text-red-500">{error}</p>
+        )}
+        {!error && options.query && !isSearching && results.length === 0 && (
+          <p className="px-3 py-2 text-xs text-gray-500">No results found.</p>
+        )}
+        {results.length > 0 && (
+          <p className="px-3 py-1.5 text-xs text-gray-500">
+            {results.length} line{results.length === 1 ? '' : 's'} in {grouped.length} file{grouped.length === 1 ? '' : 's'}
+          </p>
+        )}
+
+        {grouped.map(([filePath, fileResults]) => (
+          <div key={filePath}>
+            <div
+              className="flex items-center gap-1 px-2 py-1 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800"
+              onClick={() => toggleFile(filePath)}
+            >
+              {collapsed.has(filePath)
+                ? <ChevronRight className="w-3 h-3 text-gray-500" />
+                : <ChevronDown className="w-3 h-3 text-gray-500" />}
+              <span className="text-sm text-gray-700 dark:text-gray-300 truncate">{basename(filePath)}</span>
+              <span className="text-xs text-gray-500 truncate">{dirname(filePath)}</span>
+              <span className="ml-auto text-xs text-gray-500">{fileResults.length}</span>
+            </div>
+            {!collapsed.has(filePath) && fileResults.map(result => (
+              <div
+                key={`${result.filePath}:${result.line}`}
+                className="pl-7 pr-2 py-0.5 text-xs font-mono text-gray-600 dark:text-gray-400 truncate cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800"
+                onClick={() => onResultOpen(result)}
+                title={`${result.filePath}:${result.line}:${result.column}`}
+              >
+                <span className="text-gray-400 dark:text-gray-600 mr-2">{result.line}</span>
+                {renderSnippet(result)}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SearchPanel;
@@ -0,0 +1,241 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { DiffEditor } from '@monaco-editor/react';
+import { toast } from 'sonner';
+import { SnapshotChangeStatus, SnapshotDiff, SnapshotFileDiff, Workspace } from '@/types';
+import { workspaceService } from '@/services/WorkspaceService';
+import { fileSystemService } from '@/services/FileSystemService';
+import { formatBytes } from '@/lib/binary';
+import { basename, dirname } from '@/lib/paths';
+import { GitCompare, RefreshCw, RotateCcw, X } from 'lucide-react';
+
+interface SnapshotDiffDialogProps {
+  workspace: Workspace;
+  snapshots: Array<{ id: string; name: string }>;
+  // Snapshot the dialog opens with, compared against the live workspace
+  initialFrom: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Bring one file back from `snapshotId` into the workspace
+  onRestoreFile?: (snapshotId: string, path: string) => Promise<void>;
+}
+
+const LIVE = 'live';
+
+const STATUS_STYLES: Record<SnapshotChangeStatus, { letter: string; className: string }> = {
+  added: { letter: 'A', className: 'text-green-400' },
+  removed: { letter: 'D', className: 'text-red-400' },
+  modified: { letter: 'M', className: 'text-yellow-400' },
+};
+
+export const SnapshotDiffDialog: React.FC<SnapshotDiffDialogProps> = ({
+  workspace,
+  snapshots,
+  initialFrom,
+  open,
+  onOpenChange,
+  onRestoreFile,
+}) => {
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>(LIVE);
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [fileDiff, setFileDiff] = useState<SnapshotFileDiff | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setFromId(initialFrom || snapshots[0]?.id || '');
+      setToId(LIVE);
+    }
+  }, [open, initialFrom, snapshots]);
+
+  const loadDiff = useCallback(async () => {
+    if (!fromId) return;
+
+    setIsLoading(true);
+    setSelectedPath(null);
+    setFileDiff(null);
+    try {
+      const result = await workspaceService.diffSnapshots(workspace.id, fromId, toId === LIVE ? null : toId);
+      setDiff(result);
+      setSelectedPath(result.changes[0]?.path ?? null);
+    } catch (error) {
+      console.error('Error comparing snapshots:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to compare snapshots.');
+      setDiff(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fromId, toId, workspace.id]);
+
+  useEffect(() => {
+    if (open) {
+      loadDiff();
+    }
+  }, [open, loadDiff]);
+
+  useEffect(() => {
+    if (!selectedPath || !diff) return;
+
+    let cancelled = false;
+    workspaceService.diffSnapshotFile(workspace.id, diff.from, diff.to, selectedPath)
+      .then(result => {
+        if (!cancelled) setFileDiff(result);
+      })
+      .catch(error => {
+        console.error('Error loading file diff:', error);
+        if (!cancelled) toast.error(error instanceof Error ? error.message : 'Failed to load the file.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedPath, diff, workspace.id]);
+
+  const labelFor = (id: string | null) => id === null || id === LIVE
+    ? 'Workspace'
+    : snapshots.find(snapshot => snapshot.id === id)?.name || id;
+
+  const selectedChange = diff?.changes.find(change => change.path === selectedPath);
+  const canRestoreFile = onRestoreFile && diff?.to === null && selectedChange && selectedChange.status !== 'added';
+
+  const handleRestoreFile = async () => {
+    if (!selectedChange || !diff) return;
+    await onRestoreFile(diff.from, selectedChange.path);
+    await loadDiff();
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-40" />
+        <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-gray-900 border border-gray-700 rounded-lg shadow-xl w-[90vw] h-[85vh] flex flex-col z-50 text-gray-100">
+          <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-700">
+            <GitCompare size={16} className="text-gray-400" />
+            <Dialog.Title className="text-sm font-semibold">Compare Snapshots</Dialog.Title>
+            <Dialog.Description className="sr-only">
+              Files added, removed and modified between two snapshots or a snapshot and the workspace
+            </Dialog.Description>
+            <div className="flex items-center gap-2 ml-4 text-xs">
+              <select
+                value={fromId}
+                onChange={(e) => setFromId(e.target.value)}
+                className="px-2 py-1 bg-gray-700 text-white rounded max-w-[220px]"
+              >
+                {snapshots.map(snapshot => (
+                  <option key={snapshot.id} value={snapshot.id}>{snapshot.name}</option>
+                ))}
+              </select>
+              <span className="text-gray-500">→</span>
+              <select
+                value={toId}
+                onChange={(e) => setToId(e.target.value)}
+                className="px-2 py-1 bg-gray-700 text-white rounded max-w-[220px]"
+              >
+                <option value={LIVE}>Workspace</option>
+                {snapshots.filter(snapshot => snapshot.id !== fromId).map(snapshot => (
+                  <option key={snapshot.id} value={snapshot.id}>{snapshot.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={loadDiff}
+                className="p-1 hover:bg-gray-700 rounded"
+                title="Refresh"
+              >
+                <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+              </button>
+            </div>
+            <Dialog.Close asChild>
+              <button className="ml-auto p-1 hover:bg-gray-700 rounded" title="Close">
+                <X size={16} />
+              </button>
+            </Dialog.Close>
+          </div>
+
+          <div className="flex flex-1 min-h-0">
+            {/* Changed files */}
+            <div className="w-72 flex-shrink-0 border-r border-gray-700 overflow-auto">
+              {diff && (
+                <div className="px-3 py-2 text-xs text-gray-500 border-b border-gray-800">
+                  {diff.changes.length === 0
+                    ? 'No differences'
+                    : `${diff.changes.length} changed file${diff.changes.length === 1 ? '' : 's'}`}
+                </div>
+              )}
+              {diff?.changes.map(change => (
+                <button
+                  key={change.path}
+                  onClick={() => setSelectedPath(change.path)}
+                  className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-xs hover:bg-gray-800 ${
+                    change.path === selectedPath ? 'bg-gray-800' : ''
+                  }`}
+                  title={change.path}
+                >
+                  <span className={`w-3 font-mono ${STATUS_STYLES[change.status].className}`}>
+                    {STATUS_STYLES[change.status].letter}
+                  </span>
+                  <span className="truncate">{basename(change.path)}</span>
+                  <span className="ml-auto text-gray-500 truncate">{dirname(change.path)}</span>
+                </button>
+              ))}
+            </div>
+
+            {/* Side-by-side diff of the selected file */}
+            <div className="flex-1 flex flex-col min-w-0">
+              {selectedChange && (
+                <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-700 text-xs text-gray-400">
+                  <span className="truncate">{labelFor(diff.from)}</span>
+                  <span>↔</span>
+                  <span className="truncate">{labelFor(diff.to)}</span>
+                  <span className="text-gray-600">·</span>
+                  <span className="truncate text-gray-300">{selectedChange.path}</span>
+                  {canRestoreFile && (
+                    <button
+                      onClick={handleRestoreFile}
+                      className="ml-auto flex items-center gap-1 text-blue-400 hover:text-blue-300"
+                      title="Bring this file back from the snapshot"
+                    >
+                      <RotateCcw size={12} />
+                      Restore File
+                    </button>
+                  )}
+                </div>
+              )}
+              <div className="flex-1">
+                {!selectedChange ? (
+                  <div className="flex items-center justify-center h-full text-sm text-gray-500">
+                    {isLoading ? 'Comparing...' : 'Select a file to see its changes'}
+                  </div>
+                ) : selectedChange.binary ? (
+                  <div className="flex items-center justify-center h-full text-sm text-gray-500">
+                    Binary file: {selectedChange.beforeSize === null ? '-' : formatBytes(selectedChange.beforeSize)}
+                    {' → '}
+                    {selectedChange.afterSize === null ? '-' : formatBytes(selectedChange.afterSize)}
+                  </div>
+                ) : fileDiff?.path === selectedChange.path ? (
+                  <DiffEditor
+                    key={`${diff.from}:${diff.to}:${fileDiff.path}`}
+                    height="100%"
+                    language={fileSystemService.detectLanguage(basename(fileDiff.path))}
+                    original={fileDiff.before ?? ''}
+                    modified={fileDiff.after ?? ''}
+                    theme="codestral-dark"
+                    options={{
+                      readOnly: true,
+                      renderSideBySide: true,
+                      automaticLayout: true,
+                    }}
+                  />
+                ) : (
+                  <div className="flex items-center justify-center h-full text-sm text-gray-500">Loading...</div>
+                )}
+              </div>
+            </div>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+};
+
+export default SnapshotDiffDialog;
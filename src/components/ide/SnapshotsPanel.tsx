@@ -0,0 +1,328 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { SnapshotContents, SnapshotSummary, Workspace } from '@/types';
+import { workspaceService } from '@/services/WorkspaceService';
+import { formatBytes } from '@/lib/binary';
+import { isSameOrDescendant } from '@/lib/paths';
+import { SNAPSHOT_TRIGGER_LABELS } from '@/lib/snapshotPolicy';
+import { Camera, Clock, File, Folder, GitCompare, GitFork, ListChecks, RefreshCw, RotateCcw, X } from 'lucide-react';
+import { SnapshotDiffDialog } from './SnapshotDiffDialog';
+
+interface SnapshotsPanelProps {
+  workspace: Workspace;
+  onRestored: () => void;
+  // Switch to another workspace, e.g. one just forked from a snapshot
+  onOpenWorkspace: (workspaceId: string) => void;
+  onClose: () => void;
+}
+
+export const SnapshotsPanel: React.FC<SnapshotsPanelProps> = ({ workspace, onRestored, onOpenWorkspace, onClose }) => {
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // Snapshot whose paths are listed for a partial restore
+  const [choosing, setChoosing] = useState<{ id: string; contents: SnapshotContents } | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  // Snapshot the diff dialog was opened for
+  const [comparing, setComparing] = useState<string | null>(null);
+
+  const loadSnapshots = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setSnapshots(await workspaceService.listSnapshots(workspace.id));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workspace.id]);
+
+  useEffect(() => {
+    loadSnapshots();
+    setChoosing(null);
+  }, [loadSnapshots]);
+
+  const handleCreate = async () => {
+    const name = prompt('Snapshot name', `Snapshot ${new Date().toLocaleString()}`);
+    if (name === null) return;
+
+    setBusyId('new');
+    try {
+      await workspaceService.snapshotWorkspace(workspace.id, name.trim() || undefined);
+      await loadSnapshots();
+      toast.success('Snapshot created');
+    } catch (error) {
+      console.error('Error creating snapshot:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create the snapshot.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const restore = async (snapshot: SnapshotSummary, paths?: string[]) => {
+    setBusyId(snapshot.id);
+    try {
+      const result = await workspaceService.restoreSnapshot(workspace.id, snapshot.id, paths);
+      onRestored();
+      setChoosing(null);
+      await loadSnapshots();
+
+      toast.success(`Restored ${result.restoredFiles} file${result.restoredFiles === 1 ? '' : 's'} from "${snapshot.name}"`, {
+        description: result.skippedPaths.length > 0
+          ? `Skipped invalid path${result.skippedPaths.length === 1 ? '' : 's'}: ${result.skippedPaths.join(', ')}`
+          : undefined,
+        action: {
+          label: 'Undo',
+          onClick: () => handleUndo(result.safetySnapshotId),
+        },
+      });
+    } catch (error) {
+      console.error('Error restoring snapshot:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to restore the snapshot.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleUndo = async (safetySnapshotId: string) => {
+    try {
+      await workspaceService.restoreSnapshot(workspace.id, safetySnapshotId);
+      onRestored();
+      await loadSnapshots();
+    } catch (error) {
+      console.error('Error undoing restore:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to undo the restore.');
+    }
+  };
+
+  const handleRestoreFile = async (snapshotId: string, path: string) => {
+    const snapshot = snapshots.find(s => s.id === snapshotId);
+    if (snapshot && confirm(`Replace ${path} with its version from "${snapshot.name}"?`)) {
+      await restore(snapshot, [path]);
+    }
+  };
+
+  const handleRestore = (snapshot: SnapshotSummary) => {
+    if (!confirm(`Replace all files with "${snapshot.name}"? A snapshot of the current state is taken first.`)) return;
+    restore(snapshot);
+  };
+
+  const handleFork = async (snapshot: SnapshotSummary) => {
+    const name = prompt('Name of the new workspace', `${workspace.name} (${snapshot.name})`);
+    if (name === null || !name.trim()) return;
+
+    setBusyId(snapshot.id);
+    try {
+      const forked = await workspaceService.forkSnapshot(workspace.id, snapshot.id, name.trim());
+      toast.success(`Created "${forked.name}" from "${snapshot.name}"`, {
+        action: {
+          label: 'Open',
+          onClick: () => onOpenWorkspace(forked.id),
+        },
+      });
+    } catch (error) {
+      console.error('Error forking snapshot:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to fork the snapshot.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleChoose = async (snapshot: SnapshotSummary) => {
+    if (choosing?.id === snapshot.id) {
+      setChoosing(null);
+      return;
+    }
+
+    setBusyId(snapshot.id);
+    try {
+      const contents = await workspaceService.listSnapshotFiles(workspace.id, snapshot.id);
+      setChoosing({ id: snapshot.id, contents });
+      setSelected([]);
+    } catch (error) {
+      console.error('Error reading snapshot:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read the snapshot.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Selecting a folder covers everything below it
+  const toggleSelected = (path: string) => {
+    setSelected(prev => prev.includes(path)
+      ? prev.filter(p => p !== path)
+      : [...prev.filter(p => !isSameOrDescendant(p, path)), path]);
+  };
+
+  const renderChooser = (snapshot: SnapshotSummary) => {
+    const entries = [
+      ...choosing.contents.folders.map(path => ({ path, isFolder: true, size: 0 })),
+      ...choosing.contents.files.map(file => ({ path: file.path, isFolder: false, size: file.size })),
+    ].sort((a, b) => a.path.localeCompare(b.path));
+
+    return (
+      <div className="mt-2 border border-gray-200 dark:border-gray-700 rounded">
+        <div className="max-h-64 overflow-auto py-1">
+          {entries.length === 0 && (
+            <p className="px-2 py-1 text-xs text-gray-500">This snapshot is empty.</p>
+          )}
+          {entries.map(entry => {
+            const covered = selected.some(path => path !== entry.path && isSameOrDescendant(entry.path, path));
+            return (
+              <label
+                key={entry.path}
+                className="flex items-center gap-2 px-2 py-0.5 text-xs text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 cursor-pointer"
+                style={{ paddingLeft: `${8 + (entry.path.split('/').length - 1) * 12}px` }}
+              >
+                <input
+                  type="checkbox"
+                  checked={covered || selected.includes(entry.path)}
+                  disabled={covered}
+                  onChange={() => toggleSelected(entry.path)}
+                />
+                {entry.isFolder
+                  ? <Folder className="w-3.5 h-3.5 text-blue-500 flex-shrink-0" />
+                  : <File className="w-3.5 h-3.5 text-gray-500 flex-shrink-0" />}
+                <span className="truncate" title={entry.path}>{entry.path.split('/').pop()}</span>
+                {!entry.isFolder && <span className="ml-auto text-gray-500">{formatBytes(entry.size)}</span>}
+              </label>
+            );
+          })}
+        </div>
+        <div className="flex justify-end gap-2 px-2 py-1.5 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={() => setChoosing(null)}
+            className="px-2 py-1 text-xs text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 rounded"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => restore(snapshot, selected)}
+            disabled={selected.length === 0 || busyId !== null}
+            className="px-2 py-1 text-xs text-white bg-blue-600 hover:bg-blue-700 rounded disabled:opacity-50"
+          >
+            Restore {selected.length} selected
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderSnapshot = (snapshot: SnapshotSummary) => (
+    <div
+      key={snapshot.id}
+      className="group px-3 py-2 border-b border-gray-200 dark:border-gray-800 hover:bg-gray-100 dark:hover:bg-gray-800"
+    >
+      <div className="flex items-center gap-2 min-w-0">
+        {snapshot.automatic
+          ? <Clock className="w-4 h-4 text-gray-500 flex-shrink-0" />
+          : <Camera className="w-4 h-4 text-gray-500 flex-shrink-0" />}
+        <span className="text-sm text-gray-700 dark:text-gray-300 truncate" title={snapshot.name}>
+          {snapshot.name}
+        </span>
+        <div className="ml-auto flex gap-1 opacity-0 group-hover:opacity-100">
+          <button
+            onClick={() => setComparing(snapshot.id)}
+            className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded"
+            title="Compare"
+          >
+            <GitCompare className="w-3.5 h-3.5 text-gray-600 dark:text-gray-400" />
+          </button>
+          <button
+            onClick={() => handleFork(snapshot)}
+            disabled={busyId !== null}
+            className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded disabled:opacity-50"
+            title="Fork to New Workspace"
+          >
+            <GitFork className="w-3.5 h-3.5 text-gray-600 dark:text-gray-400" />
+          </button>
+          <button
+            onClick={() => handleChoose(snapshot)}
+            disabled={busyId !== null}
+            className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded disabled:opacity-50"
+            title="Restore Selected Files"
+          >
+            <ListChecks className="w-3.5 h-3.5 text-gray-600 dark:text-gray-400" />
+          </button>
+          <button
+            onClick={() => handleRestore(snapshot)}
+            disabled={busyId !== null}
+            className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded disabled:opacity-50"
+            title="Restore"
+          >
+            <RotateCcw className="w-3.5 h-3.5 text-gray-600 dark:text-gray-400" />
+          </button>
+        </div>
+      </div>
+      <div className="mt-1 text-xs text-gray-500">
+        {snapshot.automatic && `${SNAPSHOT_TRIGGER_LABELS[snapshot.trigger]} · `}
+        {snapshot.createdAt.toLocaleString()} · {formatBytes(snapshot.size)}
+        {busyId === snapshot.id && ' · Working...'}
+      </div>
+      {choosing?.id === snapshot.id && renderChooser(snapshot)}
+    </div>
+  );
+
+  // Manual snapshots first; automatic ones come and go with the retention rules
+  const groups = [
+    { label: 'Manual', items: snapshots.filter(snapshot => !snapshot.automatic) },
+    { label: 'Automatic', items: snapshots.filter(snapshot => snapshot.automatic) },
+  ].filter(group => group.items.length > 0);
+
+  return (
+    <div className="h-full flex flex-col bg-gray-50 dark:bg-gray-900 border-r border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+          Snapshots
+        </h2>
+        <div className="flex gap-1">
+          <button
+            onClick={handleCreate}
+            disabled={busyId !== null}
+            className="p-1.5 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors disabled:opacity-50"
+            title="Take Snapshot"
+          >
+            <Camera className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+          </button>
+          <button
+            onClick={loadSnapshots}
+            className="p-1.5 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+            title="Refresh"
+          >
+            <RefreshCw className={`w-4 h-4 text-gray-600 dark:text-gray-400 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+            title="Close Snapshots"
+          >
+            <X className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {snapshots.length === 0 && !isLoading && (
+          <p className="px-3 py-4 text-xs text-gray-500">No snapshots yet.</p>
+        )}
+        {groups.map(group => (
+          <div key={group.label}>
+            <div className="px-3 py-1 text-xs font-semibold uppercase tracking-wide text-gray-500 bg-gray-100 dark:bg-gray-800/50 border-b border-gray-200 dark:border-gray-800">
+              {group.label}
+            </div>
+            {group.items.map(renderSnapshot)}
+          </div>
+        ))}
+      </div>
+
+      <SnapshotDiffDialog
+        workspace={workspace}
+        snapshots={snapshots}
+        initialFrom={comparing}
+        open={comparing !== null}
+        onOpenChange={(open) => !open && setComparing(null)}
+        onRestoreFile={handleRestoreFile}
+      />
+    </div>
+  );
+};
+
+export default SnapshotsPanel;
@@ -1,4 +1,6 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
+import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
+import { toast } from 'sonner';
 import { 
   GitBranch, 
   GitCommit, 
@@ -8,9 +10,17 @@ import {
   MessageCircle,
   Code2,
   FileText,
-  Files
+  Files,
+  RefreshCw
 } from 'lucide-react';
-import { Workspace, FileNode } from '@/types';
+import { Workspace, FileNode, LineEnding, TextEncoding } from '@/types';
+import { fileSystemService } from '@/services/FileSystemService';
+import { DEFAULT_ENCODING, DEFAULT_LINE_ENDING, ENCODING_LABELS, LINE_ENDING_LABELS } from '@/lib/encoding';
+
+const REMOTE_UPDATE_NOTICE_MS = 3000;
+
+const menuContentClass = 'bg-zinc-800 rounded-md shadow-lg border border-zinc-700 py-1 min-w-[160px] z-50';
+const menuItemClass = 'px-3 py-1.5 text-xs text-zinc-300 hover:bg-zinc-700 cursor-pointer outline-none flex items-center justify-between gap-4';
 
 interface StatusBarProps {
   workspace: Workspace;
@@ -35,6 +45,60 @@ export const StatusBar: React.FC<StatusBarProps> = ({
   onRightPanelModeChange,
   currentMode
 }) => {
+  const [isOffline, setIsOffline] = useState(fileSystemService.isOffline());
+  const [isSwitchingStorage, setIsSwitchingStorage] = useState(false);
+  // Briefly set when the active file is changed by another session
+  const [remoteUpdate, setRemoteUpdate] = useState(false);
+
+  const activePath = activeFile?.path;
+  useEffect(() => {
+    setRemoteUpdate(false);
+    if (!activePath) return;
+
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+    const unsubscribe = fileSystemService.onDidChange(({ file, origin }) => {
+      if (origin !== 'remote' || file.path !== activePath) return;
+      setRemoteUpdate(true);
+      if (timeout) clearTimeout(timeout);
+      timeout = setTimeout(() => setRemoteUpdate(false), REMOTE_UPDATE_NOTICE_MS);
+    });
+
+    return () => {
+      if (timeout) clearTimeout(timeout);
+      unsubscribe();
+    };
+  }, [activePath]);
+
+  const handleStorageToggle = async () => {
+    setIsSwitchingStorage(true);
+    try {
+      if (fileSystemService.isOffline()) {
+        await fileSystemService.disableOfflineMode();
+      } else {
+        await fileSystemService.enableOfflineMode();
+      }
+    } catch (error) {
+      console.error('Error switching storage mode:', error);
+    } finally {
+      setIsOffline(fileSystemService.isOffline());
+      setIsSwitchingStorage(false);
+    }
+  };
+
+  // Only changes how the file is written out; the editor content stays as it is
+  const handleFormatChange = async (format: { encoding?: TextEncoding; lineEnding?: LineEnding }) => {
+    if (!activeFile) return;
+
+    try {
+      await fileSystemService.setTextFormat(activeFile.path, format);
+      const label = format.encoding ? ENCODING_LABELS[format.encoding] : format.lineEnding && LINE_ENDING_LABELS[format.lineEnding];
+      toast.success(`${activeFile.name} will be saved as ${label}`);
+    } catch (error) {
+      console.error('Error converting file:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to convert file');
+    }
+  };
+
   const getLanguage = (file: FileNode | null) => {
     if (!file) return 'No file';
     return file.language || 'plaintext';
@@ -67,10 +131,15 @@ export const StatusBar: React.FC<StatusBarProps> = ({
           <span>{getCurrentCommit()}</span>
         </div>
 
-        <div className="flex items-center gap-1">
-          <Circle className="w-2 h-2 fill-green-500 text-green-500" />
-          <span>Connected</span>
-        </div>
+        <button
+          onClick={handleStorageToggle}
+          disabled={isSwitchingStorage}
+          className="flex items-center gap-1 hover:text-zinc-200 disabled:opacity-50 transition-colors"
+          title={isOffline ? 'Working offline - click to sync and reconnect' : 'Click to work offline'}
+        >
+          <Circle className={`w-2 h-2 ${isOffline ? 'fill-amber-500 text-amber-500' : 'fill-green-500 text-green-500'}`} />
+          <span>{isSwitchingStorage ? 'Syncing...' : isOffline ? 'Offline' : 'Connected'}</span>
+        </button>
       </div>
 
       {/* Center Section - File Info */}
@@ -90,6 +159,13 @@ export const StatusBar: React.FC<StatusBarProps> = ({
             <div className="flex items-center gap-1">
               <span>{getLineCount(activeFile)} lines</span>
             </div>
+
+            {remoteUpdate && (
+              <div className="flex items-center gap-1 text-blue-400">
+                <RefreshCw className="w-3 h-3" />
+                <span>Updated elsewhere</span>
+              </div>
+            )}
           </>
         )}
       </div>
@@ -144,12 +220,62 @@ export const StatusBar: React.FC<StatusBarProps> = ({
           <span>AI</span>
         </button>
 
-        <div className="h-3 w-px bg-zinc-700" />
+        {activeFile && !activeFile.storagePath && (
+          <>
+            <div className="h-3 w-px bg-zinc-700" />
 
-        <div className="flex items-center gap-1">
-          <Monitor className="w-3 h-3" />
-          <span>UTF-8</span>
-        </div>
+            <DropdownMenu.Root>
+              <DropdownMenu.Trigger asChild>
+                <button
+                  className="flex items-center gap-1 px-1 rounded hover:bg-zinc-800 hover:text-zinc-200 transition-colors"
+                  title="Change file encoding"
+                >
+                  <Monitor className="w-3 h-3" />
+                  <span>{ENCODING_LABELS[activeFile.encoding || DEFAULT_ENCODING]}</span>
+                </button>
+              </DropdownMenu.Trigger>
+              <DropdownMenu.Portal>
+                <DropdownMenu.Content side="top" align="end" sideOffset={4} className={menuContentClass}>
+                  {(Object.keys(ENCODING_LABELS) as TextEncoding[]).map(encoding => (
+                    <DropdownMenu.Item
+                      key={encoding}
+                      className={menuItemClass}
+                      onSelect={() => handleFormatChange({ encoding })}
+                    >
+                      <span>{ENCODING_LABELS[encoding]}</span>
+                      {encoding === (activeFile.encoding || DEFAULT_ENCODING) && <Circle className="w-2 h-2 fill-current" />}
+                    </DropdownMenu.Item>
+                  ))}
+                </DropdownMenu.Content>
+              </DropdownMenu.Portal>
+            </DropdownMenu.Root>
+
+            <DropdownMenu.Root>
+              <DropdownMenu.Trigger asChild>
+                <button
+                  className="px-1 rounded hover:bg-zinc-800 hover:text-zinc-200 transition-colors"
+                  title="Change line endings"
+                >
+                  {LINE_ENDING_LABELS[activeFile.lineEnding || DEFAULT_LINE_ENDING]}
+                </button>
+              </DropdownMenu.Trigger>
+              <DropdownMenu.Portal>
+                <DropdownMenu.Content side="top" align="end" sideOffset={4} className={menuContentClass}>
+                  {(Object.keys(LINE_ENDING_LABELS) as LineEnding[]).map(lineEnding => (
+                    <DropdownMenu.Item
+                      key={lineEnding}
+                      className={menuItemClass}
+                      onSelect={() => handleFormatChange({ lineEnding })}
+                    >
+                      <span>{LINE_ENDING_LABELS[lineEnding]}</span>
+                      {lineEnding === (activeFile.lineEnding || DEFAULT_LINE_ENDING) && <Circle className="w-2 h-2 fill-current" />}
+                    </DropdownMenu.Item>
+                  ))}
+                </DropdownMenu.Content>
+              </DropdownMenu.Portal>
+            </DropdownMenu.Root>
+          </>
+        )}
       </div>
     </div>
   );
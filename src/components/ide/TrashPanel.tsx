@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { TrashItem, Workspace } from '@/types';
+import { workspaceService } from '@/services/WorkspaceService';
+import { fileSystemService } from '@/services/FileSystemService';
+import { basename, dirname } from '@/lib/paths';
+import { File, Folder, RotateCcw, Trash2, RefreshCw, X } from 'lucide-react';
+
+interface TrashPanelProps {
+  workspace: Workspace;
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const describeExpiry = (expiresAt: Date) => {
+  const days = Math.ceil((expiresAt.getTime() - Date.now()) / DAY_MS);
+  return days <= 1 ? 'Deleted permanently within a day' : `Deleted permanently in ${days} days`;
+};
+
+export const TrashPanel: React.FC<TrashPanelProps> = ({ workspace, onClose }) => {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadItems = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setItems(await fileSystemService.listTrash());
+    } catch (error) {
+      console.error('Error loading trash:', error);
+      toast.error('Failed to load the trash.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems, workspace.id]);
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyId(item.id);
+    try {
+      await workspaceService.restoreFromTrash(workspace.id, item.id);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+      toast.success(`Restored ${item.path}`);
+    } catch (error) {
+      console.error('Error restoring from trash:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to restore. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    if (!confirm(`Permanently delete "${item.path}"? This cannot be undone.`)) return;
+
+    setBusyId(item.id);
+    try {
+      await fileSystemService.purgeTrash([item.id]);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+    } catch (error) {
+      console.error('Error purging trash item:', error);
+      toast.error('Failed to delete permanently. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEmpty = async () => {
+    if (!confirm(`Permanently delete all ${items.length} item(s) in the trash? This cannot be undone.`)) return;
+
+    try {
+      await fileSystemService.purgeTrash();
+      setItems([]);
+    } catch (error) {
+      console.error('Error emptying trash:', error);
+      toast.error('Failed to empty the trash. Please try again.');
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-gray-50 dark:bg-gray-900 border-r border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+          Trash
+        </h2>
+        <div className="flex gap-1">
+          <button
+            onClick={loadItems}
+            className="p-1.5 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+            title="Refresh"
+          >
+            <RefreshCw className={`w-4 h-4 text-gray-600 dark:text-gray-400 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+          <button
+            onClick={handleEmpty}
+            disabled={items.length === 0}
+            className="p-1.5 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors disabled:opacity-50"
+            title="Empty Trash"
+          >
+            <Trash2 className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+            title="Close Trash"
+          >
+            <X className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {items.length === 0 && !isLoading && (
+          <p className="px-3 py-4 text-xs text-gray-500">The trash is empty.</p>
+        )}
+        {items.map(item => (
+          <div
+            key={item.id}
+            className="group px-3 py-2 border-b border-gray-200 dark:border-gray-800 hover:bg-gray-100 dark:hover:bg-gray-800"
+          >
+            <div className="flex items-center gap-2 min-w-0">
+              {item.type === 'folder'
+                ? <Folder className="w-4 h-4 text-blue-500 flex-shrink-0" />
+                : <File className="w-4 h-4 text-gray-500 flex-shrink-0" />}
+              <span className="text-sm text-gray-700 dark:text-gray-300 truncate" title={item.path}>
+                {basename(item.path)}
+              </span>
+              {dirname(item.path) && (
+                <span className="text-xs text-gray-500 truncate">{dirname(item.path)}</span>
+              )}
+              <div className="ml-auto flex gap-1 opacity-0 group-hover:opacity-100">
+                <button
+                  onClick={() => handleRestore(item)}
+                  disabled={busyId !== null}
+                  className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded disabled:opacity-50"
+                  title="Restore"
+                >
+                  <RotateCcw className="w-3.5 h-3.5 text-gray-600 dark:text-gray-400" />
+                </button>
+                <button
+                  onClick={() => handlePurge(item)}
+                  disabled={busyId !== null}
+                  className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded disabled:opacity-50"
+                  title="Delete Permanently"
+                >
+                  <X className="w-3.5 h-3.5 text-gray-600 dark:text-gray-400" />
+                </button>
+              </div>
+            </div>
+            <div className="mt-1 text-xs text-gray-500">
+              {item.type === 'folder' && `${item.fileCount} file${item.fileCount === 1 ? '' : 's'} · `}
+              {item.deletedAt.toLocaleString()}
+            </div>
+            <div className="text-xs text-gray-500">{describeExpiry(item.expiresAt)}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TrashPanel;
@@ -0,0 +1,295 @@
+import React, { useState, useEffect } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { RevisionRetention, Workspace, WorkspaceUsage } from '@/types';
+import { workspaceService } from '@/services/WorkspaceService';
+import { DEFAULT_REVISION_RETENTION, DEFAULT_TRASH_RETENTION_DAYS } from '@/services/FileSystemService';
+import { formatBytes } from '@/lib/binary';
+import { formatQuotaAmount, QUOTA_LABELS, QuotaName, Quotas } from '@/lib/quotas';
+import {
+  DEFAULT_SNAPSHOT_POLICY,
+  MIN_SNAPSHOT_INTERVAL_MINUTES,
+  resolveSnapshotPolicy,
+  SnapshotPolicy,
+  SnapshotRetention,
+} from '@/lib/snapshotPolicy';
+import { parseWorkspaceSettings, WorkspaceSettings, WorkspaceSettingsError } from '@/lib/workspaceSettings';
+
+// Interval offered when scheduled snapshots are turned on
+const DEFAULT_SNAPSHOT_INTERVAL_MINUTES = 30;
+
+const SNAPSHOT_RETENTION_FIELDS: Array<{ key: keyof SnapshotRetention; label: string }> = [
+  { key: 'keepLatest', label: 'Keep latest' },
+  { key: 'keepHourly', label: 'Keep hourly' },
+  { key: 'keepDaily', label: 'Keep daily' },
+];
+
+interface WorkspaceSettingsDialogProps {
+  workspace: Workspace;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSettingsSaved?: (settings: WorkspaceSettings) => void;
+}
+
+interface UsageBarProps {
+  quota: QuotaName;
+  used: number;
+  quotas: Quotas;
+  detail?: string;
+}
+
+const UsageBar: React.FC<UsageBarProps> = ({ quota, used, quotas, detail }) => {
+  const limit = quotas[quota];
+  const ratio = limit > 0 ? Math.min(1, used / limit) : 1;
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs mb-1">
+        <span className="text-zinc-300">{QUOTA_LABELS[quota]}</span>
+        <span className="text-zinc-400">
+          {formatQuotaAmount(quota, used)} of {formatQuotaAmount(quota, limit)}
+        </span>
+      </div>
+      <div className="h-1.5 bg-zinc-700 rounded overflow-hidden">
+        <div
+          className={`h-full ${ratio >= 0.9 ? 'bg-red-500' : ratio >= 0.75 ? 'bg-yellow-500' : 'bg-blue-500'}`}
+          style={{ width: `${ratio * 100}%` }}
+        />
+      </div>
+      {detail && <p className="text-xs text-zinc-500 mt-1">{detail}</p>}
+    </div>
+  );
+};
+
+export const WorkspaceSettingsDialog: React.FC<WorkspaceSettingsDialogProps> = ({
+  workspace,
+  open,
+  onOpenChange,
+  onSettingsSaved,
+}) => {
+  const [retention, setRetention] = useState<RevisionRetention>(DEFAULT_REVISION_RETENTION);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const [snapshotPolicy, setSnapshotPolicy] = useState<SnapshotPolicy>(DEFAULT_SNAPSHOT_POLICY);
+  const [isSaving, setIsSaving] = useState(false);
+  const [usage, setUsage] = useState<{ usage: WorkspaceUsage; quotas: Quotas } | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setRetention({ ...DEFAULT_REVISION_RETENTION, ...workspace.settings?.revisionRetention });
+      setTrashRetentionDays(workspace.settings?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS);
+      setSnapshotPolicy(resolveSnapshotPolicy(workspace.settings));
+    }
+  }, [open, workspace]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setUsage(null);
+    workspaceService.getWorkspaceStats(workspace.id).then(stats => {
+      if (!cancelled) setUsage(stats);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, workspace.id]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const settings = { ...parseWorkspaceSettings(workspace.settings), revisionRetention: retention, trashRetentionDays, snapshotPolicy };
+      await workspaceService.updateWorkspace(workspace.id, { settings });
+      onSettingsSaved?.(settings);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving workspace settings:', error);
+      alert(error instanceof WorkspaceSettingsError ? error.message : 'Failed to save workspace settings. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-40" />
+        <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-zinc-800 border border-zinc-700 rounded-lg shadow-xl p-6 w-[480px] max-h-[85vh] overflow-auto z-50 text-zinc-100">
+          <Dialog.Title className="text-lg font-semibold mb-1">
+            Workspace Settings
+          </Dialog.Title>
+          <Dialog.Description className="text-sm text-zinc-400 mb-4">
+            {workspace.name}
+            {workspace.forkedFrom && (
+              <span className="block text-xs text-zinc-500 mt-1">
+                Forked from snapshot "{workspace.forkedFrom.snapshotName}"
+                {workspace.forkedFrom.snapshotCreatedAt && ` of ${new Date(workspace.forkedFrom.snapshotCreatedAt).toLocaleString()}`}
+              </span>
+            )}
+          </Dialog.Description>
+
+          <div className="space-y-6">
+            <section>
+              <h3 className="text-sm font-semibold text-zinc-200 mb-3">File History</h3>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm text-zinc-300 mb-1">
+                    Revisions per file
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={retention.maxRevisions}
+                    onChange={(e) => setRetention(prev => ({ ...prev, maxRevisions: Math.max(0, parseInt(e.target.value) || 0) }))}
+                    className="w-full px-3 py-1.5 bg-zinc-700 border border-zinc-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm text-zinc-300 mb-1">
+                    Keep for (days)
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={retention.maxAgeDays}
+                    onChange={(e) => setRetention(prev => ({ ...prev, maxAgeDays: Math.max(0, parseInt(e.target.value) || 0) }))}
+                    className="w-full px-3 py-1.5 bg-zinc-700 border border-zinc-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-zinc-500 mt-2">Use 0 to keep revisions without a limit.</p>
+            </section>
+
+            <section>
+              <h3 className="text-sm font-semibold text-zinc-200 mb-3">Trash</h3>
+              <label className="block text-sm text-zinc-300 mb-1">
+                Keep deleted items for (days)
+              </label>
+              <input
+                type="number"
+                min={1}
+                value={trashRetentionDays}
+                onChange={(e) => setTrashRetentionDays(Math.max(1, parseInt(e.target.value) || 1))}
+                className="w-full px-3 py-1.5 bg-zinc-700 border border-zinc-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="text-xs text-zinc-500 mt-2">Items older than this are deleted permanently.</p>
+            </section>
+
+            <section>
+              <h3 className="text-sm font-semibold text-zinc-200 mb-3">Snapshots</h3>
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm text-zinc-300">
+                  <input
+                    type="checkbox"
+                    checked={snapshotPolicy.intervalMinutes !== null}
+                    onChange={(e) => setSnapshotPolicy(prev => ({
+                      ...prev,
+                      intervalMinutes: e.target.checked ? DEFAULT_SNAPSHOT_INTERVAL_MINUTES : null,
+                    }))}
+                  />
+                  Every
+                  <input
+                    type="number"
+                    min={MIN_SNAPSHOT_INTERVAL_MINUTES}
+                    value={snapshotPolicy.intervalMinutes ?? DEFAULT_SNAPSHOT_INTERVAL_MINUTES}
+                    disabled={snapshotPolicy.intervalMinutes === null}
+                    onChange={(e) => setSnapshotPolicy(prev => ({
+                      ...prev,
+                      intervalMinutes: Math.max(MIN_SNAPSHOT_INTERVAL_MINUTES, parseInt(e.target.value) || MIN_SNAPSHOT_INTERVAL_MINUTES),
+                    }))}
+                    className="w-20 px-2 py-1 bg-zinc-700 border border-zinc-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  />
+                  minutes while files change
+                </label>
+                <label className="flex items-center gap-2 text-sm text-zinc-300">
+                  <input
+                    type="checkbox"
+                    checked={snapshotPolicy.daily}
+                    onChange={(e) => setSnapshotPolicy(prev => ({ ...prev, daily: e.target.checked }))}
+                  />
+                  Daily
+                </label>
+                <label className="flex items-center gap-2 text-sm text-zinc-300">
+                  <input
+                    type="checkbox"
+                    checked={snapshotPolicy.beforeMultiFileEdits}
+                    onChange={(e) => setSnapshotPolicy(prev => ({ ...prev, beforeMultiFileEdits: e.target.checked }))}
+                  />
+                  Before AI edits and replaces across several files
+                </label>
+              </div>
+              <div className="grid grid-cols-3 gap-4 mt-3">
+                {SNAPSHOT_RETENTION_FIELDS.map(({ key, label }) => (
+                  <div key={key}>
+                    <label className="block text-sm text-zinc-300 mb-1">
+                      {label}
+                    </label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={snapshotPolicy.retention[key]}
+                      onChange={(e) => setSnapshotPolicy(prev => ({
+                        ...prev,
+                        retention: { ...prev.retention, [key]: Math.max(0, parseInt(e.target.value) || 0) },
+                      }))}
+                      className="w-full px-3 py-1.5 bg-zinc-700 border border-zinc-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-zinc-500 mt-2">
+                Automatic snapshots are taken while the workspace is open. Older ones are pruned to the
+                latest few plus one per hour and per day; manual snapshots are always kept.
+              </p>
+            </section>
+
+            <section>
+              <h3 className="text-sm font-semibold text-zinc-200 mb-3">Usage</h3>
+              {!usage ? (
+                <p className="text-xs text-zinc-500">Loading...</p>
+              ) : (
+                <div className="space-y-3">
+                  <UsageBar quota="maxFilesPerWorkspace" used={usage.usage.fileCount} quotas={usage.quotas} />
+                  <UsageBar
+                    quota="maxWorkspaceBytes"
+                    used={usage.usage.bytes}
+                    quotas={usage.quotas}
+                    detail={usage.usage.assetCount > 0
+                      ? `Includes ${usage.usage.assetCount} stored binary file${usage.usage.assetCount === 1 ? '' : 's'} (${formatBytes(usage.usage.assetBytes)})`
+                      : undefined}
+                  />
+                  <UsageBar quota="maxSnapshotsPerWorkspace" used={usage.usage.snapshotCount} quotas={usage.quotas} />
+                  <UsageBar quota="maxSnapshotBytesPerWorkspace" used={usage.usage.snapshotBytes} quotas={usage.quotas} />
+                  <UsageBar
+                    quota="maxUserBytes"
+                    used={usage.usage.userBytes}
+                    quotas={usage.quotas}
+                    detail={`${usage.usage.workspaceCount} of ${usage.quotas.maxWorkspaces} workspaces`}
+                  />
+                  <p className="text-xs text-zinc-500">
+                    Files can be up to {formatQuotaAmount('maxFileBytes', usage.quotas.maxFileBytes)} each.
+                  </p>
+                </div>
+              )}
+            </section>
+          </div>
+
+          <div className="flex justify-end gap-2 mt-6">
+            <Dialog.Close asChild>
+              <button className="px-4 py-2 text-sm font-medium text-zinc-300 hover:bg-zinc-700 rounded-md transition-colors">
+                Cancel
+              </button>
+            </Dialog.Close>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-500 hover:bg-blue-600 disabled:bg-zinc-600 disabled:cursor-not-allowed rounded-md transition-colors"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+};
+
+export default WorkspaceSettingsDialog;
@@ -8,6 +8,15 @@ export { FileExplorer } from './FileExplorer';
 export { CodeEditor } from './CodeEditor';
 export { TerminalPanel } from './TerminalPanel';
 export { AIChatPanel } from './AIChatPanel';
+export { FileTimeline } from './FileTimeline';
+export { MergeConflictView } from './MergeConflictView';
+export { BinaryFileViewer } from './BinaryFileViewer';
+export { WorkspaceSettingsDialog } from './WorkspaceSettingsDialog';
+export { SearchPanel } from './SearchPanel';
+export { TrashPanel } from './TrashPanel';
+export { SnapshotsPanel } from './SnapshotsPanel';
+export { SnapshotDiffDialog } from './SnapshotDiffDialog';
+export { QuickOpen } from './QuickOpen';
 
 // Individual Components
 export { default as Terminal } from './Terminal';
@@ -0,0 +1,57 @@
+// Helpers for binary files: sniffing, display sizes and the hex viewer.
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  ico: 'image/x-icon',
+  avif: 'image/avif',
+};
+
+export const HEX_BYTES_PER_ROW = 16;
+
+// A NUL byte near the start is how we tell binary content from text
+export function isBinaryContent(bytes: Uint8Array): boolean {
+  return bytes.subarray(0, 8192).includes(0);
+}
+
+// MIME type for images the browser can render, or null
+export function imageMimeType(path: string): string | null {
+  const ext = path.split('.').pop()?.toLowerCase() || '';
+  return IMAGE_TYPES[ext] || null;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// One row of a classic hex dump: offset, hex bytes, printable ASCII
+export function hexDumpRow(bytes: Uint8Array, offset: number): string {
+  const row = bytes.subarray(offset, offset + HEX_BYTES_PER_ROW);
+  const hex = Array.from(row, byte => byte.toString(16).padStart(2, '0'));
+  const ascii = Array.from(row, byte => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.'));
+
+  return [
+    offset.toString(16).padStart(8, '0'),
+    hex.join(' ').padEnd(HEX_BYTES_PER_ROW * 3 - 1),
+    ascii.join(''),
+  ].join('  ');
+}
+
+// Base64 for carrying binary files inside JSON exports
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function fromBase64(encoded: string): Uint8Array {
+  return Uint8Array.from(atob(encoded), char => char.charCodeAt(0));
+}
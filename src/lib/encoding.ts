@@ -0,0 +1,144 @@
+import { LineEnding, TextEncoding } from '@/types';
+import { isBinaryContent } from './binary';
+
+// Text encodings and line endings of files. Both are detected when a file
+// comes in and kept as metadata; the content itself is held as a string with
+// LF line endings and only turned back into the original bytes on export.
+
+export const DEFAULT_ENCODING: TextEncoding = 'utf-8';
+export const DEFAULT_LINE_ENDING: LineEnding = 'lf';
+
+export const ENCODING_LABELS: Record<TextEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-8-bom': 'UTF-8 with BOM',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'windows-1252': 'Windows 1252',
+};
+
+export const LINE_ENDING_LABELS: Record<LineEnding, string> = {
+  lf: 'LF',
+  crlf: 'CRLF',
+};
+
+export interface DecodedText {
+  content: string;
+  encoding: TextEncoding;
+  lineEnding: LineEnding;
+}
+
+const UTF8_BOM = [0xef, 0xbb, 0xbf];
+
+function bomEncoding(bytes: Uint8Array): TextEncoding | null {
+  if (UTF8_BOM.every((byte, i) => bytes[i] === byte)) return 'utf-8-bom';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return null;
+}
+
+// Files without a BOM are UTF-8 when they decode as such, Windows 1252 otherwise
+export function detectEncoding(bytes: Uint8Array): TextEncoding {
+  const bom = bomEncoding(bytes);
+  if (bom) return bom;
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+// The more common style wins in files that mix both
+export function detectLineEnding(text: string): LineEnding {
+  const crlf = text.match(/\r\n/g)?.length ?? 0;
+  const lf = (text.match(/\n/g)?.length ?? 0) - crlf;
+  return crlf > lf ? 'crlf' : 'lf';
+}
+
+// Size of text content as stored, in UTF-8 bytes
+export function byteLength(content: string): number {
+  return new TextEncoder().encode(content).length;
+}
+
+export function toLf(text: string): string {
+  return text.replace(/\r\n?/g, '\n');
+}
+
+// Text content of a file's bytes, or null for binary files
+export function decodeText(bytes: Uint8Array): DecodedText | null {
+  // UTF-16 is full of NUL bytes, so its BOM is checked first
+  if (!bomEncoding(bytes) && isBinaryContent(bytes)) {
+    return null;
+  }
+
+  const encoding = detectEncoding(bytes);
+  const label = encoding === 'utf-8-bom' ? 'utf-8' : encoding;
+  // The decoder drops the BOM; encodeText puts it back
+  const text = new TextDecoder(label).decode(bytes);
+  return { content: toLf(text), encoding, lineEnding: detectLineEnding(text) };
+}
+
+// Characters of bytes 0x80-0x9F in Windows 1252; the other bytes match
+// their Unicode code points. The five undefined bytes decode as themselves.
+const WINDOWS_1252_HIGH = '\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f'
+  + '\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178';
+
+// Windows 1252 byte for every character it can represent
+let windows1252Bytes: Map<string, number> | null = null;
+
+function windows1252Table(): Map<string, number> {
+  if (!windows1252Bytes) {
+    windows1252Bytes = new Map();
+    for (let byte = 0; byte < 256; byte++) {
+      const char = byte >= 0x80 && byte < 0xa0 ? WINDOWS_1252_HIGH[byte - 0x80] : String.fromCharCode(byte);
+      windows1252Bytes.set(char, byte);
+    }
+  }
+  return windows1252Bytes;
+}
+
+// Characters of `content` that `encoding` cannot represent
+export function unencodableCharacters(content: string, encoding: TextEncoding): string[] {
+  if (encoding !== 'windows-1252') return [];
+
+  const table = windows1252Table();
+  return Array.from(new Set(Array.from(content).filter(char => !table.has(char))));
+}
+
+function encodeUtf16(text: string, littleEndian: boolean): Uint8Array {
+  const bytes = new Uint8Array(2 + text.length * 2);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, 0xfeff, littleEndian);
+  for (let i = 0; i < text.length; i++) {
+    view.setUint16(2 + i * 2, text.charCodeAt(i), littleEndian);
+  }
+  return bytes;
+}
+
+// The bytes of a file as it is written out, with its own encoding and line
+// endings. Characters Windows 1252 cannot represent become "?".
+export function encodeText(content: string, encoding: TextEncoding, lineEnding: LineEnding): Uint8Array {
+  const lf = toLf(content);
+  const text = lineEnding === 'crlf' ? lf.replace(/\n/g, '\r\n') : lf;
+
+  switch (encoding) {
+    case 'utf-8-bom': {
+      const body = new TextEncoder().encode(text);
+      const bytes = new Uint8Array(UTF8_BOM.length + body.length);
+      bytes.set(UTF8_BOM);
+      bytes.set(body, UTF8_BOM.length);
+      return bytes;
+    }
+    case 'utf-16le':
+      return encodeUtf16(text, true);
+    case 'utf-16be':
+      return encodeUtf16(text, false);
+    case 'windows-1252': {
+      const table = windows1252Table();
+      return Uint8Array.from(Array.from(text), char => table.get(char) ?? 0x3f);
+    }
+    default:
+      return new TextEncoder().encode(text);
+  }
+}
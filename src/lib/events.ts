@@ -0,0 +1,28 @@
+// Small typed event emitter. Services keep the emitter private and expose
+// `emitter.event`, which subscribes a listener and returns its unsubscribe.
+
+export type Listener<T> = (event: T) => void;
+
+export type Subscribe<T> = (listener: Listener<T>) => () => void;
+
+export class Emitter<T> {
+  private listeners = new Set<Listener<T>>();
+
+  readonly event: Subscribe<T> = (listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  fire(event: T): void {
+    // A failing listener must not keep the others from hearing about the event
+    Array.from(this.listeners).forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Error in event listener:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,60 @@
+// Fuzzy matching for Quick Open. Every query character must appear in order;
+// matches that are consecutive or start a word score higher.
+
+export interface FuzzyMatch {
+  score: number;
+  // Indexes into the target of the matched characters
+  positions: number[];
+}
+
+const SEPARATORS = '/\\_-. ';
+
+function isWordStart(target: string, index: number): boolean {
+  if (index === 0) return true;
+  const previous = target[index - 1];
+  const current = target[index];
+  return SEPARATORS.includes(previous)
+    || (previous === previous.toLowerCase() && current !== current.toLowerCase());
+}
+
+export function fuzzyMatch(query: string, target: string): FuzzyMatch | null {
+  const compact = query.replace(/\s+/g, '');
+  const needle = compact.toLowerCase();
+  if (!needle) {
+    return { score: 0, positions: [] };
+  }
+
+  const haystack = target.toLowerCase();
+  const positions: number[] = [];
+  let score = 0;
+  let from = 0;
+
+  for (const char of needle) {
+    // Prefer the next word start for this character, else its next occurrence
+    let index = -1;
+    for (let i = haystack.indexOf(char, from); i !== -1; i = haystack.indexOf(char, i + 1)) {
+      if (index === -1) index = i;
+      if (i === from || isWordStart(target, i)) {
+        index = i;
+        break;
+      }
+    }
+    if (index === -1) {
+      return null;
+    }
+
+    const previous = positions[positions.length - 1];
+    score += 1;
+    if (previous !== undefined && index === previous + 1) score += 5;
+    if (isWordStart(target, index)) score += 8;
+    if (target[index] === compact[positions.length]) score += 0.5;
+    score -= Math.min(index - from, 10) * 0.2;
+
+    positions.push(index);
+    from = index + 1;
+  }
+
+  // Shorter targets win ties
+  score -= target.length * 0.01;
+  return { score, positions };
+}
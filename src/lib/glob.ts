@@ -0,0 +1,83 @@
+// Glob matching for workspace-relative paths. Supports `*`, `**`, `?`,
+// `[abc]` and `{a,b}`. Patterns without a slash match at any depth, and a
+// pattern that matches a folder also matches everything inside it.
+
+const cache = new Map<string, RegExp>();
+
+export function globToRegExp(pattern: string): RegExp {
+  const cached = cache.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  const regex = new RegExp(`^${globSource(pattern)}(?:/.*)?$`);
+  cache.set(pattern, regex);
+  return regex;
+}
+
+// Regular expression source for the pattern itself, without anchors and
+// without the implicit match of a folder's contents
+export function globSource(pattern: string): string {
+  let glob = pattern.trim().replace(/^\.\//, '').replace(/\/+$/, '');
+  if (!glob.includes('/')) {
+    glob = `**/${glob}`;
+  } else if (glob.startsWith('/')) {
+    glob = glob.slice(1);
+  }
+
+  let source = '';
+  let inGroup = false;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` matches zero or more folders, a trailing `**` anything
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      inGroup = true;
+      source += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      source += ')';
+    } else if (char === ',' && inGroup) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+
+  return source;
+}
+
+export function matchesGlob(path: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(path);
+}
+
+// Split a comma separated list such as "src/**, *.{ts,tsx}" into patterns;
+// commas inside braces belong to the pattern
+export function parseGlobList(list: string): string[] {
+  return list.split(/,(?![^{]*})/).map(pattern => pattern.trim()).filter(Boolean);
+}
+
+export function matchesAnyGlob(path: string, patterns: string[]): boolean {
+  return patterns.some(pattern => matchesGlob(path, pattern));
+}
@@ -0,0 +1,97 @@
+import { globSource } from './glob';
+import { basename, dirname } from './paths';
+
+// gitignore-style rules read from .gitignore and .codestralignore files.
+// Rules apply to paths below the folder holding the ignore file, later rules
+// override earlier ones, `!` re-includes, and a trailing `/` only matches
+// folders. As in git, nothing inside an ignored folder can be re-included.
+
+export const IGNORE_FILE_NAMES = ['.gitignore', '.codestralignore'];
+
+interface IgnoreRule {
+  // Folder of the ignore file the rule came from; '' is the workspace root
+  base: string;
+  regex: RegExp;
+  negate: boolean;
+  folderOnly: boolean;
+}
+
+export function isIgnoreFile(path: string): boolean {
+  return IGNORE_FILE_NAMES.includes(basename(path));
+}
+
+export function parseIgnoreFile(content: string, base: string = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const negate = line.startsWith('!');
+    if (negate) {
+      line = line.slice(1);
+    } else if (line.startsWith('\\#') || line.startsWith('\\!')) {
+      line = line.slice(1);
+    }
+
+    const folderOnly = line.endsWith('/');
+    if (!line.replace(/\/+$/, '')) continue;
+
+    rules.push({ base, regex: new RegExp(`^${globSource(line)}$`), negate, folderOnly });
+  }
+
+  return rules;
+}
+
+export class IgnoreMatcher {
+  private readonly rules: IgnoreRule[];
+
+  constructor(rules: IgnoreRule[] = []) {
+    this.rules = rules;
+  }
+
+  // Rules of deeper ignore files come later, so they win over the root's
+  static fromFiles(files: Array<{ path: string; content: string }>): IgnoreMatcher {
+    const depth = (path: string) => path.split('/').length;
+    const rules = files
+      .filter(file => isIgnoreFile(file.path))
+      .sort((a, b) => depth(a.path) - depth(b.path) || a.path.localeCompare(b.path))
+      .flatMap(file => parseIgnoreFile(file.content, dirname(file.path)));
+    return new IgnoreMatcher(rules);
+  }
+
+  get isEmpty(): boolean {
+    return this.rules.length === 0;
+  }
+
+  isIgnored(path: string, isFolder: boolean = false): boolean {
+    if (this.rules.length === 0) {
+      return false;
+    }
+
+    // An ignored ancestor folder takes everything inside it along
+    const segments = path.split('/');
+    for (let length = 1; length <= segments.length; length++) {
+      const folder = length < segments.length || isFolder;
+      if (this.matches(segments.slice(0, length).join('/'), folder)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // Whether the last rule matching this exact path ignores it
+  private matches(path: string, isFolder: boolean): boolean {
+    let ignored = false;
+    for (const rule of this.rules) {
+      if (rule.folderOnly && !isFolder) continue;
+      if (rule.base && !path.startsWith(`${rule.base}/`)) continue;
+
+      const relative = rule.base ? path.slice(rule.base.length + 1) : path;
+      if (rule.regex.test(relative)) {
+        ignored = !rule.negate;
+      }
+    }
+    return ignored;
+  }
+}
@@ -0,0 +1,14 @@
+import { FileLock, FileNode } from '@/types';
+
+// Edit locks expire on their own, so a lock is only honored until expiresAt
+
+export function isLockActive(lock: FileLock | undefined, now: number = Date.now()): lock is FileLock {
+  return !!lock && lock.expiresAt.getTime() > now;
+}
+
+// Whether `userId` may change the file: it is not read-only and nobody else
+// holds its lock
+export function isEditableBy(file: Pick<FileNode, 'readOnly' | 'lock'>, userId: string | null): boolean {
+  if (file.readOnly) return false;
+  return !isLockActive(file.lock) || file.lock.userId === userId;
+}
@@ -0,0 +1,58 @@
+// Least-recently-used cache bounded by total weight rather than entry count,
+// so a few large values cannot crowd out memory. Map iteration order doubles
+// as the recency order: the first key is the least recently used.
+
+export class LRUCache<K, V> {
+  private entries = new Map<K, V>();
+  private weight = 0;
+  private readonly maxWeight: number;
+  private readonly weigh: (value: V) => number;
+
+  constructor(maxWeight: number, weigh: (value: V) => number = () => 1) {
+    this.maxWeight = maxWeight;
+    this.weigh = weigh;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(key: K): boolean {
+    return this.entries.has(key);
+  }
+
+  get(key: K): V | undefined {
+    if (!this.entries.has(key)) {
+      return undefined;
+    }
+
+    const value = this.entries.get(key) as V;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  set(key: K, value: V): void {
+    this.delete(key);
+    this.entries.set(key, value);
+    this.weight += this.weigh(value);
+
+    // The newest entry always stays, even when it alone is over the limit
+    while (this.weight > this.maxWeight && this.entries.size > 1) {
+      const oldest = this.entries.keys().next().value as K;
+      this.delete(oldest);
+    }
+  }
+
+  delete(key: K): void {
+    if (this.entries.has(key)) {
+      this.weight -= this.weigh(this.entries.get(key) as V);
+      this.entries.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.weight = 0;
+  }
+}
@@ -0,0 +1,124 @@
+// Line-based three-way merge for save conflicts. Changes made on only one
+// side are taken as they are; overlapping changes become a conflict block
+// with git-style markers for the user to resolve.
+
+export interface MergeResult {
+  text: string;
+  conflicts: number;
+}
+
+export const CONFLICT_MARKERS = {
+  start: '<<<<<<< mine',
+  separator: '=======',
+  end: '>>>>>>> theirs',
+};
+
+// Above this many comparisons the changed middle is treated as one block
+const MAX_LCS_CELLS = 4_000_000;
+
+// Index pairs [base, other] of lines kept unchanged between the two versions
+function matchLines(base: string[], other: string[]): Array<[number, number]> {
+  let start = 0;
+  while (start < base.length && start < other.length && base[start] === other[start]) {
+    start++;
+  }
+
+  let baseEnd = base.length;
+  let otherEnd = other.length;
+  while (baseEnd > start && otherEnd > start && base[baseEnd - 1] === other[otherEnd - 1]) {
+    baseEnd--;
+    otherEnd--;
+  }
+
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < start; i++) {
+    pairs.push([i, i]);
+  }
+
+  const n = baseEnd - start;
+  const m = otherEnd - start;
+  if (n > 0 && m > 0 && n * m <= MAX_LCS_CELLS) {
+    // lengths[i][j] is the longest common subsequence of the suffixes from i and j
+    const lengths = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i][j] = base[start + i] === other[start + j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (base[start + i] === other[start + j]) {
+        pairs.push([start + i, start + j]);
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+  }
+
+  for (let k = 0; k < base.length - baseEnd; k++) {
+    pairs.push([baseEnd + k, otherEnd + k]);
+  }
+  return pairs;
+}
+
+const sameLines = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((line, index) => line === b[index]);
+
+export function mergeThreeWay(base: string, mine: string, theirs: string): MergeResult {
+  const baseLines = base.split('\n');
+  const mineLines = mine.split('\n');
+  const theirLines = theirs.split('\n');
+
+  const inMine = new Map(matchLines(baseLines, mineLines));
+  const inTheirs = new Map(matchLines(baseLines, theirLines));
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let baseFrom = 0;
+  let mineFrom = 0;
+  let theirsFrom = 0;
+
+  // Merge the block between the previous stable line and the next one
+  const mergeBlock = (baseTo: number, mineTo: number, theirsTo: number) => {
+    const baseBlock = baseLines.slice(baseFrom, baseTo);
+    const mineBlock = mineLines.slice(mineFrom, mineTo);
+    const theirBlock = theirLines.slice(theirsFrom, theirsTo);
+
+    if (sameLines(mineBlock, baseBlock)) {
+      output.push(...theirBlock);
+    } else if (sameLines(theirBlock, baseBlock) || sameLines(mineBlock, theirBlock)) {
+      output.push(...mineBlock);
+    } else {
+      conflicts++;
+      output.push(CONFLICT_MARKERS.start, ...mineBlock, CONFLICT_MARKERS.separator, ...theirBlock, CONFLICT_MARKERS.end);
+    }
+  };
+
+  // A base line kept by both sides anchors the merge
+  baseLines.forEach((line, index) => {
+    const mineIndex = inMine.get(index);
+    const theirIndex = inTheirs.get(index);
+    if (mineIndex === undefined || theirIndex === undefined) return;
+
+    mergeBlock(index, mineIndex, theirIndex);
+    output.push(line);
+    baseFrom = index + 1;
+    mineFrom = mineIndex + 1;
+    theirsFrom = theirIndex + 1;
+  });
+  mergeBlock(baseLines.length, mineLines.length, theirLines.length);
+
+  return { text: output.join('\n'), conflicts };
+}
+
+export function hasConflictMarkers(text: string): boolean {
+  return text.split('\n').some(line => line === CONFLICT_MARKERS.start || line === CONFLICT_MARKERS.end);
+}
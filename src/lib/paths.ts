@@ -0,0 +1,36 @@
+// Helpers for workspace-relative paths ("src/components/App.tsx")
+
+// Validation lives with the edge functions, which enforce the same rules
+export {
+  assertPathAvailable,
+  normalizePath,
+  PathValidationError,
+  validateName,
+} from '../../supabase/functions/_shared/workspacePaths';
+export type { PathErrorCode } from '../../supabase/functions/_shared/workspacePaths';
+
+export function basename(path: string): string {
+  return path.split('/').pop() || path;
+}
+
+export function dirname(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+export function joinPath(...parts: string[]): string {
+  return parts.filter(Boolean).join('/');
+}
+
+// True when `path` is `ancestor` itself or lives underneath it
+export function isSameOrDescendant(path: string, ancestor: string): boolean {
+  return path === ancestor || path.startsWith(ancestor + '/');
+}
+
+// Rewrite a path for a move of `from` to `to`; null when the path is unaffected
+export function remapPath(path: string, from: string, to: string): string | null {
+  if (!isSameOrDescendant(path, from)) {
+    return null;
+  }
+  return to + path.slice(from.length);
+}
@@ -0,0 +1,11 @@
+// Storage quotas; the limits live with the edge functions, which enforce the
+// same rules
+export {
+  assertWithinQuota,
+  DEFAULT_QUOTAS,
+  formatQuotaAmount,
+  QUOTA_LABELS,
+  QuotaExceededError,
+  resolveQuotas,
+} from '../../supabase/functions/_shared/quotas';
+export type { QuotaName, Quotas } from '../../supabase/functions/_shared/quotas';
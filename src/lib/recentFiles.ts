@@ -0,0 +1,33 @@
+import { remapPath } from './paths';
+
+// Most recently opened files per workspace, newest first, kept in
+// localStorage so Quick Open ranking survives reloads
+
+const MAX_RECENT_FILES = 50;
+
+const storageKey = (workspaceId: string) => `codestral-recent-files:${workspaceId}`;
+
+export function getRecentFiles(workspaceId: string): string[] {
+  try {
+    const stored = localStorage.getItem(storageKey(workspaceId));
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveRecentFiles(workspaceId: string, paths: string[]): void {
+  try {
+    localStorage.setItem(storageKey(workspaceId), JSON.stringify(paths.slice(0, MAX_RECENT_FILES)));
+  } catch {
+    // Storage full or unavailable; recency is only a ranking hint
+  }
+}
+
+export function recordRecentFile(workspaceId: string, path: string): void {
+  saveRecentFiles(workspaceId, [path, ...getRecentFiles(workspaceId).filter(p => p !== path)]);
+}
+
+export function remapRecentFiles(workspaceId: string, fromPath: string, toPath: string): void {
+  saveRecentFiles(workspaceId, getRecentFiles(workspaceId).map(path => remapPath(path, fromPath, toPath) ?? path));
+}
@@ -0,0 +1,15 @@
+// Automatic snapshot policies; the workspace-manager function applies the
+// same rules when it takes and prunes snapshots
+export {
+  DEFAULT_SNAPSHOT_POLICY,
+  hasSchedule,
+  isAutomaticTrigger,
+  MIN_SNAPSHOT_INTERVAL_MINUTES,
+  resolveSnapshotPolicy,
+  SNAPSHOT_TRIGGER_LABELS,
+} from '../../supabase/functions/_shared/snapshotPolicy';
+export type {
+  SnapshotPolicy,
+  SnapshotRetention,
+  SnapshotTrigger,
+} from '../../supabase/functions/_shared/snapshotPolicy';
@@ -0,0 +1,84 @@
+// Lightweight symbol outline for Quick Open's `@symbol` mode. Declarations are
+// found with per-line patterns, which covers the common cases across the
+// languages we highlight without running a language server.
+
+export interface DocumentSymbol {
+  name: string;
+  kind: 'function' | 'class' | 'interface' | 'type' | 'variable' | 'method' | 'heading';
+  line: number;
+  column: number;
+}
+
+type SymbolPattern = [RegExp, DocumentSymbol['kind']];
+
+const SCRIPT_PATTERNS: SymbolPattern[] = [
+  [/^\s*(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/, 'function'],
+  [/^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/, 'class'],
+  [/^\s*(?:export\s+)?interface\s+([A-Za-z_$][\w$]*)/, 'interface'],
+  [/^\s*(?:export\s+)?(?:type|enum)\s+([A-Za-z_$][\w$]*)/, 'type'],
+  [/^\s*(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)/, 'variable'],
+  [/^\s+(?:(?:public|private|protected|static|async|readonly)\s+)*([A-Za-z_$][\w$]*)\s*\([^)]*\)\s*(?::[^{]*)?\{\s*$/, 'method'],
+];
+
+const LANGUAGE_PATTERNS: Record<string, SymbolPattern[]> = {
+  javascript: SCRIPT_PATTERNS,
+  typescript: SCRIPT_PATTERNS,
+  python: [
+    [/^\s*(?:async\s+)?def\s+([A-Za-z_]\w*)/, 'function'],
+    [/^\s*class\s+([A-Za-z_]\w*)/, 'class'],
+  ],
+  go: [
+    [/^func\s+(?:\([^)]*\)\s*)?([A-Za-z_]\w*)/, 'function'],
+    [/^type\s+([A-Za-z_]\w*)\s+(?:struct|interface)/, 'class'],
+  ],
+  rust: [
+    [/^\s*(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?fn\s+([A-Za-z_]\w*)/, 'function'],
+    [/^\s*(?:pub(?:\([^)]*\))?\s+)?(?:struct|enum|trait)\s+([A-Za-z_]\w*)/, 'class'],
+  ],
+  java: [
+    [/^\s*(?:public|private|protected)?\s*(?:abstract\s+|final\s+)?(?:class|interface|enum|record)\s+([A-Za-z_]\w*)/, 'class'],
+    [/^\s*(?:(?:public|private|protected|static|final|abstract|synchronized)\s+)+[\w<>[\],\s]+\s+([A-Za-z_]\w*)\s*\(/, 'method'],
+  ],
+  php: [
+    [/^\s*(?:(?:public|private|protected|static|abstract|final)\s+)*function\s+([A-Za-z_]\w*)/, 'function'],
+    [/^\s*(?:abstract\s+|final\s+)?class\s+([A-Za-z_]\w*)/, 'class'],
+  ],
+  ruby: [
+    [/^\s*def\s+(?:self\.)?([A-Za-z_]\w*[?!]?)/, 'method'],
+    [/^\s*(?:class|module)\s+([A-Z]\w*)/, 'class'],
+  ],
+  markdown: [
+    [/^#{1,6}\s+(.+?)\s*#*\s*$/, 'heading'],
+  ],
+};
+
+// C-like languages share a rough function/type pattern
+const C_PATTERNS: SymbolPattern[] = [
+  [/^\s*(?:struct|class|enum|union)\s+([A-Za-z_]\w*)/, 'class'],
+  [/^[A-Za-z_][\w\s*&:<>,]*?\b([A-Za-z_]\w*)\s*\([^;]*$/, 'function'],
+];
+
+const CONTROL_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'else', 'do', 'try', 'new']);
+
+export function extractSymbols(content: string, language: string): DocumentSymbol[] {
+  const patterns = LANGUAGE_PATTERNS[language]
+    || (['c', 'cpp', 'csharp'].includes(language) ? C_PATTERNS : SCRIPT_PATTERNS);
+  const symbols: DocumentSymbol[] = [];
+
+  content.split('\n').forEach((line, index) => {
+    for (const [pattern, kind] of patterns) {
+      const match = line.match(pattern);
+      if (match && !CONTROL_KEYWORDS.has(match[1])) {
+        symbols.push({
+          name: match[1],
+          kind,
+          line: index + 1,
+          column: line.indexOf(match[1]) + 1,
+        });
+        break;
+      }
+    }
+  });
+
+  return symbols;
+}
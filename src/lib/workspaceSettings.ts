@@ -0,0 +1,17 @@
+// Workspace settings schema and its migrations; workspace-manager validates
+// against the same schema before it writes settings
+export {
+  DEFAULT_WORKSPACE_SETTINGS,
+  parseWorkspaceSettings,
+  validateWorkspaceSettings,
+  WORKSPACE_SETTINGS_VERSION,
+  WorkspaceSettingsError,
+  WorkspaceSettingsSchema,
+} from '../../supabase/functions/_shared/workspaceSettings';
+export type {
+  AISettings,
+  EditorSettings,
+  FormatterSettings,
+  RunSettings,
+  WorkspaceSettings,
+} from '../../supabase/functions/_shared/workspaceSettings';
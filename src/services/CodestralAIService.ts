@@ -1,4 +1,5 @@
 import { AIMessage, CodeBlock } from '@/types';
+import { AISettings, DEFAULT_WORKSPACE_SETTINGS } from '@/lib/workspaceSettings';
 import { createClient } from '@supabase/supabase-js';
 
 // Initialize Supabase client
@@ -10,6 +11,12 @@ const supabase = createClient(supabaseUrl, supabaseAnonKey);
 class CodestralAIService {
   private conversationHistory: AIMessage[] = [];
   private messageIdCounter = 0;
+  private chatSettings: AISettings = DEFAULT_WORKSPACE_SETTINGS.ai;
+
+  // Applied from the current workspace's settings
+  setChatSettings(settings?: Partial<AISettings>): void {
+    this.chatSettings = { ...DEFAULT_WORKSPACE_SETTINGS.ai, ...settings };
+  }
 
   async generateCode(prompt: string, language: string = 'javascript'): Promise<string> {
     try {
@@ -35,6 +42,10 @@ class CodestralAIService {
   }
 
   async chat(userMessage: string, context?: { code?: string; filePath?: string }): Promise<AIMessage> {
+    const { historyLength, includeActiveFile } = this.chatSettings;
+    const history = historyLength > 0 ? this.conversationHistory.slice(-historyLength) : [];
+    const file = includeActiveFile && context?.code !== undefined ? context : undefined;
+
     const userMsg: AIMessage = {
       id: this.generateMessageId(),
       role: 'user',
@@ -48,7 +59,9 @@ class CodestralAIService {
         body: {
           action: 'chat',
           prompt: userMessage,
-          messages: this.conversationHistory.slice(-10) // Send last 10 messages for context
+          messages: history,
+          code: file?.code,
+          filePath: file?.filePath
         }
       });
 
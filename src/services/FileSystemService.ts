@@ -1,5 +1,61 @@
-import { FileNode } from '@/types';
-import { createClient } from '@supabase/supabase-js';
+import {
+  ArchiveImportResult,
+  FileChangeEvent,
+  FileDeleteEvent,
+  FileImportResult,
+  FileNode,
+  FileRenameEvent,
+  FileRevision,
+  LineEnding,
+  PathMove,
+  RevisionRetention,
+  TextEncoding,
+  TrashItem,
+} from '@/types';
+import { createClient, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { unzipSync, zipSync, Zippable } from 'fflate';
+import {
+  assertPathAvailable,
+  basename,
+  dirname,
+  isSameOrDescendant,
+  joinPath,
+  normalizePath,
+  PathValidationError,
+  remapPath,
+} from '@/lib/paths';
+import { fromBase64, toBase64 } from '@/lib/binary';
+import { DEFAULT_WORKSPACE_SETTINGS } from '@/lib/workspaceSettings';
+import {
+  byteLength,
+  decodeText,
+  DEFAULT_ENCODING,
+  DEFAULT_LINE_ENDING,
+  detectLineEnding,
+  ENCODING_LABELS,
+  encodeText,
+  toLf,
+  unencodableCharacters,
+} from '@/lib/encoding';
+import { Emitter } from '@/lib/events';
+import { IgnoreMatcher, isIgnoreFile } from '@/lib/ignore';
+import { isEditableBy } from '@/lib/locks';
+import { assertWithinQuota, Quotas, resolveQuotas } from '@/lib/quotas';
+import { LRUCache } from '@/lib/lru';
+import {
+  FileLockedError,
+  FileMetadataRecord,
+  FileRecord,
+  FileRecordChanges,
+  FileRevisionMetadataRecord,
+  FileRevisionRecord,
+  FileStorageProvider,
+  FolderRecord,
+  IndexedDBStorageProvider,
+  StaleRevisionError,
+  SupabaseStorageProvider,
+  TrashRecord,
+} from './storage';
 
 // Initialize Supabase client
 const supabaseUrl = "https://dmexmkktelxxnxeckluk.supabase.co";
@@ -7,262 +63,1077 @@ const supabaseAnonKey = "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.eyJpc3MiOiJzdXBhYm
 
 const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
+// Defaults of the workspace settings schema
+export const DEFAULT_REVISION_RETENTION: RevisionRetention = DEFAULT_WORKSPACE_SETTINGS.revisionRetention;
+
+// Days a deleted file or folder stays restorable
+export const DEFAULT_TRASH_RETENTION_DAYS = DEFAULT_WORKSPACE_SETTINGS.trashRetentionDays;
+
+// Minutes an edit lock lasts unless it is released earlier
+export const DEFAULT_LOCK_MINUTES = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// File content kept in memory across tab switches, in characters
+const CONTENT_CACHE_SIZE = 8 * 1024 * 1024;
+// Files warmed per prefetch hint; later hints replace earlier ones
+const PREFETCH_LIMIT = 5;
+
+// Binary file bytes live under <workspace id>/.assets/ in the file-assets bucket
+const ASSETS_BUCKET = 'file-assets';
+const ASSETS_DIR = '.assets';
+
+interface CachedContent {
+  revision: number;
+  content: string;
+}
+
 class FileSystemService {
+  // File and folder metadata by path. File content lives in contentCache.
   private cache: Map<string, FileNode> = new Map();
+  // Keyed by file id so entries survive renames
+  private contentCache = new LRUCache<string, CachedContent>(CONTENT_CACHE_SIZE, entry => entry.content.length);
+  private prefetchQueue: FileNode[] = [];
+  private isPrefetching = false;
+  // Built from the workspace's ignore files on first use
+  private ignoreMatcher: Promise<IgnoreMatcher> | null = null;
+  // The signed-in user's limits, shared by every workspace
+  private quotas: Promise<Quotas> | null = null;
+  // Who takes edit locks from this session
+  private currentUser: Promise<{ id: string; name: string } | null> | null = null;
   private currentWorkspaceId: string | null = null;
+  private remoteStorage: FileStorageProvider = new SupabaseStorageProvider();
+  private storage: FileStorageProvider = this.remoteStorage;
+  private revisionRetention: RevisionRetention = DEFAULT_REVISION_RETENTION;
+  private trashRetentionDays = DEFAULT_TRASH_RETENTION_DAYS;
+
+  private readonly didCreate = new Emitter<FileChangeEvent>();
+  private readonly didChange = new Emitter<FileChangeEvent>();
+  private readonly didDelete = new Emitter<FileDeleteEvent>();
+  private readonly didRename = new Emitter<FileRenameEvent>();
+  private readonly didChangeIgnoreRules = new Emitter<void>();
+
+  // Fired for files and folders, whether changed here or in another session
+  readonly onDidCreate = this.didCreate.event;
+  readonly onDidChange = this.didChange.event;
+  readonly onDidDelete = this.didDelete.event;
+  readonly onDidRename = this.didRename.event;
+  // Fired when an ignore file may have been created, edited, moved or deleted
+  readonly onDidChangeIgnoreRules = this.didChangeIgnoreRules.event;
+
+  constructor() {
+    const invalidateIfIgnoreFile = ({ file }: FileChangeEvent) => {
+      if (isIgnoreFile(file.path)) this.invalidateIgnoreRules();
+    };
+    this.onDidCreate(invalidateIfIgnoreFile);
+    this.onDidChange(invalidateIfIgnoreFile);
+    // Deletes and moves can take ignore files along inside a folder
+    this.onDidDelete(() => this.invalidateIgnoreRules());
+    this.onDidRename(() => this.invalidateIgnoreRules());
+
+    // Push offline edits back as soon as the browser reports connectivity
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => {
+        this.syncOfflineChanges().catch(error => {
+          console.error('Error syncing offline changes:', error);
+        });
+      });
+    }
+  }
 
   setWorkspaceId(workspaceId: string): void {
     this.currentWorkspaceId = workspaceId;
-    this.cache.clear(); // Clear cache when switching workspaces
+    this.clearCache(); // Clear cache when switching workspaces
+  }
+
+  // Swap the backend used for file rows (e.g. a MemoryStorageProvider in tests)
+  setStorageProvider(provider: FileStorageProvider): void {
+    this.storage = provider;
+    this.clearCache();
+  }
+
+  getStorageProvider(): FileStorageProvider {
+    return this.storage;
+  }
+
+  // Applied from the current workspace's settings
+  setRevisionRetention(retention?: Partial<RevisionRetention>): void {
+    this.revisionRetention = { ...DEFAULT_REVISION_RETENTION, ...retention };
+  }
+
+  // Applied from the current workspace's settings
+  setTrashRetention(days?: number): void {
+    this.trashRetentionDays = days && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+  }
+
+  isOffline(): boolean {
+    return this.storage.kind === 'indexeddb';
+  }
+
+  // Switch the current workspace to local-first IndexedDB storage
+  async enableOfflineMode(): Promise<void> {
+    if (!this.currentWorkspaceId) {
+      throw new Error('No workspace selected');
+    }
+
+    const local = this.storage instanceof IndexedDBStorageProvider
+      ? this.storage
+      : new IndexedDBStorageProvider();
+
+    if (typeof navigator === 'undefined' || navigator.onLine) {
+      await local.hydrateFrom(this.remoteStorage, this.currentWorkspaceId);
+    }
+
+    this.setStorageProvider(local);
+  }
+
+  // Sync pending offline edits and go back to the remote provider
+  async disableOfflineMode(): Promise<void> {
+    if (!(this.storage instanceof IndexedDBStorageProvider)) {
+      return;
+    }
+
+    await this.syncOfflineChanges();
+    this.setStorageProvider(this.remoteStorage);
+  }
+
+  async syncOfflineChanges(): Promise<number> {
+    if (!(this.storage instanceof IndexedDBStorageProvider) || !this.currentWorkspaceId) {
+      return 0;
+    }
+
+    return this.storage.syncTo(this.remoteStorage, this.currentWorkspaceId);
   }
 
-  async createFile(name: string, path: string, content: string = '', language?: string): Promise<FileNode> {
+  private toFileRevision(record: FileRevisionRecord): FileRevision {
+    return {
+      id: record.id,
+      fileId: record.file_id,
+      path: record.path,
+      content: record.content || '',
+      size: record.size_bytes || 0,
+      createdAt: new Date(record.created_at)
+    };
+  }
+
+  private toTrashItem(record: TrashRecord): TrashItem {
+    return {
+      id: record.id,
+      path: record.path,
+      type: record.item_type,
+      fileCount: record.files.length,
+      size: record.files.reduce((sum, file) => sum + (file.size_bytes || 0), 0),
+      deletedAt: new Date(record.deleted_at),
+      expiresAt: new Date(record.expires_at)
+    };
+  }
+
+  private toFolderNode(record: FolderRecord): FileNode {
+    return {
+      id: record.id,
+      name: basename(record.path),
+      path: record.path,
+      type: 'folder',
+      children: [],
+      isOpen: !record.is_collapsed,
+      description: record.description || undefined,
+      createdAt: new Date(record.created_at),
+      updatedAt: new Date(record.updated_at)
+    };
+  }
+
+  // Metadata records produce a node without content
+  private toFileNode(record: FileRecord | FileMetadataRecord): FileNode {
+    return {
+      id: record.id,
+      name: record.path.split('/').pop() || record.path,
+      path: record.path,
+      type: 'file',
+      content: 'content' in record ? record.content || '' : undefined,
+      language: record.file_type || 'plaintext',
+      isOpen: false,
+      isDirty: false,
+      size: record.size_bytes || 0,
+      revision: record.revision,
+      storagePath: record.storage_path || undefined,
+      encoding: record.encoding || DEFAULT_ENCODING,
+      lineEnding: record.line_ending || DEFAULT_LINE_ENDING,
+      readOnly: record.read_only || false,
+      lock: record.locked_by && record.lock_expires_at
+        ? { userId: record.locked_by, userName: record.locked_by_name || 'another user', expiresAt: new Date(record.lock_expires_at) }
+        : undefined,
+      createdAt: new Date(record.created_at),
+      updatedAt: new Date(record.updated_at)
+    };
+  }
+
+  // Normalize a path about to be created or moved to, and make sure nothing
+  // exists there under any capitalization. Throws PathValidationError.
+  private async checkNewPath(path: string, ignoring?: string): Promise<string> {
+    if (!this.currentWorkspaceId) {
+      throw new Error('No workspace selected');
+    }
+
+    const normalized = normalizePath(path);
+    const files = await this.storage.listFileMetadata(this.currentWorkspaceId);
+    const folders = await this.storage.listFolders(this.currentWorkspaceId);
+    assertPathAvailable(normalized, [...files.map(f => f.path), ...folders.map(f => f.path)], ignoring);
+    return normalized;
+  }
+
+  // Limits of the signed-in user; the defaults when they have no
+  // user_quotas row or the quotas can't be loaded
+  getQuotas(): Promise<Quotas> {
+    if (!this.quotas) {
+      this.quotas = this.loadQuotas();
+    }
+    return this.quotas;
+  }
+
+  private async loadQuotas(): Promise<Quotas> {
+    try {
+      const { data, error } = await supabase
+        .from('user_quotas')
+        .select('*')
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to load quotas: ${error.message}`);
+      }
+      return resolveQuotas(data);
+    } catch (error) {
+      console.warn('Failed to load quotas:', error);
+      // Try again on the next write
+      this.quotas = null;
+      return resolveQuotas(null);
+    }
+  }
+
+  // Throws QuotaExceededError when writing `size` bytes would go over the
+  // limits. `previousSize` is given when an existing file is overwritten;
+  // writes that don't grow it always pass. Storage across all workspaces is
+  // left to the database trigger, which sees every workspace.
+  private async checkQuota(size: number, previousSize?: number): Promise<void> {
+    if (!this.currentWorkspaceId) {
+      throw new Error('No workspace selected');
+    }
+    if (previousSize !== undefined && size <= previousSize) {
+      return;
+    }
+
+    const quotas = await this.getQuotas();
+    assertWithinQuota('maxFileBytes', size, quotas);
+
+    const files = await this.storage.listFileMetadata(this.currentWorkspaceId);
+    if (previousSize === undefined) {
+      assertWithinQuota('maxFilesPerWorkspace', files.length + 1, quotas);
+    }
+    const total = files.reduce((sum, file) => sum + (file.size_bytes || 0), 0);
+    assertWithinQuota('maxWorkspaceBytes', total - (previousSize || 0) + size, quotas);
+  }
+
+  // Content is stored with LF line endings. Unless `format` says otherwise,
+  // the file keeps the line endings `content` came with and is UTF-8.
+  async createFile(
+    name: string,
+    path: string,
+    content: string = '',
+    language?: string,
+    format?: { encoding?: TextEncoding; lineEnding?: LineEnding }
+  ): Promise<FileNode> {
     if (!this.currentWorkspaceId) {
       throw new Error('No workspace selected');
     }
 
     const detectedLanguage = language || this.detectLanguage(name);
+    const lineEnding = format?.lineEnding ?? detectLineEnding(content);
+    content = toLf(content);
     
     try {
-      const { data, error } = await supabase
-        .from('files')
-        .insert({
+      path = await this.checkNewPath(path);
+      await this.checkQuota(byteLength(content));
+
+      const data = await this.storage.insertFile({
+        workspace_id: this.currentWorkspaceId,
+        path,
+        content,
+        file_type: detectedLanguage,
+        size_bytes: byteLength(content),
+        encoding: format?.encoding ?? DEFAULT_ENCODING,
+        line_ending: lineEnding
+      });
+
+      const file: FileNode = { ...this.toFileNode(data), name, content, language: detectedLanguage };
+
+      this.rememberFile(file);
+      await this.recordRevision(file.id, file.path, content);
+      this.didCreate.fire({ file, origin: 'local' });
+      return file;
+    } catch (error) {
+      console.error('Error creating file:', error);
+      throw error;
+    }
+  }
+
+  // Store a binary file: the bytes go to the file-assets bucket and the files
+  // row links to them. Binary files have no text content or revision history.
+  async createBinaryFile(name: string, path: string, data: Blob, language?: string): Promise<FileNode> {
+    if (!this.currentWorkspaceId) {
+      throw new Error('No workspace selected');
+    }
+
+    const storagePath = `${this.currentWorkspaceId}/${ASSETS_DIR}/${crypto.randomUUID()}`;
+    try {
+      // Checked before uploading so a rejected file leaves no stray object
+      path = await this.checkNewPath(path);
+      await this.checkQuota(data.size);
+      const { error } = await supabase.storage
+        .from(ASSETS_BUCKET)
+        .upload(storagePath, data);
+
+      if (error) {
+        throw new Error(`Failed to upload file: ${error.message}`);
+      }
+
+      return await this.insertBinaryFile(name, path, storagePath, data.size, language);
+    } catch (error) {
+      console.error('Error creating binary file:', error);
+      throw error;
+    }
+  }
+
+  // Link an already stored object as a file
+  private async insertBinaryFile(name: string, path: string, storagePath: string, size: number, language?: string): Promise<FileNode> {
+    if (!this.currentWorkspaceId) {
+      throw new Error('No workspace selected');
+    }
+
+    const data = await this.storage.insertFile({
+      workspace_id: this.currentWorkspaceId,
+      path,
+      content: '',
+      file_type: language || 'binary',
+      size_bytes: size,
+      storage_path: storagePath
+    });
+
+    const file: FileNode = { ...this.toFileNode(data), name };
+    this.rememberFile(file);
+    this.didCreate.fire({ file, origin: 'local' });
+    return file;
+  }
+
+  // The bytes of a binary file
+  async downloadBinary(file: Pick<FileNode, 'path' | 'storagePath'>): Promise<Blob> {
+    if (!file.storagePath) {
+      throw new Error(`${file.path} is not a binary file`);
+    }
+
+    const { data, error } = await supabase.storage
+      .from(ASSETS_BUCKET)
+      .download(file.storagePath);
+
+    if (error) {
+      throw new Error(`Failed to download file: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // Best effort: an object left behind only costs storage
+  private async removeAssets(storagePaths: string[]): Promise<void> {
+    if (storagePaths.length === 0) {
+      return;
+    }
+
+    const { error } = await supabase.storage
+      .from(ASSETS_BUCKET)
+      .remove(storagePaths);
+
+    if (error) {
+      console.warn('Failed to remove stored files:', error);
+    }
+  }
+
+  async createFolder(name: string, path: string, description?: string): Promise<FileNode> {
+    if (!this.currentWorkspaceId) {
+      throw new Error('No workspace selected');
+    }
+
+    try {
+      const data = await this.storage.insertFolder({
+        workspace_id: this.currentWorkspaceId,
+        path: await this.checkNewPath(path),
+        description: description || null,
+        is_collapsed: false
+      });
+
+      const folder: FileNode = { ...this.toFolderNode(data), name };
+
+      this.cache.set(folder.path, folder);
+      this.didCreate.fire({ file: folder, origin: 'local' });
+      return folder;
+    } catch (error) {
+      console.error('Error creating folder:', error);
+      throw error;
+    }
+  }
+
+  // Persisted folders; folders that only exist as file path prefixes are not included
+  async getFolders(): Promise<FileNode[]> {
+    if (!this.currentWorkspaceId) {
+      return [];
+    }
+
+    try {
+      const data = await this.storage.listFolders(this.currentWorkspaceId);
+      const folders = data.map(folder => this.toFolderNode(folder));
+
+      folders.forEach(folder => {
+        this.cache.set(folder.path, folder);
+      });
+
+      return folders;
+    } catch (error) {
+      console.error('Error getting folders:', error);
+      return [];
+    }
+  }
+
+  // Remember whether a folder is collapsed; folders inferred from file paths
+  // get a record the first time they are toggled
+  async setFolderCollapsed(path: string, collapsed: boolean): Promise<void> {
+    await this.updateFolderMetadata(path, { is_collapsed: collapsed });
+  }
+
+  async setFolderDescription(path: string, description: string): Promise<void> {
+    await this.updateFolderMetadata(path, { description: description || null });
+  }
+
+  private async updateFolderMetadata(path: string, changes: { is_collapsed?: boolean; description?: string | null }): Promise<void> {
+    if (!this.currentWorkspaceId) {
+      throw new Error('No workspace selected');
+    }
+
+    try {
+      const folders = await this.storage.listFolders(this.currentWorkspaceId);
+      if (folders.some(folder => folder.path === path)) {
+        await this.storage.updateFolder(this.currentWorkspaceId, path, {
+          ...changes,
+          updated_at: new Date().toISOString()
+        });
+      } else {
+        await this.storage.insertFolder({
           workspace_id: this.currentWorkspaceId,
           path,
-          content,
-          file_type: detectedLanguage,
-          size_bytes: content.length
-        })
-        .select()
-        .single();
+          description: null,
+          is_collapsed: false,
+          ...changes
+        });
+      }
 
-      if (error) {
-        throw new Error(`Failed to create file: ${error.message}`);
+      const cached = this.cache.get(path);
+      if (cached && cached.type === 'folder') {
+        if (changes.is_collapsed !== undefined) cached.isOpen = !changes.is_collapsed;
+        if (changes.description !== undefined) cached.description = changes.description || undefined;
+      }
+    } catch (error) {
+      console.error('Error updating folder:', error);
+      throw error;
+    }
+  }
+
+  async getFile(path: string): Promise<FileNode | undefined> {
+    if (!this.currentWorkspaceId) {
+      throw new Error('No workspace selected');
+    }
+
+    // Check cache first
+    const cached = this.cache.get(path);
+    if (cached?.type === 'folder') {
+      return cached;
+    }
+
+    const cachedContent = cached && this.getCachedContent(cached);
+    if (cached && cachedContent !== undefined) {
+      return { ...cached, content: cachedContent };
+    }
+
+    try {
+      const data = await this.storage.getFile(this.currentWorkspaceId, path);
+
+      if (!data) {
+        return undefined;
+      }
+
+      const file = this.toFileNode(data);
+
+      this.rememberFile(file);
+      return file;
+    } catch (error) {
+      console.error('Error getting file:', error);
+      return undefined;
+    }
+  }
+
+  // Content for a listed file, from the content cache or loaded on demand
+  async loadFileContent(file: FileNode): Promise<FileNode> {
+    if (file.type !== 'file' || file.content !== undefined) {
+      return file;
+    }
+
+    const cachedContent = this.getCachedContent(file);
+    if (cachedContent !== undefined) {
+      return { ...file, content: cachedContent };
+    }
+
+    const loaded = await this.getFile(file.path);
+    if (!loaded) {
+      throw new Error(`Failed to load ${file.path}`);
+    }
+    return loaded;
+  }
+
+  // Warm the content cache for files likely to be opened next. Loads run in
+  // the background one at a time; a file that fails is simply not cached.
+  prefetchContent(files: FileNode[]): void {
+    this.prefetchQueue = files
+      .filter(file => file.type === 'file' && file.content === undefined && this.getCachedContent(file) === undefined)
+      .slice(0, PREFETCH_LIMIT);
+
+    if (!this.isPrefetching) {
+      this.drainPrefetchQueue();
+    }
+  }
+
+  private async drainPrefetchQueue(): Promise<void> {
+    this.isPrefetching = true;
+    try {
+      for (let file = this.prefetchQueue.shift(); file; file = this.prefetchQueue.shift()) {
+        if (this.getCachedContent(file) === undefined) {
+          await this.getFile(file.path);
+        }
+      }
+    } finally {
+      this.isPrefetching = false;
+    }
+  }
+
+  // Cached content is usable when it is at least as new as the node
+  private getCachedContent(file: FileNode): string | undefined {
+    const entry = this.contentCache.get(file.id);
+    return entry && entry.revision >= (file.revision ?? 0) ? entry.content : undefined;
+  }
+
+  // Keep a file's metadata in the node cache and its content in the LRU
+  private rememberFile(file: FileNode): void {
+    const { content, ...metadata } = file;
+    this.cache.set(file.path, metadata);
+    if (content !== undefined) {
+      this.contentCache.set(file.id, { revision: file.revision ?? 0, content });
+    }
+  }
+
+  // Save new content on top of `baseRevision`, the revision the caller last
+  // saw. Without one the save applies to whatever is current. Returns the new
+  // revision; throws StaleRevisionError when someone else saved in between.
+  async updateFileContent(path: string, content: string, baseRevision?: number): Promise<number> {
+    if (!this.currentWorkspaceId) {
+      throw new Error('No workspace selected');
+    }
+
+    if (this.cache.get(path)?.storagePath) {
+      throw new Error(`${path} is a binary file and cannot be saved as text`);
+    }
+
+    try {
+      let base = baseRevision;
+      let file = this.cache.get(path);
+      if (base === undefined || !file) {
+        const current = await this.storage.getFile(this.currentWorkspaceId, path);
+        if (!current) {
+          throw new Error(`File not found: ${path}`);
+        }
+        base = base ?? current.revision;
+        file = this.toFileNode(current);
+      }
+
+      await this.assertEditable([file]);
+      await this.checkQuota(byteLength(content), file.size ?? 0);
+
+      const saved = await this.storage.saveFile(this.currentWorkspaceId, path, content, base);
+      this.cacheSavedContent(saved);
+
+      await this.recordRevision(file.id, path, content);
+      this.didChange.fire({ file: this.toFileNode(saved), origin: 'local' });
+      return saved.revision;
+    } catch (error) {
+      if (error instanceof StaleRevisionError) {
+        this.cacheSavedContent(error.current);
+        // The other writer saved exactly what we have, so there is nothing to merge
+        if (error.current.content === content) {
+          return error.current.revision;
+        }
+        throw error;
+      }
+
+      console.error('Error updating file:', error);
+      throw error;
+    }
+  }
+
+  // Change the encoding or line endings a text file is written out with. The
+  // stored content stays as it is; characters the new encoding cannot
+  // represent are refused.
+  async setTextFormat(path: string, format: { encoding?: TextEncoding; lineEnding?: LineEnding }): Promise<FileNode> {
+    const record = await this.getFileRecord(path);
+    await this.assertEditable([this.toFileNode(record)], true);
+    if (record.storage_path) {
+      throw new Error(`${path} is a binary file and has no text encoding`);
+    }
+
+    if (format.encoding) {
+      const unencodable = unencodableCharacters(record.content, format.encoding);
+      if (unencodable.length > 0) {
+        throw new Error(`${ENCODING_LABELS[format.encoding]} cannot represent ${unencodable.slice(0, 5).join(' ')} in ${path}`);
+      }
+    }
+
+    return this.applyFileChanges(record, {
+      encoding: format.encoding ?? record.encoding,
+      line_ending: format.lineEnding ?? record.line_ending,
+      updated_at: new Date().toISOString()
+    });
+  }
+
+  // Read-only files can't be saved, moved or deleted until this is cleared
+  async setReadOnly(path: string, readOnly: boolean): Promise<FileNode> {
+    const record = await this.getFileRecord(path);
+    await this.assertEditable([this.toFileNode(record)], true);
+    return this.applyFileChanges(record, { read_only: readOnly });
+  }
+
+  // Reserve a file for the signed-in user. Taking the lock again extends it.
+  async lockFile(path: string, minutes: number = DEFAULT_LOCK_MINUTES): Promise<FileNode> {
+    const user = await this.getCurrentUser();
+    if (!user || this.isOffline()) {
+      throw new Error('Locking files needs a connection and a signed-in user');
+    }
+
+    const record = await this.getFileRecord(path);
+    await this.assertEditable([this.toFileNode(record)], true);
+    return this.applyFileChanges(record, {
+      locked_by: user.id,
+      locked_by_name: user.name,
+      lock_expires_at: new Date(Date.now() + minutes * 60 * 1000).toISOString()
+    });
+  }
+
+  // Release the signed-in user's lock; expired locks can be cleared by anyone
+  async unlockFile(path: string): Promise<FileNode> {
+    const record = await this.getFileRecord(path);
+    await this.assertEditable([this.toFileNode(record)], true);
+    return this.applyFileChanges(record, { locked_by: null, locked_by_name: null, lock_expires_at: null });
+  }
+
+  // The signed-in user, or null when signed out or offline
+  getCurrentUser(): Promise<{ id: string; name: string } | null> {
+    if (!this.currentUser) {
+      this.currentUser = this.loadCurrentUser();
+    }
+    return this.currentUser;
+  }
+
+  private async loadCurrentUser(): Promise<{ id: string; name: string } | null> {
+    try {
+      const { data: { user }, error } = await supabase.auth.getUser();
+      if (error || !user) {
+        throw new Error(error?.message || 'Not signed in');
       }
+      return { id: user.id, name: user.user_metadata?.full_name || user.email || user.id };
+    } catch (error) {
+      console.warn('Failed to load the current user:', error);
+      // Try again next time
+      this.currentUser = null;
+      return null;
+    }
+  }
 
-      const file: FileNode = {
-        id: data.id,
-        name,
+  // Throws FileLockedError for files someone else has locked, and for
+  // read-only files unless only their metadata is about to change
+  private async assertEditable(files: FileNode[], allowReadOnly: boolean = false): Promise<void> {
+    const user = await this.getCurrentUser();
+    const blocked = files.find(file => !isEditableBy(allowReadOnly ? { ...file, readOnly: false } : file, user?.id ?? null));
+    if (blocked) {
+      throw new FileLockedError(blocked.path, blocked.readOnly ? null : blocked.lock?.userName ?? null);
+    }
+  }
+
+  private async getFileRecord(path: string): Promise<FileRecord> {
+    if (!this.currentWorkspaceId) {
+      throw new Error('No workspace selected');
+    }
+
+    const record = await this.storage.getFile(this.currentWorkspaceId, path);
+    if (!record) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return record;
+  }
+
+  // Store metadata changes of a file and tell listeners
+  private async applyFileChanges(record: FileRecord, changes: FileRecordChanges): Promise<FileNode> {
+    await this.storage.updateFile(record.workspace_id, record.path, changes);
+
+    const file = this.toFileNode({ ...record, ...changes });
+    this.rememberFile(file);
+    this.didChange.fire({ file, origin: 'local' });
+    return file;
+  }
+
+  private cacheSavedContent(record: FileRecord): void {
+    this.rememberFile(this.toFileNode(record));
+  }
+
+  // Store a saved version of a file, skipping saves that did not change anything
+  private async recordRevision(fileId: string, path: string, content: string): Promise<void> {
+    if (!this.currentWorkspaceId) {
+      return;
+    }
+
+    try {
+      const latest = await this.storage.getLatestRevision(this.currentWorkspaceId, fileId);
+      if (latest && latest.content === content) {
+        return;
+      }
+
+      await this.storage.insertRevision({
+        workspace_id: this.currentWorkspaceId,
+        file_id: fileId,
         path,
-        type: 'file',
         content,
-        language: detectedLanguage,
-        isOpen: false,
-        isDirty: false,
-        size: content.length,
-        createdAt: new Date(data.created_at),
-        updatedAt: new Date(data.updated_at)
-      };
+        size_bytes: byteLength(content)
+      });
 
-      this.cache.set(path, file);
-      return file;
+      await this.pruneRevisions(await this.storage.listRevisionMetadata(this.currentWorkspaceId, fileId));
+    } catch (error) {
+      // History is best-effort; the save itself already succeeded
+      console.warn(`Failed to record revision for ${path}:`, error);
+    }
+  }
+
+  private async pruneRevisions(revisions: FileRevisionMetadataRecord[]): Promise<void> {
+    if (!this.currentWorkspaceId) {
+      return;
+    }
+
+    const { maxRevisions, maxAgeDays } = this.revisionRetention;
+    const cutoff = maxAgeDays > 0 ? Date.now() - maxAgeDays * 24 * 60 * 60 * 1000 : 0;
+
+    // The newest revision always survives so the timeline is never empty
+    const expired = revisions.slice(1).filter((revision, index) =>
+      (maxRevisions > 0 && index + 1 >= maxRevisions) ||
+      new Date(revision.created_at).getTime() < cutoff
+    );
+
+    if (expired.length > 0) {
+      await this.storage.deleteRevisions(this.currentWorkspaceId, expired.map(revision => revision.id));
+    }
+  }
+
+  async getFileHistory(path: string): Promise<FileRevision[]> {
+    if (!this.currentWorkspaceId) {
+      throw new Error('No workspace selected');
+    }
+
+    try {
+      const file = await this.storage.getFile(this.currentWorkspaceId, path);
+      if (!file) {
+        return [];
+      }
+
+      const revisions = await this.storage.listRevisions(this.currentWorkspaceId, file.id);
+      return revisions.map(revision => this.toFileRevision(revision));
     } catch (error) {
-      console.error('Error creating file:', error);
-      throw error;
+      console.error('Error loading file history:', error);
+      return [];
     }
   }
 
-  async createFolder(name: string, path: string): Promise<FileNode> {
-    // Folders are virtual in our system - we don't store them in the database
-    // They are inferred from file paths
-    const folder: FileNode = {
-      id: `folder-${path}`,
-      name,
-      path,
-      type: 'folder',
-      children: [],
-    };
+  // Write an old revision back as the file's current content
+  async restoreRevision(path: string, revisionId: string): Promise<{ content: string; revision: number }> {
+    if (!this.currentWorkspaceId) {
+      throw new Error('No workspace selected');
+    }
+
+    const revision = await this.storage.getRevision(this.currentWorkspaceId, revisionId);
+    if (!revision) {
+      throw new Error('Revision not found');
+    }
 
-    this.cache.set(path, folder);
-    return folder;
+    const saved = await this.updateFileContent(path, revision.content);
+    return { content: revision.content, revision: saved };
   }
 
-  async getFile(path: string): Promise<FileNode | undefined> {
+  // Move a file, or a folder with everything under it, to the trash. Returns
+  // the trash item so the delete can be undone.
+  async deleteFile(path: string): Promise<TrashItem> {
     if (!this.currentWorkspaceId) {
       throw new Error('No workspace selected');
     }
 
-    // Check cache first
-    if (this.cache.has(path)) {
-      return this.cache.get(path);
-    }
+    const file = await this.storage.getFile(this.currentWorkspaceId, path);
+    const files = file
+      ? [file]
+      : (await this.storage.listFiles(this.currentWorkspaceId)).filter(f => isSameOrDescendant(f.path, path));
+    // Checked up front so nothing goes to the trash when one file must stay
+    await this.assertEditable(files.map(f => this.toFileNode(f)));
 
-    try {
-      const { data, error } = await supabase
-        .from('files')
-        .select('*')
-        .eq('workspace_id', this.currentWorkspaceId)
-        .eq('path', path)
-        .maybeSingle();
+    const item = await this.storage.trashPath(
+      this.currentWorkspaceId,
+      path,
+      new Date(Date.now() + this.trashRetentionDays * DAY_MS).toISOString()
+    );
+
+    // Remove from cache, including any child files if this was a folder
+    Array.from(this.cache.values())
+      .filter(node => isSameOrDescendant(node.path, path))
+      .forEach(node => {
+        this.cache.delete(node.path);
+        this.contentCache.delete(node.id);
+      });
 
-      if (error) {
-        console.error('Error fetching file:', error);
-        return undefined;
-      }
+    this.didDelete.fire({ path, origin: 'local' });
+    return this.toTrashItem(item);
+  }
 
-      if (!data) {
-        return undefined;
-      }
+  // Items still inside the retention window, newest first. Expired items are
+  // purged on the way.
+  async listTrash(): Promise<TrashItem[]> {
+    if (!this.currentWorkspaceId) {
+      return [];
+    }
 
-      const file: FileNode = {
-        id: data.id,
-        name: path.split('/').pop() || path,
-        path,
-        type: 'file',
-        content: data.content || '',
-        language: data.file_type || 'plaintext',
-        isOpen: false,
-        isDirty: false,
-        size: data.size_bytes || 0,
-        createdAt: new Date(data.created_at),
-        updatedAt: new Date(data.updated_at)
-      };
+    const items = await this.storage.listTrashItems(this.currentWorkspaceId);
+    const now = Date.now();
+    const expired = items.filter(item => new Date(item.expires_at).getTime() <= now);
 
-      this.cache.set(path, file);
-      return file;
-    } catch (error) {
-      console.error('Error getting file:', error);
-      return undefined;
+    if (expired.length > 0) {
+      try {
+        await this.storage.deleteTrashItems(this.currentWorkspaceId, expired.map(item => item.id));
+        await this.removeAssets(this.trashedAssets(expired));
+      } catch (error) {
+        console.warn('Failed to purge expired trash items:', error);
+      }
     }
+
+    return items
+      .filter(item => !expired.includes(item))
+      .map(item => this.toTrashItem(item));
   }
 
-  async updateFileContent(path: string, content: string): Promise<void> {
+  // Put a trashed file or folder back where it was. Nothing is restored when
+  // one of its files has since been replaced by a new file at the same path.
+  async restoreFromTrash(itemId: string): Promise<FileNode[]> {
     if (!this.currentWorkspaceId) {
       throw new Error('No workspace selected');
     }
 
-    try {
-      const { error } = await supabase
-        .from('files')
-        .update({
-          content,
-          size_bytes: content.length,
-          updated_at: new Date().toISOString()
-        })
-        .eq('workspace_id', this.currentWorkspaceId)
-        .eq('path', path);
+    const item = await this.storage.getTrashItem(this.currentWorkspaceId, itemId);
+    if (!item) {
+      throw new Error('Trash item not found');
+    }
 
-      if (error) {
-        throw new Error(`Failed to update file: ${error.message}`);
+    const existingFiles = await this.storage.listFileMetadata(this.currentWorkspaceId);
+    for (const file of item.files) {
+      try {
+        assertPathAvailable(file.path, existingFiles.map(f => f.path));
+      } catch (error) {
+        throw new Error(`Cannot restore: ${error instanceof Error ? error.message : file.path}`);
       }
+    }
 
-      // Update cache
-      const cachedFile = this.cache.get(path);
-      if (cachedFile && cachedFile.type === 'file') {
-        cachedFile.content = content;
-        cachedFile.isDirty = false;
-        cachedFile.size = content.length;
-        cachedFile.updatedAt = new Date();
-      }
-    } catch (error) {
-      console.error('Error updating file:', error);
-      throw error;
+    const quotas = await this.getQuotas();
+    for (const file of item.files) {
+      assertWithinQuota('maxFileBytes', file.size_bytes || 0, quotas);
+    }
+    assertWithinQuota('maxFilesPerWorkspace', existingFiles.length + item.files.length, quotas);
+    assertWithinQuota(
+      'maxWorkspaceBytes',
+      [...existingFiles, ...item.files].reduce((sum, file) => sum + (file.size_bytes || 0), 0),
+      quotas
+    );
+
+    // Folders, files and the trash item change together, or not at all
+    const restored = await this.storage.restoreTrashItem(this.currentWorkspaceId, item.id);
+    for (const record of restored.folders) {
+      const folder = this.toFolderNode(record);
+      this.cache.set(folder.path, folder);
+      this.didCreate.fire({ file: folder, origin: 'local' });
     }
+
+    return restored.files.map(record => {
+      const file = this.toFileNode(record);
+      this.rememberFile(file);
+      this.didCreate.fire({ file, origin: 'local' });
+      return file;
+    });
   }
 
-  async deleteFile(path: string): Promise<boolean> {
+  // Permanently delete trash items; with no ids, empties the trash
+  async purgeTrash(itemIds?: string[]): Promise<void> {
     if (!this.currentWorkspaceId) {
       throw new Error('No workspace selected');
     }
 
-    try {
-      const { error } = await supabase
-        .from('files')
-        .delete()
-        .eq('workspace_id', this.currentWorkspaceId)
-        .eq('path', path);
+    const items = (await this.storage.listTrashItems(this.currentWorkspaceId))
+      .filter(item => !itemIds || itemIds.includes(item.id));
+    await this.storage.deleteTrashItems(this.currentWorkspaceId, items.map(item => item.id));
+    await this.removeAssets(this.trashedAssets(items));
+  }
 
-      if (error) {
-        console.error('Error deleting file:', error);
-        return false;
-      }
+  // Stored objects of binary files that are only referenced from the trash
+  private trashedAssets(items: TrashRecord[]): string[] {
+    return items.flatMap(item => item.files.map(file => file.storage_path).filter((key): key is string => !!key));
+  }
 
-      // Remove from cache
-      this.cache.delete(path);
-      
-      // Also remove any child files if this was a folder
-      Array.from(this.cache.keys())
-        .filter(key => key.startsWith(path + '/'))
-        .forEach(key => this.cache.delete(key));
+  async renameFile(oldPath: string, newPath: string, newName: string): Promise<boolean> {
+    if (!this.currentWorkspaceId) {
+      throw new Error('No workspace selected');
+    }
 
+    try {
+      await this.movePath(oldPath, newPath);
       return true;
     } catch (error) {
-      console.error('Error deleting file:', error);
+      console.error('Error renaming file:', error);
       return false;
     }
   }
 
-  async renameFile(oldPath: string, newPath: string, newName: string): Promise<boolean> {
+  // Move a file or folder; every file under a folder follows it
+  async movePath(fromPath: string, toPath: string): Promise<PathMove[]> {
     if (!this.currentWorkspaceId) {
       throw new Error('No workspace selected');
     }
 
-    try {
-      const { error } = await supabase
-        .from('files')
-        .update({
-          path: newPath,
-          updated_at: new Date().toISOString()
-        })
-        .eq('workspace_id', this.currentWorkspaceId)
-        .eq('path', oldPath);
+    if (fromPath === toPath) {
+      return [];
+    }
 
-      if (error) {
-        throw new Error(`Failed to rename file: ${error.message}`);
-      }
+    if (isSameOrDescendant(toPath, fromPath)) {
+      throw new Error(`Cannot move ${fromPath} into itself`);
+    }
 
-      // Update cache
-      const file = this.cache.get(oldPath);
-      if (file) {
-        this.cache.delete(oldPath);
-        file.path = newPath;
-        file.name = newName;
-        file.updatedAt = new Date();
-        this.cache.set(newPath, file);
-      }
+    try {
+      // A move may only change the case of the moved path itself
+      toPath = await this.checkNewPath(toPath, fromPath);
+      const moved = (await this.storage.listFileMetadata(this.currentWorkspaceId))
+        .filter(f => isSameOrDescendant(f.path, fromPath));
+      await this.assertEditable(moved.map(f => this.toFileNode(f)));
+
+      const moves = await this.storage.movePath(this.currentWorkspaceId, fromPath, toPath);
+
+      // Re-key cached nodes, including virtual folders that own no rows yet
+      const affected = Array.from(this.cache.entries())
+        .filter(([path]) => isSameOrDescendant(path, fromPath));
+
+      affected.forEach(([path]) => this.cache.delete(path));
+      affected.forEach(([path, node]) => {
+        const newPath = remapPath(path, fromPath, toPath)!;
+        node.path = newPath;
+        node.name = basename(newPath);
+        node.updatedAt = new Date();
+        if (node.id.startsWith('folder-')) {
+          node.id = `folder-${newPath}`;
+        }
+        this.cache.set(newPath, node);
+      });
 
-      return true;
+      this.didRename.fire({ from: fromPath, to: toPath, origin: 'local' });
+      return moves;
     } catch (error) {
-      console.error('Error renaming file:', error);
-      return false;
+      console.error('Error moving path:', error);
+      throw error;
     }
   }
 
-  async getAllFiles(): Promise<FileNode[]> {
+  // Every file without its content, cheap enough for tree refreshes and
+  // workspace switches. Content comes from loadFileContent.
+  async listFiles(): Promise<FileNode[]> {
     if (!this.currentWorkspaceId) {
       return [];
     }
 
     try {
-      const { data, error } = await supabase
-        .from('files')
-        .select('*')
-        .eq('workspace_id', this.currentWorkspaceId)
-        .order('path');
+      const data = await this.storage.listFileMetadata(this.currentWorkspaceId);
+      const files = data.map(record => this.toFileNode(record));
 
-      if (error) {
-        console.error('Error fetching files:', error);
-        return [];
+      files.forEach(file => {
+        this.cache.set(file.path, file);
+      });
+
+      return files;
+    } catch (error) {
+      console.error('Error listing files:', error);
+      return [];
+    }
+  }
+
+  // Rules from the .gitignore and .codestralignore files in the workspace
+  getIgnoreMatcher(): Promise<IgnoreMatcher> {
+    if (!this.ignoreMatcher) {
+      this.ignoreMatcher = this.loadIgnoreMatcher();
+    }
+    return this.ignoreMatcher;
+  }
+
+  private async loadIgnoreMatcher(): Promise<IgnoreMatcher> {
+    try {
+      const ignoreFiles = [];
+      for (const file of (await this.listFiles()).filter(f => isIgnoreFile(f.path))) {
+        const loaded = await this.loadFileContent(file);
+        ignoreFiles.push({ path: loaded.path, content: loaded.content || '' });
       }
+      return IgnoreMatcher.fromFiles(ignoreFiles);
+    } catch (error) {
+      console.warn('Failed to load ignore files:', error);
+      return new IgnoreMatcher();
+    }
+  }
+
+  private invalidateIgnoreRules(): void {
+    this.ignoreMatcher = null;
+    this.didChangeIgnoreRules.fire();
+  }
+
+  // Drop files and folders matched by the ignore files
+  async withoutIgnored(nodes: FileNode[]): Promise<FileNode[]> {
+    const ignore = await this.getIgnoreMatcher();
+    return nodes.filter(node => !ignore.isIgnored(node.path, node.type === 'folder'));
+  }
+
+  // Paths of ignored files and folders, e.g. to leave out of a snapshot
+  async getIgnoredPaths(): Promise<string[]> {
+    const ignore = await this.getIgnoreMatcher();
+    const nodes = [...await this.listFiles(), ...await this.getFolders()];
+    return nodes
+      .filter(node => ignore.isIgnored(node.path, node.type === 'folder'))
+      .map(node => node.path);
+  }
+
+  // Every file with its content, for search and export
+  async getAllFiles(): Promise<FileNode[]> {
+    if (!this.currentWorkspaceId) {
+      return [];
+    }
 
-      const files: FileNode[] = data.map(file => ({
-        id: file.id,
-        name: file.path.split('/').pop() || file.path,
-        path: file.path,
-        type: 'file' as const,
-        content: file.content || '',
-        language: file.file_type || 'plaintext',
-        isOpen: false,
-        isDirty: false,
-        size: file.size_bytes || 0,
-        createdAt: new Date(file.created_at),
-        updatedAt: new Date(file.updated_at)
-      }));
+    try {
+      const data = await this.storage.listFiles(this.currentWorkspaceId);
+      const files: FileNode[] = data.map(file => this.toFileNode(file));
 
       // Update cache
-      files.forEach(file => {
-        this.cache.set(file.path, file);
-      });
+      files.forEach(file => this.rememberFile(file));
 
       return files;
     } catch (error) {
@@ -271,16 +1142,22 @@ class FileSystemService {
     }
   }
 
-  buildFileTree(files: FileNode[]): FileNode[] {
+  buildFileTree(files: FileNode[], folders: FileNode[] = []): FileNode[] {
     const rootFiles: FileNode[] = [];
     const folderMap = new Map<string, FileNode>();
 
+    // Persisted folders keep their metadata; copies avoid accumulating children
+    folders.forEach(folder => {
+      folderMap.set(folder.path, { ...folder, children: [] });
+    });
+
     // Create folder nodes for all directory paths
-    files.forEach(file => {
+    [...files, ...folders].forEach(file => {
       const pathParts = file.path.split('/').filter(p => p);
+      const depth = file.type === 'folder' ? pathParts.length : pathParts.length - 1;
       let currentPath = '';
 
-      for (let i = 0; i < pathParts.length - 1; i++) {
+      for (let i = 0; i < depth; i++) {
         currentPath += (currentPath ? '/' : '') + pathParts[i];
         
         if (!folderMap.has(currentPath)) {
@@ -383,21 +1260,41 @@ class FileSystemService {
     return languageMap[ext || ''] || 'plaintext';
   }
 
+  // JSON export of every file and folder that is not ignored
   async exportWorkspace(): Promise<string> {
     if (!this.currentWorkspaceId) {
       throw new Error('No workspace selected');
     }
 
     try {
-      const files = await this.getAllFiles();
-      const exportData = {
-        workspaceId: this.currentWorkspaceId,
-        exportedAt: new Date().toISOString(),
-        files: files.map(file => ({
+      const files = await this.withoutIgnored(await this.getAllFiles());
+      const folders = await this.withoutIgnored(await this.getFolders());
+      const exportedFiles = [];
+      for (const file of files) {
+        // Binary files travel as base64 so the export stays self-contained
+        const binary = file.storagePath
+          ? toBase64(new Uint8Array(await (await this.downloadBinary(file)).arrayBuffer()))
+          : undefined;
+        // Text files carry their own line endings and the encoding to write them with
+        exportedFiles.push({
           path: file.path,
-          content: file.content,
+          content: binary ?? (file.lineEnding === 'crlf' ? (file.content || '').replace(/\n/g, '\r\n') : file.content),
+          encoding: binary !== undefined ? 'base64' : undefined,
+          textEncoding: binary !== undefined ? undefined : file.encoding,
           language: file.language,
           size: file.size
+        });
+      }
+
+      const exportData = {
+        workspaceId: this.currentWorkspaceId,
+        exportedAt: new Date().toISOString(),
+        files: exportedFiles,
+        folders: folders.map(folder => ({
+          path: folder.path,
+          description: folder.description,
+          collapsed: !folder.isOpen,
+          createdAt: folder.createdAt?.toISOString()
         }))
       };
 
@@ -417,15 +1314,28 @@ class FileSystemService {
       const importData = JSON.parse(json);
       const files: FileNode[] = [];
 
+      if (importData.folders && Array.isArray(importData.folders)) {
+        for (const folderData of importData.folders) {
+          try {
+            await this.createFolder(basename(folderData.path), folderData.path, folderData.description);
+            if (folderData.collapsed) {
+              await this.setFolderCollapsed(folderData.path, true);
+            }
+          } catch (error) {
+            console.warn(`Failed to import folder ${folderData.path}:`, error);
+          }
+        }
+      }
+
       if (importData.files && Array.isArray(importData.files)) {
         for (const fileData of importData.files) {
           try {
-            const file = await this.createFile(
-              fileData.path.split('/').pop() || fileData.path,
-              fileData.path,
-              fileData.content || '',
-              fileData.language
-            );
+            const name = fileData.path.split('/').pop() || fileData.path;
+            const file = fileData.encoding === 'base64'
+              ? await this.createBinaryFile(name, fileData.path, new Blob([fromBase64(fileData.content || '')]), fileData.language)
+              : await this.createFile(name, fileData.path, fileData.content || '', fileData.language, {
+                encoding: fileData.textEncoding in ENCODING_LABELS ? fileData.textEncoding : undefined
+              });
             files.push(file);
           } catch (error) {
             console.warn(`Failed to import file ${fileData.path}:`, error);
@@ -440,6 +1350,170 @@ class FileSystemService {
     }
   }
 
+  // Build a ZIP of the workspace, or of one folder. Folder archives are rooted
+  // at the folder's own name so extracting them recreates the folder. Ignored
+  // files are left out.
+  async exportArchive(folderPath: string = ''): Promise<Blob> {
+    if (!this.currentWorkspaceId) {
+      throw new Error('No workspace selected');
+    }
+
+    try {
+      const inScope = (path: string) => !folderPath || isSameOrDescendant(path, folderPath);
+      const parent = folderPath ? dirname(folderPath) : '';
+      const entryName = (path: string) => parent ? path.slice(parent.length + 1) : path;
+
+      const entries: Zippable = {};
+
+      const folders = (await this.withoutIgnored(await this.getFolders())).filter(folder => inScope(folder.path));
+      for (const folder of folders) {
+        entries[`${entryName(folder.path)}/`] = new Uint8Array(0);
+      }
+
+      const files = (await this.withoutIgnored(await this.getAllFiles())).filter(file => inScope(file.path));
+      for (const file of files) {
+        entries[entryName(file.path)] = file.storagePath
+          ? new Uint8Array(await (await this.downloadBinary(file)).arrayBuffer())
+          : encodeText(file.content || '', file.encoding || DEFAULT_ENCODING, file.lineEnding || DEFAULT_LINE_ENDING);
+      }
+
+      // Binaries uploaded before files could link to storage
+      const ignore = await this.getIgnoreMatcher();
+      for (const path of await this.listStorageAssets(folderPath)) {
+        if (files.some(file => file.path === path) || ignore.isIgnored(path)) continue;
+        const blob = await this.downloadFromStorage(path);
+        entries[entryName(path)] = new Uint8Array(await blob.arrayBuffer());
+      }
+
+      return new Blob([zipSync(entries)], { type: 'application/zip' });
+    } catch (error) {
+      console.error('Error exporting archive:', error);
+      throw error;
+    }
+  }
+
+  // Extract a ZIP into the workspace under `folderPath`. Entries become text
+  // or binary workspace files, overwriting existing ones, and empty
+  // directories become folders. Entries that fail are reported instead of
+  // aborting the import.
+  async importArchive(archive: Blob, folderPath: string = ''): Promise<ArchiveImportResult> {
+    if (!this.currentWorkspaceId) {
+      throw new Error('No workspace selected');
+    }
+
+    let entries: Record<string, Uint8Array>;
+    try {
+      entries = unzipSync(new Uint8Array(await archive.arrayBuffer()));
+    } catch (error) {
+      console.error('Failed to read archive:', error);
+      throw new Error('Invalid ZIP archive');
+    }
+
+    const result: ArchiveImportResult = { files: [], folders: [], failed: [] };
+    const directories: string[] = [];
+
+    for (const [name, data] of Object.entries(entries)) {
+      const segments = name.replace(/\\/g, '/').split('/').filter(Boolean);
+      if (segments.length === 0 || segments[0] === '__MACOSX' || segments[segments.length - 1] === '.DS_Store') {
+        continue;
+      }
+
+      const path = joinPath(folderPath, segments.join('/'));
+      if (segments.some(segment => segment === '.' || segment === '..')) {
+        result.failed.push({ path, error: 'Entry path leaves the archive root' });
+        continue;
+      }
+
+      if (name.endsWith('/')) {
+        directories.push(path);
+        continue;
+      }
+
+      try {
+        const text = decodeText(data);
+
+        const existing = await this.getFile(path);
+        if (text && existing?.type === 'file' && !existing.storagePath) {
+          await this.updateFileContent(path, text.content);
+          const file = await this.setTextFormat(path, text);
+          result.files.push({ ...file, content: text.content });
+          continue;
+        }
+
+        // A file of the other kind is replaced; the old one stays in the trash
+        if (existing?.type === 'file') {
+          await this.deleteFile(path);
+        }
+        result.files.push(text
+          ? await this.createFile(basename(path), path, text.content, undefined, text)
+          : await this.createBinaryFile(basename(path), path, new Blob([data])));
+      } catch (error) {
+        result.failed.push({ path, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    // Directories that received files already exist implicitly
+    const imported = result.files.map(file => file.path);
+    const existingFolders = new Set((await this.getFolders()).map(folder => folder.path));
+    for (const path of directories) {
+      if (existingFolders.has(path) || imported.some(filePath => isSameOrDescendant(filePath, path))) {
+        continue;
+      }
+
+      try {
+        await this.createFolder(basename(path), path);
+        result.folders.push(path);
+      } catch (error) {
+        // Already there because of files that were in the workspace before
+        if (error instanceof PathValidationError && error.code === 'exists') continue;
+        result.failed.push({ path, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return result;
+  }
+
+  // Paths of binary files kept in storage without a files row, optionally
+  // limited to one folder
+  private async listStorageAssets(folderPath: string = ''): Promise<string[]> {
+    if (!this.currentWorkspaceId) {
+      return [];
+    }
+
+    const root = this.currentWorkspaceId;
+    const paths: string[] = [];
+    const walk = async (dir: string) => {
+      const { data, error } = await supabase.storage
+        .from(ASSETS_BUCKET)
+        .list(joinPath(root, dir), { limit: 1000 });
+
+      if (error) {
+        throw new Error(`Failed to list stored files: ${error.message}`);
+      }
+
+      for (const item of data || []) {
+        const path = joinPath(dir, item.name);
+        if (path === ASSETS_DIR) continue;
+        // Storage reports nested folders as entries without an id
+        if (item.id === null) {
+          await walk(path);
+        } else {
+          paths.push(path);
+        }
+      }
+    };
+
+    try {
+      await walk(folderPath);
+    } catch (error) {
+      // Offline or missing bucket: archives still carry every text file
+      console.warn('Skipping stored files:', error);
+      return [];
+    }
+
+    return paths;
+  }
+
   // Upload file to Supabase Storage for large files or binary content
   async uploadToStorage(file: File, path: string): Promise<string> {
     if (!this.currentWorkspaceId) {
@@ -450,7 +1524,7 @@ class FileSystemService {
       const filePath = `${this.currentWorkspaceId}/${path}`;
       
       const { data, error } = await supabase.storage
-        .from('file-assets')
+        .from(ASSETS_BUCKET)
         .upload(filePath, file, {
           upsert: true
         });
@@ -461,7 +1535,7 @@ class FileSystemService {
 
       // Get public URL
       const { data: urlData } = supabase.storage
-        .from('file-assets')
+        .from(ASSETS_BUCKET)
         .getPublicUrl(filePath);
 
       return urlData.publicUrl;
@@ -471,6 +1545,30 @@ class FileSystemService {
     }
   }
 
+  // Add files dropped from the operating system into a folder as text or
+  // binary workspace files. A file that can't be added is reported in
+  // `failed` and the rest are still imported.
+  async importLocalFiles(files: File[], folderPath: string = ''): Promise<FileImportResult> {
+    if (!this.currentWorkspaceId) {
+      throw new Error('No workspace selected');
+    }
+
+    const result: FileImportResult = { files: [], failed: [] };
+    for (const file of files) {
+      const path = folderPath ? `${folderPath}/${file.name}` : file.name;
+      try {
+        const text = decodeText(new Uint8Array(await file.arrayBuffer()));
+        result.files.push(text
+          ? await this.createFile(file.name, path, text.content, undefined, text)
+          : await this.createBinaryFile(file.name, path, file));
+      } catch (error) {
+        result.failed.push({ path, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return result;
+  }
+
   // Download file from Supabase Storage
   async downloadFromStorage(path: string): Promise<Blob> {
     if (!this.currentWorkspaceId) {
@@ -481,7 +1579,7 @@ class FileSystemService {
       const filePath = `${this.currentWorkspaceId}/${path}`;
       
       const { data, error } = await supabase.storage
-        .from('file-assets')
+        .from(ASSETS_BUCKET)
         .download(filePath);
 
       if (error) {
@@ -502,40 +1600,146 @@ class FileSystemService {
     }
 
     try {
-      const { data, error } = await supabase
-        .from('files')
-        .select('*')
-        .eq('workspace_id', this.currentWorkspaceId)
-        .or(`path.ilike.%${query}%,content.ilike.%${query}%`)
-        .order('path');
-
-      if (error) {
-        console.error('Error searching files:', error);
-        return [];
-      }
-
-      return data.map(file => ({
-        id: file.id,
-        name: file.path.split('/').pop() || file.path,
-        path: file.path,
-        type: 'file' as const,
-        content: file.content || '',
-        language: file.file_type || 'plaintext',
-        isOpen: false,
-        isDirty: false,
-        size: file.size_bytes || 0,
-        createdAt: new Date(file.created_at),
-        updatedAt: new Date(file.updated_at)
-      }));
+      const data = await this.storage.searchFiles(this.currentWorkspaceId, query);
+      return this.withoutIgnored(data.map(file => this.toFileNode(file)));
     } catch (error) {
       console.error('Error searching files:', error);
       return [];
     }
   }
 
+  // Apply a realtime row change from another session. Echoes of this session's
+  // own writes are recognised through the cache and produce no event.
+  applyRemoteChange(change: RealtimePostgresChangesPayload<FileRecord | FolderRecord>): void {
+    // Offline edits are reconciled by the sync instead
+    if (!this.currentWorkspaceId || this.isOffline()) {
+      return;
+    }
+
+    if (change.eventType === 'DELETE') {
+      const cached = this.findCachedById(change.old.id);
+      this.contentCache.delete(change.old.id);
+      if (cached) {
+        this.cache.delete(cached.path);
+        this.didDelete.fire({ path: cached.path, origin: 'remote' });
+      }
+      return;
+    }
+
+    if (change.new.workspace_id !== this.currentWorkspaceId) {
+      return;
+    }
+
+    const isFolder = change.table === 'folders';
+    const node = isFolder
+      ? this.toFolderNode(change.new as FolderRecord)
+      : this.toFileNode(change.new as FileRecord);
+    const cached = this.findCachedById(node.id) || this.cache.get(node.path);
+
+    if (!cached) {
+      this.rememberFile(node);
+      const emitter = change.eventType === 'INSERT' ? this.didCreate : this.didChange;
+      emitter.fire({ file: node, origin: 'remote' });
+      return;
+    }
+
+    if (cached.path !== node.path) {
+      const from = cached.path;
+      this.cache.delete(from);
+      cached.path = node.path;
+      cached.name = node.name;
+      this.cache.set(node.path, cached);
+      this.didRename.fire({ from, to: node.path, origin: 'remote' });
+    }
+
+    if (isFolder) {
+      // Folder metadata such as collapse state stays per session
+      return;
+    }
+
+    // Lock, read-only and text format changes don't bump the revision
+    let changed = !this.sameFileMetadata(cached, node);
+    Object.assign(cached, {
+      readOnly: node.readOnly,
+      lock: node.lock,
+      encoding: node.encoding,
+      lineEnding: node.lineEnding
+    });
+
+    if ((cached.revision ?? 0) < (node.revision ?? 0)) {
+      changed = changed || this.contentCache.get(node.id)?.content !== node.content;
+      cached.size = node.size;
+      cached.revision = node.revision;
+      cached.updatedAt = node.updatedAt;
+      this.contentCache.set(node.id, { revision: node.revision ?? 0, content: node.content ?? '' });
+    }
+
+    if (changed) {
+      this.didChange.fire({ file: { ...cached, content: node.content }, origin: 'remote' });
+    }
+  }
+
+  private sameFileMetadata(a: FileNode, b: FileNode): boolean {
+    return a.readOnly === b.readOnly
+      && a.lock?.userId === b.lock?.userId
+      && a.lock?.expiresAt.getTime() === b.lock?.expiresAt.getTime()
+      && a.encoding === b.encoding
+      && a.lineEnding === b.lineEnding;
+  }
+
+  private findCachedById(id: string | undefined): FileNode | undefined {
+    return id ? Array.from(this.cache.values()).find(node => node.id === id) : undefined;
+  }
+
+  // Bring cached files and folders under `paths`, or all of them, up to date
+  // after they were replaced on the server, e.g. by a snapshot restore. Files
+  // that are still there report their new content as a change, so clean tabs
+  // reload and dirty ones meet the merge view on save. Only paths that are
+  // gone are reported deleted.
+  async reloadPaths(paths: string[] | null): Promise<void> {
+    if (!this.currentWorkspaceId) {
+      return;
+    }
+
+    const files = new Map((await this.storage.listFileMetadata(this.currentWorkspaceId)).map(f => [f.path, f]));
+    const folders = new Set((await this.storage.listFolders(this.currentWorkspaceId)).map(f => f.path));
+    const hasFilesUnder = (path: string) => Array.from(files.keys()).some(file => isSameOrDescendant(file, path));
+
+    for (const node of Array.from(this.cache.values())) {
+      if (paths && !paths.some(path => isSameOrDescendant(node.path, path))) continue;
+
+      if (node.type === 'folder') {
+        if (folders.has(node.path)) continue;
+        this.cache.delete(node.path);
+        // A folder whose record is gone still shows while files are in it
+        if (!hasFilesUnder(node.path)) {
+          this.didDelete.fire({ path: node.path, origin: 'local' });
+        }
+        continue;
+      }
+
+      const record = files.get(node.path);
+      if (record?.id !== node.id) {
+        this.cache.delete(node.path);
+        this.contentCache.delete(node.id);
+        this.didDelete.fire({ path: node.path, origin: 'local' });
+      } else if (record.revision !== node.revision) {
+        const current = await this.storage.getFile(this.currentWorkspaceId, node.path);
+        if (current) {
+          const file = this.toFileNode(current);
+          this.rememberFile(file);
+          this.didChange.fire({ file, origin: 'local' });
+        }
+      }
+    }
+  }
+
   // Clear cache (useful when switching workspaces)
   clearCache(): void {
     this.cache.clear();
+    this.contentCache.clear();
+    this.prefetchQueue = [];
+    this.ignoreMatcher = null;
   }
 }
 
@@ -1,4 +1,5 @@
 import { FirecrackerVM, CodeExecutionResult } from '@/types';
+import { DEFAULT_WORKSPACE_SETTINGS, RunSettings } from '@/lib/workspaceSettings';
 import { createClient } from '@supabase/supabase-js';
 
 // Initialize Supabase client
@@ -19,6 +20,12 @@ interface ExecutionSession {
 class CodeExecutorService {
   private sessions: Map<string, ExecutionSession> = new Map();
   private sessionIdCounter = 0;
+  private runSettings: RunSettings = DEFAULT_WORKSPACE_SETTINGS.run;
+
+  // Applied from the current workspace's settings
+  setRunSettings(settings?: Partial<RunSettings>): void {
+    this.runSettings = { ...DEFAULT_WORKSPACE_SETTINGS.run, ...settings };
+  }
 
   // Create a new execution session (replaces VM creation)
   async createSession(workspaceId: string, language: string = 'javascript'): Promise<ExecutionSession> {
@@ -37,7 +44,12 @@ class CodeExecutorService {
   }
 
   // Execute code using the real edge function
-  async executeCode(code: string, language: string = 'javascript', input: string = '', timeout: number = 10000): Promise<CodeExecutionResult> {
+  async executeCode(
+    code: string,
+    language: string = 'javascript',
+    input: string = this.runSettings.stdin,
+    timeout: number = this.runSettings.timeoutMs
+  ): Promise<CodeExecutionResult> {
     try {
       const { data, error } = await supabase.functions.invoke('code-executor', {
         body: {
@@ -104,7 +116,7 @@ class CodeExecutorService {
   }
 
   // Run a file from the workspace
-  async runFile(filePath: string, workspaceId: string, language: string, content: string, input: string = ''): Promise<CodeExecutionResult> {
+  async runFile(filePath: string, workspaceId: string, language: string, content: string, input: string = this.runSettings.stdin): Promise<CodeExecutionResult> {
     console.log(`[CodeExecutor] Running file ${filePath} in workspace ${workspaceId}`);
     
     const result = await this.executeCode(content, language, input);
@@ -0,0 +1,177 @@
+import { CodeSearchResult, FileNode, ReplaceEdit, SearchOptions } from '@/types';
+import { matchesAnyGlob, parseGlobList } from '@/lib/glob';
+import { fileSystemService } from './FileSystemService';
+import { workspaceService } from './WorkspaceService';
+
+const MAX_RESULTS = 2000;
+const MAX_SNIPPET_LENGTH = 500;
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  query: '',
+  isRegex: false,
+  matchCase: false,
+  wholeWord: false,
+  include: '',
+  exclude: '',
+};
+
+export interface ReplaceOutcome {
+  applied: ReplaceEdit[];
+  // Files that changed after the preview was taken and were left alone
+  skipped: string[];
+}
+
+class SearchService {
+  private lastReplace: ReplaceEdit[] | null = null;
+
+  // Throws when the query is not a valid regular expression
+  buildPattern(options: SearchOptions): RegExp {
+    let source = options.isRegex
+      ? options.query
+      : options.query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+    if (options.wholeWord) {
+      source = `\\b(?:${source})\\b`;
+    }
+
+    try {
+      return new RegExp(source, options.matchCase ? 'gm' : 'gim');
+    } catch (error) {
+      throw new Error(`Invalid regular expression: ${error instanceof Error ? error.message : source}`);
+    }
+  }
+
+  private async getCandidateFiles(options: SearchOptions): Promise<FileNode[]> {
+    const include = parseGlobList(options.include);
+    const exclude = parseGlobList(options.exclude);
+
+    const files = await fileSystemService.withoutIgnored(await fileSystemService.getAllFiles());
+    return files
+      .filter(file => file.type === 'file')
+      .filter(file => include.length === 0 || matchesAnyGlob(file.path, include))
+      .filter(file => !matchesAnyGlob(file.path, exclude))
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  // One result per matching line; the score is the number of matches on it
+  async search(options: SearchOptions): Promise<CodeSearchResult[]> {
+    if (!options.query) {
+      return [];
+    }
+
+    const pattern = this.buildPattern(options);
+    const results: CodeSearchResult[] = [];
+
+    for (const file of await this.getCandidateFiles(options)) {
+      const lines = (file.content || '').split('\n');
+
+      for (let index = 0; index < lines.length; index++) {
+        const line = lines[index].replace(/\r$/, '');
+        const matches = Array.from(line.matchAll(pattern)).filter(match => match[0].length > 0);
+        if (matches.length === 0) continue;
+
+        results.push({
+          filePath: file.path,
+          line: index + 1,
+          column: matches[0].index! + 1,
+          snippet: line.slice(0, MAX_SNIPPET_LENGTH),
+          score: matches.length,
+          matchLength: matches[0][0].length,
+        });
+
+        if (results.length >= MAX_RESULTS) {
+          return results;
+        }
+      }
+    }
+
+    return results;
+  }
+
+  // Apply the replacement to a piece of text. Regex replacements may use
+  // $1-style references; plain text is inserted literally.
+  replaceInText(text: string, options: SearchOptions, replacement: string): string {
+    const pattern = this.buildPattern(options);
+    return options.isRegex
+      ? text.replace(pattern, replacement)
+      : text.replace(pattern, () => replacement);
+  }
+
+  async previewReplace(options: SearchOptions, replacement: string): Promise<ReplaceEdit[]> {
+    if (!options.query) {
+      return [];
+    }
+
+    const pattern = this.buildPattern(options);
+    const edits: ReplaceEdit[] = [];
+
+    for (const file of await this.getCandidateFiles(options)) {
+      const before = file.content || '';
+      const matchCount = Array.from(before.matchAll(pattern)).filter(match => match[0].length > 0).length;
+      if (matchCount === 0) continue;
+
+      const after = this.replaceInText(before, options, replacement);
+      if (after !== before) {
+        edits.push({ filePath: file.path, before, after, matchCount });
+      }
+    }
+
+    return edits;
+  }
+
+  // Write a previewed replace. The files written are remembered as a single
+  // step so undoReplace can put all of them back; a replace across files may
+  // be preceded by an automatic snapshot.
+  async applyReplace(edits: ReplaceEdit[]): Promise<ReplaceOutcome> {
+    if (new Set(edits.map(edit => edit.filePath)).size > 1) {
+      await workspaceService.beforeMultiFileEdit();
+    }
+    return this.writeEdits(edits, edit => edit, (applied) => {
+      this.lastReplace = applied;
+    });
+  }
+
+  canUndoReplace(): boolean {
+    return this.lastReplace !== null && this.lastReplace.length > 0;
+  }
+
+  async undoReplace(): Promise<ReplaceOutcome> {
+    const edits = this.lastReplace || [];
+    return this.writeEdits(
+      edits,
+      edit => ({ ...edit, before: edit.after, after: edit.before }),
+      () => {
+        this.lastReplace = null;
+      }
+    );
+  }
+
+  private async writeEdits(
+    edits: ReplaceEdit[],
+    direction: (edit: ReplaceEdit) => ReplaceEdit,
+    onDone: (applied: ReplaceEdit[]) => void
+  ): Promise<ReplaceOutcome> {
+    const applied: ReplaceEdit[] = [];
+    const skipped: string[] = [];
+
+    try {
+      for (const edit of edits.map(direction)) {
+        const current = await fileSystemService.getFile(edit.filePath);
+        if (!current || (current.content || '') !== edit.before) {
+          skipped.push(edit.filePath);
+          continue;
+        }
+
+        const revision = await fileSystemService.updateFileContent(edit.filePath, edit.after, current.revision);
+        applied.push({ ...edit, revision });
+      }
+    } finally {
+      // A failed write still leaves the earlier files changed
+      onDone(applied);
+    }
+
+    return { applied, skipped };
+  }
+}
+
+export const searchService = new SearchService();
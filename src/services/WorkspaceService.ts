@@ -1,6 +1,13 @@
-import { Workspace, FileNode } from '@/types';
+import { ArchiveImportResult, Workspace, WorkspaceUsage, FileNode, SnapshotContents, SnapshotDiff, SnapshotFileDiff, SnapshotRestoreResult, SnapshotSummary } from '@/types';
+import { basename, isSameOrDescendant, remapPath } from '@/lib/paths';
+import { Quotas } from '@/lib/quotas';
+import { hasSchedule, isAutomaticTrigger, resolveSnapshotPolicy } from '@/lib/snapshotPolicy';
+import { parseWorkspaceSettings, validateWorkspaceSettings, WorkspaceSettings } from '@/lib/workspaceSettings';
 import { fileSystemService } from './FileSystemService';
-import { createClient } from '@supabase/supabase-js';
+import { codestralAI } from './CodestralAIService';
+import { firecrackerService } from './FirecrackerService';
+import { FileRecord, FolderRecord } from './storage';
+import { createClient, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 
 // Initialize Supabase client
 const supabaseUrl = "https://dmexmkktelxxnxeckluk.supabase.co";
@@ -8,9 +15,29 @@ const supabaseAnonKey = "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.eyJpc3MiOiJzdXBhYm
 
 const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
+// Failed invocations carry the function's response; its message says more
+// than the generic one, e.g. which quota was exceeded
+async function functionErrorMessage(error: any): Promise<string> {
+  try {
+    const body = await error.context?.json();
+    return body?.error?.message || error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+// How often the snapshot schedule is checked; the shortest interval a
+// policy can set is a few times this
+const SNAPSHOT_POLICY_INTERVAL_MS = 60 * 1000;
+
 class WorkspaceService {
   private currentWorkspaceId: string | null = null;
   private cache: Map<string, Workspace> = new Map();
+  // Stops realtime updates for the previous workspace on switch
+  private unsubscribeChanges: (() => void) | null = null;
+  // Asks workspace-manager for due snapshots while the current workspace's
+  // policy has a schedule
+  private snapshotTimer: ReturnType<typeof setInterval> | null = null;
 
   async createWorkspace(name: string, description: string = '', template: string = 'blank'): Promise<Workspace> {
     try {
@@ -25,18 +52,12 @@ class WorkspaceService {
           action: 'createWorkspace',
           name,
           description,
-          template,
-          settings: {
-            theme: 'dark',
-            autoSave: true,
-            fontSize: 14,
-            tabSize: 2
-          }
+          template
         }
       });
 
       if (error) {
-        throw new Error(`Failed to create workspace: ${error.message}`);
+        throw new Error(`Failed to create workspace: ${await functionErrorMessage(error)}`);
       }
 
       if (data?.error) {
@@ -52,16 +73,19 @@ class WorkspaceService {
         vmId: null, // VM concept replaced with edge functions
         createdAt: new Date(workspaceData.created_at),
         lastModified: new Date(workspaceData.last_modified || workspaceData.created_at),
-        settings: workspaceData.settings ? JSON.parse(workspaceData.settings) : {},
-        template: workspaceData.template
+        settings: parseWorkspaceSettings(workspaceData.settings),
+        template: workspaceData.template,
+        forkedFrom: workspaceData.forked_from ?? null
       };
 
       // Set this as current workspace and configure file system
-      this.currentWorkspaceId = workspace.id;
+      await this.selectWorkspace(workspace.id);
       fileSystemService.setWorkspaceId(workspace.id);
+      this.applyWorkspaceSettings(workspace);
 
       // Load the initial files created by the template
-      workspace.files = await fileSystemService.getAllFiles();
+      workspace.files = await fileSystemService.listFiles();
+      workspace.folders = await fileSystemService.getFolders();
 
       this.cache.set(workspace.id, workspace);
 
@@ -106,14 +130,16 @@ class WorkspaceService {
         vmId: null,
         createdAt: new Date(workspaceData.created_at),
         lastModified: new Date(workspaceData.last_modified || workspaceData.created_at),
-        settings: workspaceData.settings ? JSON.parse(workspaceData.settings) : {},
-        template: workspaceData.template
+        settings: parseWorkspaceSettings(workspaceData.settings),
+        template: workspaceData.template,
+        forkedFrom: workspaceData.forked_from ?? null
       };
 
       // Load files for this workspace
       const currentWorkspace = this.currentWorkspaceId;
       fileSystemService.setWorkspaceId(workspace.id);
-      workspace.files = await fileSystemService.getAllFiles();
+      workspace.files = await fileSystemService.listFiles();
+      workspace.folders = await fileSystemService.getFolders();
       
       // Restore previous workspace context if different
       if (currentWorkspace && currentWorkspace !== workspace.id) {
@@ -128,19 +154,61 @@ class WorkspaceService {
     }
   }
 
+  // Make a workspace current and move the realtime subscription to it, so
+  // only the current workspace's changes reach the file system service
+  private async selectWorkspace(workspaceId: string | null): Promise<void> {
+    this.currentWorkspaceId = workspaceId;
+    this.unsubscribeChanges?.();
+    this.unsubscribeChanges = workspaceId
+      ? await this.subscribeToWorkspaceChanges(workspaceId, change => fileSystemService.applyRemoteChange(change))
+      : null;
+  }
+
+  // Push per-workspace settings down to the services that enforce them
+  private applyWorkspaceSettings(workspace: Workspace): void {
+    fileSystemService.setRevisionRetention(workspace.settings?.revisionRetention);
+    fileSystemService.setTrashRetention(workspace.settings?.trashRetentionDays);
+    firecrackerService.setRunSettings(workspace.settings?.run);
+    codestralAI.setChatSettings(workspace.settings?.ai);
+    this.scheduleSnapshots(workspace);
+  }
+
+  // Scheduled snapshots are taken while the workspace is open; the server
+  // decides whether one is due and whether anything changed
+  private scheduleSnapshots(workspace: Workspace): void {
+    if (this.snapshotTimer) {
+      clearInterval(this.snapshotTimer);
+      this.snapshotTimer = null;
+    }
+
+    if (!hasSchedule(resolveSnapshotPolicy(workspace.settings))) return;
+
+    this.snapshotTimer = setInterval(() => {
+      if (workspace.id !== this.currentWorkspaceId) return;
+      this.runSnapshotPolicy(workspace.id, 'tick').catch(error => {
+        console.error('Error running snapshot policy:', error);
+      });
+    }, SNAPSHOT_POLICY_INTERVAL_MS);
+  }
+
   getCurrentWorkspace(): Workspace | undefined {
     return this.currentWorkspaceId ? this.cache.get(this.currentWorkspaceId) : undefined;
   }
 
   async setCurrentWorkspace(workspaceId: string): Promise<boolean> {
     try {
+      const wasCached = this.cache.has(workspaceId);
       const workspace = await this.getWorkspace(workspaceId);
       if (workspace) {
-        this.currentWorkspaceId = workspaceId;
+        await this.selectWorkspace(workspaceId);
         fileSystemService.setWorkspaceId(workspaceId);
+        this.applyWorkspaceSettings(workspace);
         
-        // Refresh files for the current workspace
-        workspace.files = await fileSystemService.getAllFiles();
+        // Refresh files for the current workspace, unless getWorkspace just listed them
+        if (wasCached) {
+          workspace.files = await fileSystemService.listFiles();
+          workspace.folders = await fileSystemService.getFolders();
+        }
         this.cache.set(workspaceId, workspace);
         
         console.log(`[Workspace] Switched to workspace "${workspace.name}"`);
@@ -179,8 +247,9 @@ class WorkspaceService {
         vmId: null,
         createdAt: new Date(ws.created_at),
         lastModified: new Date(ws.last_modified || ws.created_at),
-        settings: ws.settings ? JSON.parse(ws.settings) : {},
+        settings: parseWorkspaceSettings(ws.settings),
         template: ws.template,
+        forkedFrom: ws.forked_from ?? null,
         fileCount: ws.file_count || 0
       }));
 
@@ -218,7 +287,7 @@ class WorkspaceService {
       
       // Clear current workspace if it was deleted
       if (this.currentWorkspaceId === workspaceId) {
-        this.currentWorkspaceId = null;
+        await this.selectWorkspace(null);
         fileSystemService.clearCache();
       }
 
@@ -229,8 +298,13 @@ class WorkspaceService {
     }
   }
 
-  async updateWorkspace(workspaceId: string, updates: { name?: string; description?: string; settings?: any }): Promise<void> {
+  // Settings are validated here first, so a bad value never leaves the client
+  async updateWorkspace(workspaceId: string, updates: { name?: string; description?: string; settings?: WorkspaceSettings }): Promise<void> {
     try {
+      if (updates.settings) {
+        updates = { ...updates, settings: validateWorkspaceSettings(updates.settings) };
+      }
+
       const { data, error } = await supabase.functions.invoke('workspace-manager', {
         body: {
           action: 'updateWorkspace',
@@ -252,6 +326,10 @@ class WorkspaceService {
       if (cachedWorkspace) {
         Object.assign(cachedWorkspace, updates);
         cachedWorkspace.lastModified = new Date();
+
+        if (updates.settings && workspaceId === this.currentWorkspaceId) {
+          this.applyWorkspaceSettings(cachedWorkspace);
+        }
       }
 
       console.log(`[Workspace] Updated workspace ${workspaceId}`);
@@ -269,14 +347,54 @@ class WorkspaceService {
     }
   }
 
+  async addFolderToWorkspace(workspaceId: string, folder: FileNode): Promise<void> {
+    const workspace = this.cache.get(workspaceId);
+    if (workspace) {
+      workspace.folders = [...(workspace.folders || []), folder];
+      workspace.lastModified = new Date();
+    }
+  }
+
   async removeFileFromWorkspace(workspaceId: string, filePath: string): Promise<void> {
     const workspace = this.cache.get(workspaceId);
     if (workspace) {
       workspace.files = workspace.files.filter(f => f.path !== filePath);
+      workspace.folders = workspace.folders?.filter(f => !isSameOrDescendant(f.path, filePath));
+      workspace.lastModified = new Date();
+    }
+  }
+
+  // Put a trashed file or folder back and refresh the cached workspace's listing
+  async restoreFromTrash(workspaceId: string, itemId: string): Promise<FileNode[]> {
+    const restored = await fileSystemService.restoreFromTrash(itemId);
+
+    const workspace = this.cache.get(workspaceId);
+    if (workspace) {
+      workspace.files = await fileSystemService.listFiles();
+      workspace.folders = await fileSystemService.getFolders();
+      workspace.lastModified = new Date();
+    }
+    return restored;
+  }
+
+  // Keep cached workspace files in step with a move done through FileSystemService
+  async movePathInWorkspace(workspaceId: string, fromPath: string, toPath: string): Promise<void> {
+    const workspace = this.cache.get(workspaceId);
+    if (workspace) {
+      workspace.files = workspace.files.map(file => {
+        const newPath = remapPath(file.path, fromPath, toPath);
+        return newPath ? { ...file, path: newPath, name: basename(newPath) } : file;
+      });
+      workspace.folders = workspace.folders?.map(folder => {
+        const newPath = remapPath(folder.path, fromPath, toPath);
+        return newPath ? { ...folder, path: newPath, name: basename(newPath) } : folder;
+      });
       workspace.lastModified = new Date();
     }
   }
 
+  // The copy is made by the edge function in one transaction, including
+  // settings and stored binary files; the current workspace stays as it is
   async cloneWorkspace(workspaceId: string, newName: string): Promise<Workspace> {
     try {
       const sourceWorkspace = await this.getWorkspace(workspaceId);
@@ -284,38 +402,27 @@ class WorkspaceService {
         throw new Error('Source workspace not found');
       }
 
-      // Create new workspace
-      const newWorkspace = await this.createWorkspace(
-        newName,
-        `Cloned from ${sourceWorkspace.name}`,
-        sourceWorkspace.template || 'blank'
-      );
-
-      // Copy all files from source workspace
-      const previousWorkspace = this.currentWorkspaceId;
-      fileSystemService.setWorkspaceId(workspaceId);
-      const sourceFiles = await fileSystemService.getAllFiles();
-      
-      fileSystemService.setWorkspaceId(newWorkspace.id);
-      
-      for (const file of sourceFiles) {
-        if (file.type === 'file') {
-          await fileSystemService.createFile(
-            file.name,
-            file.path,
-            file.content || '',
-            file.language
-          );
+      const { data, error } = await supabase.functions.invoke('workspace-manager', {
+        body: {
+          action: 'cloneWorkspace',
+          workspaceId,
+          name: newName,
+          description: `Cloned from ${sourceWorkspace.name}`
         }
+      });
+
+      if (error) {
+        throw new Error(`Failed to clone workspace: ${await functionErrorMessage(error)}`);
       }
 
-      // Restore previous workspace context
-      if (previousWorkspace) {
-        fileSystemService.setWorkspaceId(previousWorkspace);
+      if (data?.error) {
+        throw new Error(data.error.message);
       }
 
-      // Refresh files in new workspace
-      newWorkspace.files = await fileSystemService.getAllFiles();
+      const newWorkspace = await this.getWorkspace(data.data.workspaceId);
+      if (!newWorkspace) {
+        throw new Error('Cloned workspace not found');
+      }
 
       console.log(`[Workspace] Cloned workspace "${sourceWorkspace.name}" to "${newName}"`);
       return newWorkspace;
@@ -325,18 +432,59 @@ class WorkspaceService {
     }
   }
 
+  // A new workspace with a snapshot's files and settings; the snapshot's
+  // workspace and the current workspace stay as they are
+  async forkSnapshot(workspaceId: string, snapshotId: string, newName: string): Promise<Workspace> {
+    try {
+      const { data, error } = await supabase.functions.invoke('workspace-manager', {
+        body: {
+          action: 'forkSnapshot',
+          workspaceId,
+          snapshotId,
+          name: newName
+        }
+      });
+
+      if (error) {
+        throw new Error(`Failed to fork snapshot: ${await functionErrorMessage(error)}`);
+      }
+
+      if (data?.error) {
+        throw new Error(data.error.message);
+      }
+
+      const newWorkspace = await this.getWorkspace(data.data.workspaceId);
+      if (!newWorkspace) {
+        throw new Error('Forked workspace not found');
+      }
+
+      console.log(`[Workspace] Forked snapshot ${snapshotId} to "${newName}"`);
+      return newWorkspace;
+    } catch (error) {
+      console.error('Error forking snapshot:', error);
+      throw error;
+    }
+  }
+
+  // Ignored files are left out of the snapshot, and left alone when it is restored
   async snapshotWorkspace(workspaceId: string, name?: string): Promise<string> {
     try {
+      // Ignore rules are only loaded for the current workspace
+      const excludePaths = workspaceId === this.currentWorkspaceId
+        ? await fileSystemService.getIgnoredPaths()
+        : [];
+
       const { data, error } = await supabase.functions.invoke('workspace-manager', {
         body: {
           action: 'createSnapshot',
           workspaceId,
-          name: name || `Snapshot ${new Date().toLocaleString()}`
+          name: name || `Snapshot ${new Date().toLocaleString()}`,
+          excludePaths
         }
       });
 
       if (error) {
-        throw new Error(`Failed to create snapshot: ${error.message}`);
+        throw new Error(`Failed to create snapshot: ${await functionErrorMessage(error)}`);
       }
 
       if (data?.error) {
@@ -351,7 +499,7 @@ class WorkspaceService {
     }
   }
 
-  async listSnapshots(workspaceId: string): Promise<Array<{ id: string; name: string; createdAt: Date; size: number }>> {
+  async listSnapshots(workspaceId: string): Promise<SnapshotSummary[]> {
     try {
       const { data, error } = await supabase.functions.invoke('workspace-manager', {
         body: {
@@ -372,7 +520,9 @@ class WorkspaceService {
         id: snapshot.id,
         name: snapshot.name,
         createdAt: new Date(snapshot.createdAt),
-        size: snapshot.size || 0
+        size: snapshot.size || 0,
+        trigger: snapshot.trigger || 'manual',
+        automatic: isAutomaticTrigger(snapshot.trigger || 'manual')
       }));
     } catch (error) {
       console.error('Error listing snapshots:', error);
@@ -380,40 +530,173 @@ class WorkspaceService {
     }
   }
 
-  async restoreSnapshot(workspaceId: string, snapshotId: string): Promise<void> {
+  // Takes the snapshot the workspace's policy asks for, if any, and prunes
+  // automatic snapshots past its retention. `multi-file-edit` is sent right
+  // before an edit that touches several files.
+  async runSnapshotPolicy(workspaceId: string, event: 'tick' | 'multi-file-edit'): Promise<string | null> {
+    const excludePaths = workspaceId === this.currentWorkspaceId
+      ? await fileSystemService.getIgnoredPaths()
+      : [];
+
+    const { data, error } = await supabase.functions.invoke('workspace-manager', {
+      body: {
+        action: 'runSnapshotPolicy',
+        workspaceId,
+        event,
+        excludePaths
+      }
+    });
+
+    if (error) {
+      throw new Error(`Failed to run snapshot policy: ${await functionErrorMessage(error)}`);
+    }
+
+    if (data?.error) {
+      throw new Error(data.error.message);
+    }
+
+    if (data.data.skipped) {
+      console.warn(`[Workspace] Skipped automatic snapshot: ${data.data.skipped}`);
+    }
+    if (data.data.snapshotId) {
+      console.log(`[Workspace] Took ${data.data.trigger} snapshot for workspace ${workspaceId}`);
+    }
+    return data.data.snapshotId;
+  }
+
+  // Called before an AI edit or replace writes several files. Waits for the
+  // snapshot, when the policy asks for one, but never blocks the edit.
+  async beforeMultiFileEdit(): Promise<void> {
+    const workspace = this.getCurrentWorkspace();
+    if (!workspace || !resolveSnapshotPolicy(workspace.settings).beforeMultiFileEdits) return;
+
     try {
+      await this.runSnapshotPolicy(workspace.id, 'multi-file-edit');
+    } catch (error) {
+      console.error('Error taking snapshot before edit:', error);
+    }
+  }
+
+  // Restores atomically, after a safety snapshot of the workspace as it is
+  // now. With `paths`, only those files and folders are brought back.
+  async restoreSnapshot(workspaceId: string, snapshotId: string, paths?: string[]): Promise<SnapshotRestoreResult> {
+    try {
+      const excludePaths = workspaceId === this.currentWorkspaceId
+        ? await fileSystemService.getIgnoredPaths()
+        : [];
+
       const { data, error } = await supabase.functions.invoke('workspace-manager', {
         body: {
           action: 'restoreSnapshot',
           workspaceId,
-          snapshotId
+          snapshotId,
+          paths,
+          excludePaths
         }
       });
 
       if (error) {
-        throw new Error(`Failed to restore snapshot: ${error.message}`);
+        throw new Error(`Failed to restore snapshot: ${await functionErrorMessage(error)}`);
       }
 
       if (data?.error) {
         throw new Error(data.error.message);
       }
 
-      // Clear cache and reload workspace
+      // Files keep their ids through a restore, so open tabs reload in
+      // place; only tabs of files the restore removed close
       this.cache.delete(workspaceId);
       if (this.currentWorkspaceId === workspaceId) {
-        fileSystemService.clearCache();
+        await fileSystemService.reloadPaths(paths ?? null);
+        if (!paths) {
+          fileSystemService.clearCache();
+        }
         await this.setCurrentWorkspace(workspaceId);
       }
 
       console.log(`[Workspace] Restored snapshot ${snapshotId} for workspace ${workspaceId}`);
+      return {
+        restoredFiles: data.data.restoredFiles,
+        restoredFolders: data.data.restoredFolders,
+        skippedPaths: data.data.skippedPaths || [],
+        safetySnapshotId: data.data.safetySnapshotId
+      };
     } catch (error) {
       console.error('Error restoring snapshot:', error);
       throw error;
     }
   }
 
+  async listSnapshotFiles(workspaceId: string, snapshotId: string): Promise<SnapshotContents> {
+    const { data, error } = await supabase.functions.invoke('workspace-manager', {
+      body: {
+        action: 'listSnapshotFiles',
+        workspaceId,
+        snapshotId
+      }
+    });
+
+    if (error) {
+      throw new Error(`Failed to read snapshot: ${await functionErrorMessage(error)}`);
+    }
+
+    if (data?.error) {
+      throw new Error(data.error.message);
+    }
+
+    return data.data;
+  }
+
+  // What changed from snapshot `from` to snapshot `to`, or to the live
+  // workspace when `to` is null
+  async diffSnapshots(workspaceId: string, from: string, to: string | null): Promise<SnapshotDiff> {
+    const { data, error } = await supabase.functions.invoke('workspace-manager', {
+      body: {
+        action: 'diffSnapshots',
+        workspaceId,
+        from,
+        to
+      }
+    });
+
+    if (error) {
+      throw new Error(`Failed to compare snapshots: ${await functionErrorMessage(error)}`);
+    }
+
+    if (data?.error) {
+      throw new Error(data.error.message);
+    }
+
+    return data.data;
+  }
+
+  async diffSnapshotFile(workspaceId: string, from: string, to: string | null, path: string): Promise<SnapshotFileDiff> {
+    const { data, error } = await supabase.functions.invoke('workspace-manager', {
+      body: {
+        action: 'diffSnapshotFile',
+        workspaceId,
+        from,
+        to,
+        path
+      }
+    });
+
+    if (error) {
+      throw new Error(`Failed to compare ${path}: ${await functionErrorMessage(error)}`);
+    }
+
+    if (data?.error) {
+      throw new Error(data.error.message);
+    }
+
+    return data.data;
+  }
+
   // Real-time workspace collaboration
-  async subscribeToWorkspaceChanges(workspaceId: string, callback: (change: any) => void): Promise<() => void> {
+  async subscribeToWorkspaceChanges(
+    workspaceId: string,
+    callback: (change: RealtimePostgresChangesPayload<FileRecord | FolderRecord>) => void
+  ): Promise<() => void> {
     const channel = supabase
       .channel(`workspace-${workspaceId}`)
       .on('postgres_changes', {
@@ -422,6 +705,12 @@ class WorkspaceService {
         table: 'files',
         filter: `workspace_id=eq.${workspaceId}`
       }, callback)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'folders',
+        filter: `workspace_id=eq.${workspaceId}`
+      }, callback)
       .subscribe();
 
     // Return unsubscribe function
@@ -462,7 +751,8 @@ class WorkspaceService {
       await fileSystemService.importWorkspace(workspaceData);
       
       // Refresh workspace files
-      workspace.files = await fileSystemService.getAllFiles();
+      workspace.files = await fileSystemService.listFiles();
+      workspace.folders = await fileSystemService.getFolders();
       this.cache.set(workspace.id, workspace);
 
       console.log(`[Workspace] Imported workspace "${name}"`);
@@ -473,12 +763,79 @@ class WorkspaceService {
     }
   }
 
-  // Get workspace statistics
+  async exportWorkspaceArchive(workspaceId: string, folderPath: string = ''): Promise<Blob> {
+    try {
+      const previousWorkspace = this.currentWorkspaceId;
+      fileSystemService.setWorkspaceId(workspaceId);
+      try {
+        return await fileSystemService.exportArchive(folderPath);
+      } finally {
+        if (previousWorkspace && previousWorkspace !== workspaceId) {
+          fileSystemService.setWorkspaceId(previousWorkspace);
+        }
+      }
+    } catch (error) {
+      console.error('Error exporting workspace archive:', error);
+      throw error;
+    }
+  }
+
+  async importWorkspaceArchive(archive: Blob, name: string): Promise<{ workspace: Workspace; result: ArchiveImportResult }> {
+    try {
+      // Create new workspace
+      const workspace = await this.createWorkspace(name, 'Imported from archive', 'blank');
+
+      const result = await fileSystemService.importArchive(archive);
+
+      // Refresh workspace files
+      workspace.files = await fileSystemService.listFiles();
+      workspace.folders = await fileSystemService.getFolders();
+      this.cache.set(workspace.id, workspace);
+
+      console.log(`[Workspace] Imported archive into "${name}" (${result.failed.length} failed)`);
+      return { workspace, result };
+    } catch (error) {
+      console.error('Error importing workspace archive:', error);
+      throw error;
+    }
+  }
+
+  // Usage the server keeps track of: storage across all workspaces and
+  // snapshots, with the limits that apply
+  async getUsage(workspaceId: string): Promise<{
+    quotas: Quotas;
+    workspaceCount: number;
+    userBytes: number;
+    snapshotCount: number;
+    snapshotBytes: number;
+  }> {
+    const { data, error } = await supabase.functions.invoke('workspace-manager', {
+      body: {
+        action: 'getUsage',
+        workspaceId
+      }
+    });
+
+    if (error) {
+      throw new Error(`Failed to get usage: ${await functionErrorMessage(error)}`);
+    }
+
+    if (data?.error) {
+      throw new Error(data.error.message);
+    }
+
+    return data.data;
+  }
+
+  // Get workspace statistics. Ignored files are counted separately.
   async getWorkspaceStats(workspaceId: string): Promise<{
     fileCount: number;
+    ignoredFileCount: number;
     totalSize: number;
     lastActivity: Date;
     languages: string[];
+    usage: WorkspaceUsage;
+    quotas: Quotas;
   }> {
     try {
       const workspace = await this.getWorkspace(workspaceId);
@@ -486,23 +843,61 @@ class WorkspaceService {
         throw new Error('Workspace not found');
       }
 
-      const files = workspace.files;
+      const server = await this.getUsage(workspaceId).catch(error => {
+        console.warn('Error getting usage:', error);
+        return null;
+      });
+      // Sizes in the cached workspace go stale as files are saved
+      const allFiles = workspaceId === this.currentWorkspaceId
+        ? await fileSystemService.listFiles()
+        : workspace.files;
+      const assets = allFiles.filter(f => f.storagePath);
+      const usage: WorkspaceUsage = {
+        fileCount: allFiles.length,
+        bytes: allFiles.reduce((sum, f) => sum + (f.size || 0), 0),
+        assetCount: assets.length,
+        assetBytes: assets.reduce((sum, f) => sum + (f.size || 0), 0),
+        snapshotCount: server?.snapshotCount ?? 0,
+        snapshotBytes: server?.snapshotBytes ?? 0,
+        workspaceCount: server?.workspaceCount ?? 0,
+        userBytes: server?.userBytes ?? 0
+      };
+
+      // Ignore rules are only loaded for the current workspace
+      const files = workspaceId === this.currentWorkspaceId
+        ? await fileSystemService.withoutIgnored(workspace.files)
+        : workspace.files;
       const languages = Array.from(new Set(files.map(f => f.language).filter(Boolean)));
       const totalSize = files.reduce((sum, f) => sum + (f.size || 0), 0);
 
       return {
         fileCount: files.length,
+        ignoredFileCount: workspace.files.length - files.length,
         totalSize,
         lastActivity: workspace.lastModified,
-        languages
+        languages,
+        usage,
+        quotas: server?.quotas ?? await fileSystemService.getQuotas()
       };
     } catch (error) {
       console.error('Error getting workspace stats:', error);
       return {
         fileCount: 0,
+        ignoredFileCount: 0,
         totalSize: 0,
         lastActivity: new Date(),
-        languages: []
+        languages: [],
+        usage: {
+          fileCount: 0,
+          bytes: 0,
+          assetCount: 0,
+          assetBytes: 0,
+          snapshotCount: 0,
+          snapshotBytes: 0,
+          workspaceCount: 0,
+          userBytes: 0
+        },
+        quotas: await fileSystemService.getQuotas()
       };
     }
   }
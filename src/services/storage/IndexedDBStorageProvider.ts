@@ -0,0 +1,373 @@
+import { byteLength } from '@/lib/encoding';
+import { isSameOrDescendant, remapPath } from '@/lib/paths';
+import { LocalRecord, LocalStorageProvider, LocalTable } from './LocalStorageProvider';
+import { FileRecord, FileRevisionRecord, FileStorageProvider, FolderRecord, TrashRecord } from './types';
+import { StaleRevisionError } from './errors';
+
+const DB_NAME = 'codestral-ide';
+const DB_VERSION = 4;
+const PENDING_STORE = 'pending_changes';
+const STORES: string[] = ['files', 'file_revisions', 'folders', 'trash_items', PENDING_STORE];
+
+interface PendingChange extends LocalRecord {
+  path: string;
+  // Changes without a kind are file changes
+  kind?: 'folder';
+  op: 'upsert' | 'delete' | 'trash' | 'move';
+  queued_at: string;
+  // Where a move came from; its path is where it went
+  from_path?: string;
+  // Remote revision the first offline edit started from
+  base_revision?: number;
+  // Local trash item of a trash move, whose copies are pushed with it
+  trash_item_id?: string;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Local-first provider backed by IndexedDB. Every mutation is journaled so the
+ * workspace can be pushed back to a remote provider once the connection returns.
+ */
+export class IndexedDBStorageProvider extends LocalStorageProvider {
+  readonly kind = 'indexeddb' as const;
+
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          STORES.forEach(name => {
+            if (!db.objectStoreNames.contains(name)) {
+              const store = db.createObjectStore(name, { keyPath: 'id' });
+              store.createIndex('workspace_id', 'workspace_id');
+            }
+          });
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async store(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  protected async getAll<T extends LocalRecord>(table: LocalTable | typeof PENDING_STORE, workspaceId: string): Promise<T[]> {
+    const store = await this.store(table, 'readonly');
+    return promisify(store.index('workspace_id').getAll(workspaceId)) as Promise<T[]>;
+  }
+
+  protected async put<T extends LocalRecord>(table: LocalTable | typeof PENDING_STORE, record: T): Promise<void> {
+    const store = await this.store(table, 'readwrite');
+    await promisify(store.put(record));
+  }
+
+  protected async remove(table: LocalTable | typeof PENDING_STORE, id: string): Promise<void> {
+    const store = await this.store(table, 'readwrite');
+    await promisify(store.delete(id));
+  }
+
+  protected async recordChange(workspaceId: string, path: string, op: 'upsert' | 'delete', baseRevision?: number): Promise<void> {
+    const id = `${workspaceId}:${path}`;
+    const existing = (await this.getAll<PendingChange>(PENDING_STORE, workspaceId)).find(change => change.id === id);
+    const change: PendingChange = {
+      id,
+      workspace_id: workspaceId,
+      path,
+      op,
+      queued_at: new Date().toISOString(),
+      base_revision: existing ? existing.base_revision : baseRevision
+    };
+    await this.put(PENDING_STORE, change);
+  }
+
+  protected async recordFolderChange(workspaceId: string, path: string, op: 'upsert' | 'delete'): Promise<void> {
+    const change: PendingChange = {
+      id: `${workspaceId}:folder:${path}`,
+      workspace_id: workspaceId,
+      path,
+      kind: 'folder',
+      op,
+      queued_at: new Date().toISOString()
+    };
+    await this.put(PENDING_STORE, change);
+  }
+
+  // Journaled under the trash item, so a later change at the same path
+  // doesn't replace it
+  protected async recordTrash(item: TrashRecord): Promise<void> {
+    const change: PendingChange = {
+      id: `${item.workspace_id}:trash:${item.id}`,
+      workspace_id: item.workspace_id,
+      path: item.path,
+      op: 'trash',
+      queued_at: new Date().toISOString(),
+      trash_item_id: item.id
+    };
+    await this.put(PENDING_STORE, change);
+  }
+
+  // Journaled as one move, so the remote moves the rows and they keep their
+  // ids and history. Pending upserts under the old path follow the move and
+  // are queued with it, after it; a pending delete at their new path keeps
+  // an entry of its own, since it has to be replayed before the move.
+  protected async recordMove(workspaceId: string, fromPath: string, toPath: string): Promise<void> {
+    const pending = await this.getAll<PendingChange>(PENDING_STORE, workspaceId);
+    const queuedAt = new Date().toISOString();
+    const move: PendingChange = {
+      id: `${workspaceId}:move:${crypto.randomUUID()}`,
+      workspace_id: workspaceId,
+      path: toPath,
+      from_path: fromPath,
+      op: 'move',
+      queued_at: queuedAt
+    };
+    await this.put(PENDING_STORE, move);
+
+    for (const change of pending) {
+      const path = change.op === 'upsert' ? remapPath(change.path, fromPath, toPath) : null;
+      if (!path) {
+        continue;
+      }
+
+      const id = change.kind === 'folder' ? `${workspaceId}:folder:${path}` : `${workspaceId}:${path}`;
+      const replaced = pending.find(other => other.id === id);
+      if (replaced?.op === 'delete') {
+        await this.put(PENDING_STORE, { ...replaced, id: `${replaced.id}:${replaced.queued_at}` });
+      }
+      await this.remove(PENDING_STORE, change.id);
+      await this.put(PENDING_STORE, { ...change, id, path, queued_at: queuedAt });
+    }
+  }
+
+  // Push an offline edit. If the remote file moved on while we were offline the
+  // remote copy wins, and the offline content is kept in its revision history.
+  private async pushContent(
+    remote: FileStorageProvider,
+    change: PendingChange,
+    local: FileRecord,
+    existing: FileRecord
+  ): Promise<void> {
+    try {
+      const saved = await remote.saveFile(local.workspace_id, change.path, local.content, change.base_revision ?? existing.revision);
+      await this.put('files', { ...saved, id: local.id });
+    } catch (error) {
+      if (!(error instanceof StaleRevisionError)) {
+        throw error;
+      }
+
+      await remote.insertRevision({
+        workspace_id: local.workspace_id,
+        file_id: existing.id,
+        path: change.path,
+        content: local.content,
+        size_bytes: byteLength(local.content)
+      });
+      await this.put('files', { ...error.current, id: local.id });
+      console.warn(`[Storage] ${change.path} changed remotely while offline; offline copy saved to its history`);
+    }
+  }
+
+  // Push an offline folder change. Only journaled changes are replayed, so
+  // a folder the remote has but this copy doesn't is left alone.
+  private async pushFolder(remote: FileStorageProvider, change: PendingChange): Promise<void> {
+    if (change.op === 'delete') {
+      await remote.deleteFolder(change.workspace_id, change.path);
+      return;
+    }
+
+    const local = (await this.listFolders(change.workspace_id)).find(folder => folder.path === change.path);
+    if (!local) {
+      return;
+    }
+
+    const existing = (await remote.listFolders(change.workspace_id)).find(folder => folder.path === change.path);
+    if (!existing) {
+      await remote.insertFolder({
+        workspace_id: change.workspace_id,
+        path: local.path,
+        description: local.description,
+        is_collapsed: local.is_collapsed
+      });
+    } else if (existing.description !== local.description || existing.is_collapsed !== local.is_collapsed) {
+      await remote.updateFolder(change.workspace_id, local.path, {
+        description: local.description,
+        is_collapsed: local.is_collapsed,
+        updated_at: local.updated_at
+      });
+    }
+  }
+
+  // Push an offline trash move with the copies it took, which may hold edits
+  // the remote never saw. If the item was purged or restored since, the
+  // remote rows still go, in an item that expires right away; restored
+  // files follow as their own changes.
+  private async pushTrash(remote: FileStorageProvider, change: PendingChange): Promise<void> {
+    const item = change.trash_item_id ? await this.getTrashItem(change.workspace_id, change.trash_item_id) : null;
+    if (!item) {
+      await remote.trashPath(change.workspace_id, change.path, new Date().toISOString());
+      return;
+    }
+
+    const pushed = await remote.trashPath(change.workspace_id, change.path, item.expires_at, {
+      item_type: item.item_type,
+      files: item.files,
+      folders: item.folders
+    });
+    await this.remove('trash_items', item.id);
+    await this.put('trash_items', pushed);
+  }
+
+  async getPendingChangeCount(workspaceId: string): Promise<number> {
+    const pending = await this.getAll<PendingChange>(PENDING_STORE, workspaceId);
+    return pending.length;
+  }
+
+  // Copy a workspace from another provider so it can be edited offline,
+  // with its revision history and trash. Local edits and trash moves that
+  // have not been synced yet win over the source copy.
+  async hydrateFrom(source: FileStorageProvider, workspaceId: string): Promise<number> {
+    const files = await source.listFiles(workspaceId);
+    const changes = await this.getAll<PendingChange>(PENDING_STORE, workspaceId);
+    // Paths a pending trash move or move took away from, or a move brought
+    // entries to
+    const isMoved = (path: string) => changes.some(change =>
+      (change.op === 'trash' || change.op === 'move') && isSameOrDescendant(path, change.path)
+      || change.op === 'move' && isSameOrDescendant(path, change.from_path)
+    );
+    const isPending = (path: string) => isMoved(path) || changes.some(change =>
+      !change.kind && (change.op === 'upsert' || change.op === 'delete') && change.path === path
+    );
+    const isPendingFolder = (path: string) => isMoved(path) || changes.some(change =>
+      change.kind === 'folder' && (change.op === 'delete' ? isSameOrDescendant(path, change.path) : change.path === path)
+    );
+
+    const local = await this.getAll<LocalRecord & { path: string }>('files', workspaceId);
+    for (const record of local) {
+      if (!isPending(record.path)) {
+        await this.remove('files', record.id);
+      }
+    }
+
+    const incoming = files.filter(file => !isPending(file.path));
+    for (const file of incoming) {
+      await this.put('files', file);
+    }
+
+    // Revisions of files with unsynced edits stay as they are
+    const kept = new Set(local.filter(record => isPending(record.path)).map(record => record.id));
+    for (const revision of await this.getAll<FileRevisionRecord>('file_revisions', workspaceId)) {
+      if (!kept.has(revision.file_id)) {
+        await this.remove('file_revisions', revision.id);
+      }
+    }
+    for (const file of incoming) {
+      for (const revision of await source.listRevisions(workspaceId, file.id)) {
+        await this.put('file_revisions', revision);
+      }
+    }
+
+    const pendingTrash = new Set(changes.map(change => change.trash_item_id).filter(Boolean));
+    for (const item of await this.getAll<TrashRecord>('trash_items', workspaceId)) {
+      if (!pendingTrash.has(item.id)) {
+        await this.remove('trash_items', item.id);
+      }
+    }
+    for (const item of await source.listTrashItems(workspaceId)) {
+      await this.put('trash_items', item);
+    }
+
+    const localFolders = await this.getAll<FolderRecord>('folders', workspaceId);
+    for (const folder of localFolders) {
+      if (!isPendingFolder(folder.path)) {
+        await this.remove('folders', folder.id);
+      }
+    }
+    for (const folder of await source.listFolders(workspaceId)) {
+      if (!isPendingFolder(folder.path)) {
+        await this.put('folders', folder);
+      }
+    }
+
+    return incoming.length;
+  }
+
+  // Replay journaled changes against the remote provider. Changes that fail
+  // stay queued for the next attempt.
+  async syncTo(remote: FileStorageProvider, workspaceId: string): Promise<number> {
+    const pending = await this.getAll<PendingChange>(PENDING_STORE, workspaceId);
+    // A move goes before the changes that followed it to the new path
+    pending.sort((a, b) => a.queued_at.localeCompare(b.queued_at) || Number(b.op === 'move') - Number(a.op === 'move'));
+
+    let synced = 0;
+    for (const change of pending) {
+      try {
+        if (change.kind === 'folder') {
+          await this.pushFolder(remote, change);
+        } else if (change.op === 'trash') {
+          await this.pushTrash(remote, change);
+        } else if (change.op === 'move') {
+          // Entries created offline aren't on the remote yet; their own
+          // upserts add them at the new path
+          await remote.movePath(workspaceId, change.from_path, change.path);
+        } else if (change.op === 'delete') {
+          await remote.deleteFile(workspaceId, change.path);
+        } else {
+          const local = await this.getFile(workspaceId, change.path);
+          if (local) {
+            const existing = await remote.getFile(workspaceId, change.path);
+            if (existing) {
+              // Before the content, whose saved record replaces the local one
+              const metadata = {
+                encoding: local.encoding ?? existing.encoding,
+                line_ending: local.line_ending ?? existing.line_ending,
+                read_only: local.read_only ?? existing.read_only
+              };
+              if (metadata.encoding !== existing.encoding
+                || metadata.line_ending !== existing.line_ending
+                || metadata.read_only !== existing.read_only) {
+                await remote.updateFile(workspaceId, local.path, metadata);
+              }
+              await this.pushContent(remote, change, local, existing);
+            } else {
+              await remote.insertFile({
+                workspace_id: workspaceId,
+                path: local.path,
+                content: local.content,
+                file_type: local.file_type,
+                size_bytes: local.size_bytes,
+                storage_path: local.storage_path,
+                encoding: local.encoding,
+                line_ending: local.line_ending
+              });
+            }
+          }
+        }
+
+        await this.remove(PENDING_STORE, change.id);
+        synced++;
+      } catch (error) {
+        console.warn(`[Storage] Failed to sync ${change.path}:`, error);
+      }
+    }
+
+    return synced;
+  }
+}
@@ -0,0 +1,396 @@
+import { PathMove } from '@/types';
+import { byteLength } from '@/lib/encoding';
+import { isSameOrDescendant, remapPath } from '@/lib/paths';
+import {
+  FileMetadataRecord,
+  FileRecord,
+  FileRecordChanges,
+  FileRevisionMetadataRecord,
+  FileRevisionRecord,
+  FileStorageProvider,
+  FolderRecord,
+  FolderRecordChanges,
+  NewFileRecord,
+  NewFileRevisionRecord,
+  NewFolderRecord,
+  NewTrashRecord,
+  RestoredTrashRecords,
+  StorageProviderKind,
+  TrashContents,
+  TrashRecord,
+} from './types';
+import { StaleRevisionError } from './errors';
+
+export type LocalTable = 'files' | 'file_revisions' | 'folders' | 'trash_items';
+
+export interface LocalRecord {
+  id: string;
+  workspace_id: string;
+}
+
+/**
+ * Shared implementation for the browser-side providers. Subclasses only supply
+ * per-table record access; query semantics live here so IndexedDB and
+ * in-memory storage behave identically.
+ */
+export abstract class LocalStorageProvider implements FileStorageProvider {
+  abstract readonly kind: StorageProviderKind;
+
+  protected abstract getAll<T extends LocalRecord>(table: LocalTable, workspaceId: string): Promise<T[]>;
+  protected abstract put<T extends LocalRecord>(table: LocalTable, record: T): Promise<void>;
+  protected abstract remove(table: LocalTable, id: string): Promise<void>;
+
+  // Called after every file mutation; providers that sync remotely journal it.
+  // Content saves pass the revision they replaced.
+  protected async recordChange(_workspaceId: string, _path: string, _op: 'upsert' | 'delete', _baseRevision?: number): Promise<void> {}
+
+  // Called after every folder record mutation. A deleted folder takes the
+  // folders beneath it along, locally and when the delete is replayed.
+  protected async recordFolderChange(_workspaceId: string, _path: string, _op: 'upsert' | 'delete'): Promise<void> {}
+
+  // Called after a path was moved to the trash, instead of recordChange and
+  // recordFolderChange for each file and folder it took along
+  protected async recordTrash(_item: TrashRecord): Promise<void> {}
+
+  // Called after a file or folder was moved, instead of recordChange and
+  // recordFolderChange for each file and folder that moved with it
+  protected async recordMove(_workspaceId: string, _fromPath: string, _toPath: string): Promise<void> {}
+
+  async listFiles(workspaceId: string): Promise<FileRecord[]> {
+    const files = await this.getAll<FileRecord>('files', workspaceId);
+    return files.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  async listFileMetadata(workspaceId: string): Promise<FileMetadataRecord[]> {
+    const files = await this.listFiles(workspaceId);
+    return files.map(({ content, ...metadata }) => metadata);
+  }
+
+  async getFile(workspaceId: string, path: string): Promise<FileRecord | null> {
+    const files = await this.getAll<FileRecord>('files', workspaceId);
+    return files.find(file => file.path === path) || null;
+  }
+
+  async insertFile(record: NewFileRecord): Promise<FileRecord> {
+    if (await this.getFile(record.workspace_id, record.path)) {
+      throw new Error(`Failed to create file: ${record.path} already exists`);
+    }
+
+    const now = new Date().toISOString();
+    const file: FileRecord = {
+      ...record,
+      storage_path: record.storage_path ?? null,
+      encoding: record.encoding ?? 'utf-8',
+      line_ending: record.line_ending ?? 'lf',
+      read_only: false,
+      locked_by: null,
+      locked_by_name: null,
+      lock_expires_at: null,
+      id: crypto.randomUUID(),
+      revision: 1,
+      created_at: now,
+      updated_at: now
+    };
+
+    await this.put('files', file);
+    await this.recordChange(file.workspace_id, file.path, 'upsert');
+    return file;
+  }
+
+  async updateFile(workspaceId: string, path: string, changes: FileRecordChanges): Promise<void> {
+    const file = await this.getFile(workspaceId, path);
+    if (!file) {
+      return;
+    }
+
+    const updated: FileRecord = { ...file, ...changes };
+    await this.put('files', updated);
+
+    if (updated.path !== path) {
+      await this.recordMove(workspaceId, path, updated.path);
+    }
+    await this.recordChange(workspaceId, updated.path, 'upsert');
+  }
+
+  async saveFile(workspaceId: string, path: string, content: string, baseRevision: number): Promise<FileRecord> {
+    const file = await this.getFile(workspaceId, path);
+    if (!file) {
+      throw new Error(`Failed to save file: ${path} no longer exists`);
+    }
+
+    const revision = file.revision ?? 1;
+    if (revision !== baseRevision) {
+      throw new StaleRevisionError(path, { ...file, revision });
+    }
+
+    const updated: FileRecord = {
+      ...file,
+      content,
+      size_bytes: byteLength(content),
+      revision: revision + 1,
+      updated_at: new Date().toISOString()
+    };
+    await this.put('files', updated);
+    await this.recordChange(workspaceId, path, 'upsert', baseRevision);
+    return updated;
+  }
+
+  async deleteFile(workspaceId: string, path: string): Promise<void> {
+    const file = await this.getFile(workspaceId, path);
+    if (!file) {
+      return;
+    }
+
+    await this.removeFile(file);
+    await this.recordChange(workspaceId, path, 'delete');
+  }
+
+  // The file and its revisions, without journaling
+  private async removeFile(file: FileRecord): Promise<void> {
+    await this.remove('files', file.id);
+
+    const revisions = await this.listRevisions(file.workspace_id, file.id);
+    await this.deleteRevisions(file.workspace_id, revisions.map(revision => revision.id));
+  }
+
+  async searchFiles(workspaceId: string, query: string): Promise<FileRecord[]> {
+    const needle = query.toLowerCase();
+    const files = await this.listFiles(workspaceId);
+    return files.filter(file =>
+      file.path.toLowerCase().includes(needle) ||
+      (file.content || '').toLowerCase().includes(needle)
+    );
+  }
+
+  async movePath(workspaceId: string, fromPath: string, toPath: string): Promise<PathMove[]> {
+    if (isSameOrDescendant(toPath, fromPath)) {
+      throw new Error(`Cannot move ${fromPath} into itself`);
+    }
+
+    const files = await this.listFiles(workspaceId);
+    const folders = await this.listFolders(workspaceId);
+    if ([...files, ...folders].some(entry => isSameOrDescendant(entry.path, toPath))) {
+      throw new Error(`Destination ${toPath} already exists`);
+    }
+
+    const now = new Date().toISOString();
+    const moves: PathMove[] = [];
+
+    for (const folder of folders) {
+      const newPath = remapPath(folder.path, fromPath, toPath);
+      if (newPath) {
+        await this.put('folders', { ...folder, path: newPath, updated_at: now });
+        moves.push({ from: folder.path, to: newPath });
+      }
+    }
+
+    for (const file of files) {
+      const newPath = remapPath(file.path, fromPath, toPath);
+      if (newPath) {
+        await this.put('files', { ...file, path: newPath, updated_at: now });
+        moves.push({ from: file.path, to: newPath });
+      }
+    }
+
+    if (moves.length > 0) {
+      await this.recordMove(workspaceId, fromPath, toPath);
+    }
+    return moves;
+  }
+
+  async listFolders(workspaceId: string): Promise<FolderRecord[]> {
+    const folders = await this.getAll<FolderRecord>('folders', workspaceId);
+    return folders.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  async insertFolder(record: NewFolderRecord): Promise<FolderRecord> {
+    const folders = await this.listFolders(record.workspace_id);
+    if (folders.some(folder => folder.path === record.path)) {
+      throw new Error(`Failed to create folder: ${record.path} already exists`);
+    }
+
+    const now = new Date().toISOString();
+    const folder: FolderRecord = {
+      ...record,
+      id: crypto.randomUUID(),
+      created_at: now,
+      updated_at: now
+    };
+
+    await this.put('folders', folder);
+    await this.recordFolderChange(folder.workspace_id, folder.path, 'upsert');
+    return folder;
+  }
+
+  async updateFolder(workspaceId: string, path: string, changes: FolderRecordChanges): Promise<void> {
+    const folders = await this.listFolders(workspaceId);
+    const folder = folders.find(f => f.path === path);
+    if (folder) {
+      await this.put('folders', { ...folder, ...changes });
+      await this.recordFolderChange(workspaceId, path, 'upsert');
+    }
+  }
+
+  async deleteFolder(workspaceId: string, path: string): Promise<void> {
+    await this.removeFolders(workspaceId, path);
+    await this.recordFolderChange(workspaceId, path, 'delete');
+  }
+
+  // The folder and the folders beneath it, without journaling
+  private async removeFolders(workspaceId: string, path: string): Promise<void> {
+    const folders = await this.listFolders(workspaceId);
+    for (const folder of folders.filter(f => isSameOrDescendant(f.path, path))) {
+      await this.remove('folders', folder.id);
+    }
+  }
+
+  async insertRevision(record: NewFileRevisionRecord): Promise<FileRevisionRecord> {
+    const revision: FileRevisionRecord = {
+      ...record,
+      id: crypto.randomUUID(),
+      created_at: new Date().toISOString()
+    };
+
+    await this.put('file_revisions', revision);
+    return revision;
+  }
+
+  async listRevisions(workspaceId: string, fileId: string): Promise<FileRevisionRecord[]> {
+    const revisions = await this.getAll<FileRevisionRecord>('file_revisions', workspaceId);
+    return revisions
+      .filter(revision => revision.file_id === fileId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  async listRevisionMetadata(workspaceId: string, fileId: string): Promise<FileRevisionMetadataRecord[]> {
+    const revisions = await this.listRevisions(workspaceId, fileId);
+    return revisions.map(({ content, ...metadata }) => metadata);
+  }
+
+  async getLatestRevision(workspaceId: string, fileId: string): Promise<FileRevisionRecord | null> {
+    const revisions = await this.listRevisions(workspaceId, fileId);
+    return revisions[0] || null;
+  }
+
+  async getRevision(workspaceId: string, revisionId: string): Promise<FileRevisionRecord | null> {
+    const revisions = await this.getAll<FileRevisionRecord>('file_revisions', workspaceId);
+    return revisions.find(revision => revision.id === revisionId) || null;
+  }
+
+  async deleteRevisions(workspaceId: string, revisionIds: string[]): Promise<void> {
+    for (const id of revisionIds) {
+      await this.remove('file_revisions', id);
+    }
+  }
+
+  async insertTrashItem(record: NewTrashRecord): Promise<TrashRecord> {
+    const item: TrashRecord = {
+      ...record,
+      id: crypto.randomUUID(),
+      deleted_at: new Date().toISOString()
+    };
+
+    await this.put('trash_items', item);
+    return item;
+  }
+
+  async trashPath(workspaceId: string, path: string, expiresAt: string, contents?: TrashContents): Promise<TrashRecord> {
+    const files = (await this.listFiles(workspaceId)).filter(file => isSameOrDescendant(file.path, path));
+    const folders = (await this.listFolders(workspaceId)).filter(folder => isSameOrDescendant(folder.path, path));
+
+    const item = await this.insertTrashItem(contents ? {
+      ...contents,
+      workspace_id: workspaceId,
+      path,
+      expires_at: expiresAt
+    } : {
+      workspace_id: workspaceId,
+      path,
+      item_type: files.some(file => file.path === path) ? 'file' : 'folder',
+      files: files.map(file => ({
+        path: file.path,
+        content: file.content,
+        file_type: file.file_type,
+        size_bytes: file.size_bytes,
+        storage_path: file.storage_path,
+        encoding: file.encoding,
+        line_ending: file.line_ending
+      })),
+      folders: folders.map(folder => ({ path: folder.path, description: folder.description, is_collapsed: folder.is_collapsed })),
+      expires_at: expiresAt
+    });
+
+    for (const file of files) {
+      await this.removeFile(file);
+    }
+    await this.removeFolders(workspaceId, path);
+    await this.recordTrash(item);
+    return item;
+  }
+
+  // Conflicts are checked before anything is written, so a restore that
+  // can't go through leaves the item in the trash
+  async restoreTrashItem(workspaceId: string, itemId: string): Promise<RestoredTrashRecords> {
+    const item = await this.getTrashItem(workspaceId, itemId);
+    if (!item) {
+      throw new Error('Trash item not found');
+    }
+
+    const files = await this.listFiles(workspaceId);
+    const folders = await this.listFolders(workspaceId);
+    const conflict = item.files.find(entry =>
+      files.some(file => file.path === entry.path || isSameOrDescendant(entry.path, file.path))
+      || folders.some(folder => folder.path === entry.path)
+    );
+    if (conflict) {
+      throw new Error(`Cannot restore: ${conflict.path} already exists`);
+    }
+
+    const restored: RestoredTrashRecords = { files: [], folders: [] };
+    for (const entry of item.folders) {
+      if (folders.some(folder => folder.path === entry.path)
+        || files.some(file => isSameOrDescendant(file.path, entry.path))) {
+        continue;
+      }
+      restored.folders.push(await this.insertFolder({
+        workspace_id: workspaceId,
+        path: entry.path,
+        description: entry.description,
+        is_collapsed: entry.is_collapsed
+      }));
+    }
+
+    for (const entry of item.files) {
+      const file = await this.insertFile({ ...entry, workspace_id: workspaceId });
+      if (!file.storage_path) {
+        await this.insertRevision({
+          workspace_id: workspaceId,
+          file_id: file.id,
+          path: file.path,
+          content: file.content,
+          size_bytes: file.size_bytes
+        });
+      }
+      restored.files.push(file);
+    }
+
+    await this.remove('trash_items', item.id);
+    return restored;
+  }
+
+  async listTrashItems(workspaceId: string): Promise<TrashRecord[]> {
+    const items = await this.getAll<TrashRecord>('trash_items', workspaceId);
+    return items.sort((a, b) => b.deleted_at.localeCompare(a.deleted_at));
+  }
+
+  async getTrashItem(workspaceId: string, itemId: string): Promise<TrashRecord | null> {
+    const items = await this.getAll<TrashRecord>('trash_items', workspaceId);
+    return items.find(item => item.id === itemId) || null;
+  }
+
+  async deleteTrashItems(workspaceId: string, itemIds: string[]): Promise<void> {
+    for (const id of itemIds) {
+      await this.remove('trash_items', id);
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { LocalRecord, LocalStorageProvider, LocalTable } from './LocalStorageProvider';
+
+// Volatile provider for tests and throwaway sessions
+export class MemoryStorageProvider extends LocalStorageProvider {
+  readonly kind = 'memory' as const;
+
+  private tables: Map<LocalTable, Map<string, LocalRecord>> = new Map();
+
+  private table(name: LocalTable): Map<string, LocalRecord> {
+    let table = this.tables.get(name);
+    if (!table) {
+      table = new Map();
+      this.tables.set(name, table);
+    }
+    return table;
+  }
+
+  protected async getAll<T extends LocalRecord>(table: LocalTable, workspaceId: string): Promise<T[]> {
+    return Array.from(this.table(table).values())
+      .filter(record => record.workspace_id === workspaceId)
+      .map(record => ({ ...record }) as T);
+  }
+
+  protected async put<T extends LocalRecord>(table: LocalTable, record: T): Promise<void> {
+    this.table(table).set(record.id, { ...record });
+  }
+
+  protected async remove(table: LocalTable, id: string): Promise<void> {
+    this.table(table).delete(id);
+  }
+
+  // Drop every record (useful between tests)
+  reset(): void {
+    this.tables.clear();
+  }
+}
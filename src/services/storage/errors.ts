@@ -0,0 +1,30 @@
+import { FileRecord } from './types';
+
+// Thrown by saveFile when the stored file has moved past the revision the
+// write was based on. Carries the stored version so callers can merge.
+export class StaleRevisionError extends Error {
+  readonly path: string;
+  readonly current: FileRecord;
+
+  constructor(path: string, current: FileRecord) {
+    super(`${path} was changed elsewhere (now at revision ${current.revision})`);
+    this.name = 'StaleRevisionError';
+    this.path = path;
+    this.current = current;
+  }
+}
+
+// Thrown when a file can't be changed, moved or deleted because it is
+// read-only or someone else holds its edit lock
+export class FileLockedError extends Error {
+  readonly path: string;
+  // Who holds the lock; null when the file is read-only
+  readonly holder: string | null;
+
+  constructor(path: string, holder: string | null) {
+    super(holder ? `${path} is locked by ${holder}` : `${path} is read-only`);
+    this.name = 'FileLockedError';
+    this.path = path;
+    this.holder = holder;
+  }
+}
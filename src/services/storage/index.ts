@@ -0,0 +1,22 @@
+export type {
+  FileMetadataRecord,
+  FileRecord,
+  FileRecordChanges,
+  FileRevisionMetadataRecord,
+  FileRevisionRecord,
+  FileStorageProvider,
+  FolderRecord,
+  FolderRecordChanges,
+  NewFileRecord,
+  NewFileRevisionRecord,
+  NewFolderRecord,
+  NewTrashRecord,
+  RestoredTrashRecords,
+  StorageProviderKind,
+  TrashContents,
+  TrashRecord,
+} from './types';
+export { FileLockedError, StaleRevisionError } from './errors';
+export { SupabaseStorageProvider } from './SupabaseStorageProvider';
+export { IndexedDBStorageProvider } from './IndexedDBStorageProvider';
+export { MemoryStorageProvider } from './MemoryStorageProvider';
@@ -0,0 +1,139 @@
+// Storage provider contract used by FileSystemService
+import { LineEnding, PathMove, TextEncoding } from '@/types';
+
+// Row shape shared by every backend. Mirrors the Supabase `files` table so
+// records can move between providers without translation.
+export interface FileRecord {
+  id: string;
+  workspace_id: string;
+  path: string;
+  content: string;
+  file_type: string;
+  size_bytes: number;
+  // Object key in the file-assets bucket for binary files, whose content is empty
+  storage_path: string | null;
+  // Encoding and line endings the file is exported with; content is stored with LF
+  encoding: TextEncoding;
+  line_ending: LineEnding;
+  read_only: boolean;
+  // Edit lock, held until lock_expires_at; locked_by_name is for display
+  locked_by: string | null;
+  locked_by_name: string | null;
+  lock_expires_at: string | null;
+  // Bumped by one on every content change; saves must name the revision they started from
+  revision: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Everything but the content, for listings that must stay cheap on large workspaces
+export type FileMetadataRecord = Omit<FileRecord, 'content'>;
+
+export type NewFileRecord = Pick<FileRecord, 'workspace_id' | 'path' | 'content' | 'file_type' | 'size_bytes'>
+  & Partial<Pick<FileRecord, 'storage_path' | 'encoding' | 'line_ending'>>;
+
+// Metadata only; content changes go through saveFile so they are revision checked
+export type FileRecordChanges = Partial<Pick<
+  FileRecord,
+  'path' | 'file_type' | 'encoding' | 'line_ending' | 'read_only' | 'locked_by' | 'locked_by_name' | 'lock_expires_at' | 'updated_at'
+>>;
+
+export interface FileRevisionRecord {
+  id: string;
+  workspace_id: string;
+  file_id: string;
+  path: string;
+  content: string;
+  size_bytes: number;
+  created_at: string;
+}
+
+// Everything but the content, for pruning without downloading every revision
+export type FileRevisionMetadataRecord = Omit<FileRevisionRecord, 'content'>;
+
+export type NewFileRevisionRecord = Pick<FileRevisionRecord, 'workspace_id' | 'file_id' | 'path' | 'content' | 'size_bytes'>;
+
+export interface FolderRecord {
+  id: string;
+  workspace_id: string;
+  path: string;
+  description: string | null;
+  is_collapsed: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NewFolderRecord = Pick<FolderRecord, 'workspace_id' | 'path' | 'description' | 'is_collapsed'>;
+
+export type FolderRecordChanges = Partial<Pick<FolderRecord, 'description' | 'is_collapsed' | 'updated_at'>>;
+
+// A deleted file or folder, with a copy of every row it took along so it can
+// be put back as it was
+export interface TrashRecord {
+  id: string;
+  workspace_id: string;
+  path: string;
+  item_type: 'file' | 'folder';
+  files: Array<Pick<FileRecord, 'path' | 'content' | 'file_type' | 'size_bytes'>
+    & Partial<Pick<FileRecord, 'storage_path' | 'encoding' | 'line_ending'>>>;
+  folders: Array<Pick<FolderRecord, 'path' | 'description' | 'is_collapsed'>>;
+  deleted_at: string;
+  expires_at: string;
+}
+
+export type NewTrashRecord = Omit<TrashRecord, 'id' | 'deleted_at'>;
+
+// What a trash item holds, for moves whose copies were taken elsewhere
+export type TrashContents = Pick<TrashRecord, 'item_type' | 'files' | 'folders'>;
+
+// Rows a trash item put back when it was restored
+export interface RestoredTrashRecords {
+  files: FileRecord[];
+  folders: FolderRecord[];
+}
+
+export type StorageProviderKind = 'supabase' | 'indexeddb' | 'memory';
+
+export interface FileStorageProvider {
+  readonly kind: StorageProviderKind;
+
+  listFiles(workspaceId: string): Promise<FileRecord[]>;
+  listFileMetadata(workspaceId: string): Promise<FileMetadataRecord[]>;
+  getFile(workspaceId: string, path: string): Promise<FileRecord | null>;
+  insertFile(record: NewFileRecord): Promise<FileRecord>;
+  updateFile(workspaceId: string, path: string, changes: FileRecordChanges): Promise<void>;
+  // Writes new content only if the file is still at `baseRevision`; throws
+  // StaleRevisionError otherwise. Returns the saved record.
+  saveFile(workspaceId: string, path: string, content: string, baseRevision: number): Promise<FileRecord>;
+  deleteFile(workspaceId: string, path: string): Promise<void>;
+  searchFiles(workspaceId: string, query: string): Promise<FileRecord[]>;
+  // Moves a file, or a folder with everything under it, in one atomic step
+  movePath(workspaceId: string, fromPath: string, toPath: string): Promise<PathMove[]>;
+
+  listFolders(workspaceId: string): Promise<FolderRecord[]>;
+  insertFolder(record: NewFolderRecord): Promise<FolderRecord>;
+  updateFolder(workspaceId: string, path: string, changes: FolderRecordChanges): Promise<void>;
+  // Removes the folder record and any folder records beneath it
+  deleteFolder(workspaceId: string, path: string): Promise<void>;
+
+  // Revisions are returned newest first
+  insertRevision(record: NewFileRevisionRecord): Promise<FileRevisionRecord>;
+  listRevisions(workspaceId: string, fileId: string): Promise<FileRevisionRecord[]>;
+  listRevisionMetadata(workspaceId: string, fileId: string): Promise<FileRevisionMetadataRecord[]>;
+  getLatestRevision(workspaceId: string, fileId: string): Promise<FileRevisionRecord | null>;
+  getRevision(workspaceId: string, revisionId: string): Promise<FileRevisionRecord | null>;
+  deleteRevisions(workspaceId: string, revisionIds: string[]): Promise<void>;
+
+  // Trash items are returned newest first
+  insertTrashItem(record: NewTrashRecord): Promise<TrashRecord>;
+  // Moves a file, or a folder with everything under it, to the trash in one
+  // atomic step. Returns the trash item holding the removed rows, or
+  // `contents` instead when given, e.g. copies trashed while offline.
+  trashPath(workspaceId: string, path: string, expiresAt: string, contents?: TrashContents): Promise<TrashRecord>;
+  // Puts a trash item's files and folders back and deletes the item in one
+  // atomic step. Folders that still exist are left alone.
+  restoreTrashItem(workspaceId: string, itemId: string): Promise<RestoredTrashRecords>;
+  listTrashItems(workspaceId: string): Promise<TrashRecord[]>;
+  getTrashItem(workspaceId: string, itemId: string): Promise<TrashRecord | null>;
+  deleteTrashItems(workspaceId: string, itemIds: string[]): Promise<void>;
+}
@@ -1,5 +1,8 @@
 // Core Types for Codestral IDE
 
+import type { SnapshotTrigger } from '@/lib/snapshotPolicy';
+import type { WorkspaceSettings } from '@/lib/workspaceSettings';
+
 export interface FileNode {
   id: string;
   name: string;
@@ -11,21 +14,177 @@ export interface FileNode {
   isOpen?: boolean;
   isDirty?: boolean;
   size?: number;
+  // Server-side save counter, sent back with the next save to detect conflicts
+  revision?: number;
+  // Set for binary files, whose bytes live in storage instead of `content`
+  storagePath?: string;
+  // How a text file is written out; `content` always uses LF line endings
+  encoding?: TextEncoding;
+  lineEnding?: LineEnding;
+  // Read-only files can't be saved, moved or deleted until the flag is cleared
+  readOnly?: boolean;
+  // Set while someone holds an edit lock on the file
+  lock?: FileLock;
+  description?: string;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+export type TextEncoding = 'utf-8' | 'utf-8-bom' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export type LineEnding = 'lf' | 'crlf';
+
+export interface FileLock {
+  userId: string;
+  userName: string;
+  expiresAt: Date;
+}
+
+export interface PathMove {
+  from: string;
+  to: string;
+}
+
+// Whether a file event came from this session or from the realtime channel
+export type FileEventOrigin = 'local' | 'remote';
+
+export interface FileChangeEvent {
+  file: FileNode;
+  origin: FileEventOrigin;
+}
+
+export interface FileDeleteEvent {
+  // A deleted folder takes everything under it along
+  path: string;
+  origin: FileEventOrigin;
+}
+
+export interface FileRenameEvent extends PathMove {
+  origin: FileEventOrigin;
+}
+
+export interface FileRevision {
+  id: string;
+  fileId: string;
+  path: string;
+  content: string;
+  size: number;
+  createdAt: Date;
+}
+
+export interface RevisionRetention {
+  maxRevisions: number; // per file, 0 keeps everything
+  maxAgeDays: number; // 0 keeps revisions forever
+}
+
+export interface TrashItem {
+  id: string;
+  // Where the file or folder lived before it was deleted
+  path: string;
+  type: 'file' | 'folder';
+  fileCount: number;
+  size: number;
+  deletedAt: Date;
+  expiresAt: Date;
+}
+
+export interface FileImportResult {
+  files: FileNode[];
+  failed: Array<{ path: string; error: string }>;
+}
+
+export interface ArchiveImportResult extends FileImportResult {
+  folders: string[];
+}
+
 export interface Workspace {
   id: string;
   name: string;
   description: string;
   files: FileNode[];
+  folders?: FileNode[];
   vmId?: string | null;
   createdAt: Date;
   lastModified: Date;
-  settings?: any;
+  settings?: WorkspaceSettings;
   template?: string;
   fileCount?: number;
+  // Set on workspaces forked from a snapshot
+  forkedFrom?: WorkspaceFork | null;
+}
+
+export interface WorkspaceFork {
+  workspaceId: string;
+  snapshotId: string;
+  snapshotName: string;
+  snapshotCreatedAt: string | null;
+}
+
+// Storage a workspace and its owner use, counted against their quotas.
+// Ignored files count like any other.
+export interface WorkspaceUsage {
+  fileCount: number;
+  bytes: number;
+  // Binary files kept in the file-assets bucket, part of fileCount and bytes
+  assetCount: number;
+  assetBytes: number;
+  snapshotCount: number;
+  snapshotBytes: number;
+  // Across all of the owner's workspaces
+  workspaceCount: number;
+  userBytes: number;
+}
+
+export interface SnapshotSummary {
+  id: string;
+  name: string;
+  createdAt: Date;
+  size: number;
+  trigger: SnapshotTrigger;
+  // Taken by the workspace's snapshot policy or before a restore, and
+  // subject to its retention rules
+  automatic: boolean;
+}
+
+export interface SnapshotRestoreResult {
+  restoredFiles: number;
+  restoredFolders: number;
+  // Snapshot paths that couldn't be made valid workspace paths
+  skippedPaths: string[];
+  // Taken right before the restore, so it can be undone
+  safetySnapshotId: string;
+}
+
+export type SnapshotChangeStatus = 'added' | 'removed' | 'modified';
+
+export interface SnapshotFileChange {
+  path: string;
+  status: SnapshotChangeStatus;
+  binary: boolean;
+  // Null on the side where the file doesn't exist
+  beforeSize: number | null;
+  afterSize: number | null;
+}
+
+// Changes from one snapshot to another; a null `to` is the live workspace
+export interface SnapshotDiff {
+  from: string;
+  to: string | null;
+  changes: SnapshotFileChange[];
+}
+
+// Both sides of one file; binary files have empty text
+export interface SnapshotFileDiff {
+  path: string;
+  binary: boolean;
+  before: string | null;
+  after: string | null;
+}
+
+// Paths stored in a snapshot, without their content
+export interface SnapshotContents {
+  files: Array<{ path: string; size: number }>;
+  folders: string[];
 }
 
 export interface FirecrackerVM {
@@ -119,4 +278,31 @@ export interface CodeSearchResult {
   column: number;
   snippet: string;
   score: number;
+  matchLength?: number;
+}
+
+// A position the editor should scroll to once the file's tab is showing
+export interface EditorRevealTarget {
+  fileId: string;
+  line: number;
+  column?: number;
+}
+
+export interface SearchOptions {
+  query: string;
+  isRegex: boolean;
+  matchCase: boolean;
+  wholeWord: boolean;
+  include: string;
+  exclude: string;
+}
+
+// One file's content before and after a workspace replace
+export interface ReplaceEdit {
+  filePath: string;
+  before: string;
+  after: string;
+  matchCount: number;
+  // Set once the edit is written
+  revision?: number;
 }
@@ -0,0 +1,93 @@
+// Storage quotas per user and per workspace. Shared by the client services
+// and the edge functions, so it must stay free of imports. The file limits
+// are also enforced by the files_enforce_quota trigger, whose defaults must
+// match DEFAULT_QUOTAS.
+
+export interface Quotas {
+  maxFileBytes: number;
+  maxFilesPerWorkspace: number;
+  maxWorkspaceBytes: number;
+  maxUserBytes: number;
+  maxWorkspaces: number;
+  maxSnapshotsPerWorkspace: number;
+  maxSnapshotBytesPerWorkspace: number;
+}
+
+export type QuotaName = keyof Quotas;
+
+const MB = 1024 * 1024;
+
+export const DEFAULT_QUOTAS: Quotas = {
+  maxFileBytes: 10 * MB,
+  maxFilesPerWorkspace: 5000,
+  maxWorkspaceBytes: 100 * MB,
+  maxUserBytes: 500 * MB,
+  maxWorkspaces: 50,
+  maxSnapshotsPerWorkspace: 50,
+  maxSnapshotBytesPerWorkspace: 200 * MB,
+};
+
+export const QUOTA_LABELS: Record<QuotaName, string> = {
+  maxFileBytes: 'File size',
+  maxFilesPerWorkspace: 'Files in workspace',
+  maxWorkspaceBytes: 'Workspace size',
+  maxUserBytes: 'Storage across workspaces',
+  maxWorkspaces: 'Workspaces',
+  maxSnapshotsPerWorkspace: 'Snapshots in workspace',
+  maxSnapshotBytesPerWorkspace: 'Snapshot storage',
+};
+
+// Columns of a user_quotas row; null falls back to the default
+const QUOTA_COLUMNS: Record<QuotaName, string> = {
+  maxFileBytes: 'max_file_bytes',
+  maxFilesPerWorkspace: 'max_files_per_workspace',
+  maxWorkspaceBytes: 'max_workspace_bytes',
+  maxUserBytes: 'max_user_bytes',
+  maxWorkspaces: 'max_workspaces',
+  maxSnapshotsPerWorkspace: 'max_snapshots_per_workspace',
+  maxSnapshotBytesPerWorkspace: 'max_snapshot_bytes_per_workspace',
+};
+
+export class QuotaExceededError extends Error {
+  readonly quota: QuotaName;
+  readonly limit: number;
+  readonly amount: number;
+
+  constructor(quota: QuotaName, amount: number, limit: number) {
+    super(`Quota exceeded: ${QUOTA_LABELS[quota].toLowerCase()} would be ${formatQuotaAmount(quota, amount)}, the limit is ${formatQuotaAmount(quota, limit)}`);
+    this.name = 'QuotaExceededError';
+    this.quota = quota;
+    this.amount = amount;
+    this.limit = limit;
+  }
+}
+
+export function isByteQuota(quota: QuotaName): boolean {
+  return quota.includes('Bytes');
+}
+
+export function formatQuotaAmount(quota: QuotaName, amount: number): string {
+  if (!isByteQuota(quota)) return amount.toLocaleString('en-US');
+  if (amount < 1024) return `${amount} B`;
+  if (amount < MB) return `${(amount / 1024).toFixed(1)} KB`;
+  return `${(amount / MB).toFixed(1)} MB`;
+}
+
+// Limits for a user from their user_quotas row, if they have one
+export function resolveQuotas(row?: Record<string, unknown> | null): Quotas {
+  const quotas = { ...DEFAULT_QUOTAS };
+  for (const quota of Object.keys(QUOTA_COLUMNS) as QuotaName[]) {
+    const value = row?.[QUOTA_COLUMNS[quota]];
+    if (typeof value === 'number' && value >= 0) {
+      quotas[quota] = value;
+    }
+  }
+  return quotas;
+}
+
+// Throws QuotaExceededError when `amount` goes over the limit
+export function assertWithinQuota(quota: QuotaName, amount: number, quotas: Quotas): void {
+  if (amount > quotas[quota]) {
+    throw new QuotaExceededError(quota, amount, quotas[quota]);
+  }
+}
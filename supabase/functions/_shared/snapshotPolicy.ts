@@ -0,0 +1,133 @@
+// Automatic snapshot policies and their retention rules. Shared by the client
+// services and the edge functions, so it must stay free of imports. The
+// policy lives in the workspace settings under `snapshotPolicy`; the
+// workspace-manager function decides when a snapshot is due and which
+// automatic snapshots to prune.
+
+// What a snapshot was taken for. Manual snapshots are never pruned.
+export type SnapshotTrigger = 'manual' | 'interval' | 'daily' | 'multi-file-edit' | 'restore';
+
+export const SNAPSHOT_TRIGGER_LABELS: Record<SnapshotTrigger, string> = {
+  manual: 'Manual',
+  interval: 'Scheduled',
+  daily: 'Daily',
+  'multi-file-edit': 'Before multi-file edit',
+  restore: 'Before restore',
+};
+
+// Automatic snapshots kept: the newest `keepLatest`, plus the newest one of
+// each of the last `keepHourly` hours and `keepDaily` days that have any
+export interface SnapshotRetention {
+  keepLatest: number;
+  keepHourly: number;
+  keepDaily: number;
+}
+
+export interface SnapshotPolicy {
+  // Minutes between snapshots while files change; null turns it off
+  intervalMinutes: number | null;
+  daily: boolean;
+  // Before AI edits and workspace replaces that touch several files
+  beforeMultiFileEdits: boolean;
+  retention: SnapshotRetention;
+}
+
+export const DEFAULT_SNAPSHOT_POLICY: SnapshotPolicy = {
+  intervalMinutes: null,
+  daily: false,
+  beforeMultiFileEdits: false,
+  retention: {
+    keepLatest: 5,
+    keepHourly: 20,
+    keepDaily: 7,
+  },
+};
+
+export const MIN_SNAPSHOT_INTERVAL_MINUTES = 5;
+
+export interface SnapshotEntry {
+  id: string;
+  createdAt: string;
+  trigger: SnapshotTrigger;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export function isAutomaticTrigger(trigger: SnapshotTrigger): boolean {
+  return trigger !== 'manual';
+}
+
+export function isSnapshotTrigger(value: unknown): value is SnapshotTrigger {
+  return typeof value === 'string' && value in SNAPSHOT_TRIGGER_LABELS;
+}
+
+const count = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.floor(value) : fallback;
+
+// The policy stored in workspace settings, with defaults for anything missing
+// or invalid
+export function resolveSnapshotPolicy(settings?: Record<string, any> | null): SnapshotPolicy {
+  const stored = settings?.snapshotPolicy ?? {};
+  const defaults = DEFAULT_SNAPSHOT_POLICY;
+  const interval = stored.intervalMinutes;
+
+  return {
+    intervalMinutes: typeof interval === 'number' && interval > 0
+      ? Math.max(MIN_SNAPSHOT_INTERVAL_MINUTES, Math.floor(interval))
+      : null,
+    daily: stored.daily === true,
+    beforeMultiFileEdits: stored.beforeMultiFileEdits === true,
+    retention: {
+      keepLatest: count(stored.retention?.keepLatest, defaults.retention.keepLatest),
+      keepHourly: count(stored.retention?.keepHourly, defaults.retention.keepHourly),
+      keepDaily: count(stored.retention?.keepDaily, defaults.retention.keepDaily),
+    },
+  };
+}
+
+export function hasSchedule(policy: SnapshotPolicy): boolean {
+  return policy.intervalMinutes !== null || policy.daily;
+}
+
+// The scheduled snapshot due at `now`, if any. Whether anything changed since
+// the last snapshot is up to the caller.
+export function dueSnapshotTrigger(policy: SnapshotPolicy, snapshots: SnapshotEntry[], now: number = Date.now()): SnapshotTrigger | null {
+  const latest = (triggers: SnapshotTrigger[]) => Math.max(
+    0,
+    ...snapshots.filter(s => triggers.includes(s.trigger)).map(s => new Date(s.createdAt).getTime())
+  );
+
+  if (policy.daily && now - latest(['daily']) >= DAY_MS) {
+    return 'daily';
+  }
+  if (policy.intervalMinutes !== null && now - latest(['interval', 'daily']) >= policy.intervalMinutes * 60 * 1000) {
+    return 'interval';
+  }
+  return null;
+}
+
+// Ids of automatic snapshots the retention rules don't keep
+export function snapshotsToPrune(snapshots: SnapshotEntry[], retention: SnapshotRetention): string[] {
+  const automatic = snapshots
+    .filter(s => isAutomaticTrigger(s.trigger))
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  const kept = new Set(automatic.slice(0, retention.keepLatest).map(s => s.id));
+
+  // Newest first, so the first snapshot seen in a period is the one kept
+  const keepNewestPer = (periodMs: number, periods: number) => {
+    const seen = new Set<number>();
+    for (const snapshot of automatic) {
+      const period = Math.floor(new Date(snapshot.createdAt).getTime() / periodMs);
+      if (seen.has(period)) continue;
+      if (seen.size >= periods) break;
+      seen.add(period);
+      kept.add(snapshot.id);
+    }
+  };
+  keepNewestPer(HOUR_MS, retention.keepHourly);
+  keepNewestPer(DAY_MS, retention.keepDaily);
+
+  return automatic.filter(s => !kept.has(s.id)).map(s => s.id);
+}
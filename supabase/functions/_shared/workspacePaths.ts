@@ -0,0 +1,121 @@
+// Normalization and validation of workspace-relative paths ("src/App.tsx").
+// Shared by the client services and the edge functions, so it must stay free
+// of imports.
+
+export type PathErrorCode =
+  | 'empty'
+  | 'absolute'
+  | 'traversal'
+  | 'invalid-character'
+  | 'invalid-name'
+  | 'too-long'
+  | 'exists'
+  | 'case-collision';
+
+export class PathValidationError extends Error {
+  readonly code: PathErrorCode;
+  readonly path: string;
+
+  constructor(code: PathErrorCode, path: string, message: string) {
+    super(message);
+    this.name = 'PathValidationError';
+    this.code = code;
+    this.path = path;
+  }
+}
+
+export const MAX_PATH_LENGTH = 1024;
+export const MAX_NAME_LENGTH = 255;
+
+// Characters that are invalid on Windows or carry meaning in globs, so
+// exported archives extract everywhere. Control characters are refused too;
+// they're checked by code point, which keeps them out of the pattern.
+const INVALID_CHARACTERS = /[<>:"|?*]/;
+
+const isControlCharacter = (character: string) => {
+  const code = character.charCodeAt(0);
+  return code < 0x20 || code === 0x7f;
+};
+
+// Validate a single file or folder name
+export function validateName(name: string, path: string = name): string {
+  if (!name) {
+    throw new PathValidationError('empty', path, 'Name cannot be empty');
+  }
+  if (name === '.' || name === '..') {
+    throw new PathValidationError('traversal', path, `"${name}" is not allowed in a path`);
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new PathValidationError('too-long', path, `"${name.slice(0, 32)}..." is longer than ${MAX_NAME_LENGTH} characters`);
+  }
+  if (name !== name.trim()) {
+    throw new PathValidationError('invalid-name', path, `"${name}" cannot start or end with whitespace`);
+  }
+  if (name.endsWith('.')) {
+    throw new PathValidationError('invalid-name', path, `"${name}" cannot end with a dot`);
+  }
+
+  const invalid = [...name].find(character => isControlCharacter(character) || INVALID_CHARACTERS.test(character));
+  if (invalid) {
+    const shown = isControlCharacter(invalid)
+      ? `\\u${invalid.charCodeAt(0).toString(16).padStart(4, '0')}`
+      : invalid;
+    throw new PathValidationError('invalid-character', path, `"${name}" contains the invalid character ${shown}`);
+  }
+
+  return name;
+}
+
+// Canonical form of a workspace path: forward slashes, no empty or "."
+// segments, no trailing slash, NFC Unicode. Throws PathValidationError for
+// paths that leave the workspace or contain invalid names.
+export function normalizePath(path: string): string {
+  const unified = path.normalize('NFC').replace(/\\/g, '/');
+  if (unified.startsWith('/')) {
+    throw new PathValidationError('absolute', path, `${path} must be relative to the workspace root`);
+  }
+
+  const segments = unified.split('/').filter(segment => segment !== '' && segment !== '.');
+  if (segments.length === 0) {
+    throw new PathValidationError('empty', path, 'Path cannot be empty');
+  }
+
+  segments.forEach(segment => validateName(segment, path));
+
+  const normalized = segments.join('/');
+  if (normalized.length > MAX_PATH_LENGTH) {
+    throw new PathValidationError('too-long', path, `Path is longer than ${MAX_PATH_LENGTH} characters`);
+  }
+  return normalized;
+}
+
+// Throws when `path`, or one of its parent folders, already exists or only
+// differs in case from an existing path. Existing paths under `ignoring` are
+// skipped, so a file can be renamed to a different case of its own name.
+export function assertPathAvailable(path: string, existingPaths: Iterable<string>, ignoring?: string): void {
+  const isIgnored = (existing: string) =>
+    ignoring !== undefined && (existing === ignoring || existing.startsWith(`${ignoring}/`));
+
+  // Every existing path and its parent folders, by lower case
+  const known = new Map<string, string>();
+  for (const existing of existingPaths) {
+    if (isIgnored(existing)) continue;
+    const segments = existing.split('/');
+    for (let length = 1; length <= segments.length; length++) {
+      const prefix = segments.slice(0, length).join('/');
+      known.set(prefix.toLowerCase(), prefix);
+    }
+  }
+
+  const segments = path.split('/');
+  for (let length = 1; length <= segments.length; length++) {
+    const prefix = segments.slice(0, length).join('/');
+    const match = known.get(prefix.toLowerCase());
+    if (match === undefined || (match === prefix && length < segments.length)) continue;
+
+    if (match === path) {
+      throw new PathValidationError('exists', path, `${path} already exists`);
+    }
+    throw new PathValidationError('case-collision', path, `${prefix} conflicts with ${match}, which only differs in case`);
+  }
+}
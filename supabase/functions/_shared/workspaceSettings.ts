@@ -0,0 +1,192 @@
+// Schema of a workspace's settings, stored as a JSON string in
+// workspaces.settings. Shared by the client services and the edge functions:
+// the client validates before it saves, workspace-manager before it writes.
+// zod resolves from node_modules in the browser and from the function's
+// import map in Deno.
+//
+// Stored settings carry the version they were written with. Older ones are
+// brought up to date by MIGRATIONS when they are read; settings without a
+// version are version 0. Bump WORKSPACE_SETTINGS_VERSION and add a migration
+// whenever a change would make earlier settings fail to parse.
+import { z } from 'zod';
+import { DEFAULT_SNAPSHOT_POLICY, MIN_SNAPSHOT_INTERVAL_MINUTES, SnapshotPolicy } from './snapshotPolicy.ts';
+
+export const WORKSPACE_SETTINGS_VERSION = 1;
+
+// Spelled out rather than inferred from the schema: the client compiles
+// without strict null checks, where zod's inferred fields are all optional
+export interface EditorSettings {
+  theme: 'dark' | 'light';
+  fontSize: number;
+  tabSize: number;
+  wordWrap: 'off' | 'on' | 'wordWrapColumn' | 'bounded';
+  minimap: boolean;
+  lineNumbers: 'on' | 'off' | 'relative' | 'interval';
+  autoSave: boolean;
+  autoSaveDelay: number;
+}
+
+export interface FormatterSettings {
+  formatOnPaste: boolean;
+  formatOnType: boolean;
+}
+
+export interface RunSettings {
+  timeoutMs: number;
+  stdin: string;
+}
+
+export interface AISettings {
+  historyLength: number;
+  includeActiveFile: boolean;
+}
+
+export interface WorkspaceSettings {
+  version: typeof WORKSPACE_SETTINGS_VERSION;
+  editor: EditorSettings;
+  formatter: FormatterSettings;
+  run: RunSettings;
+  ai: AISettings;
+  revisionRetention: { maxRevisions: number; maxAgeDays: number };
+  trashRetentionDays: number;
+  snapshotPolicy: SnapshotPolicy;
+}
+
+const EditorSettingsSchema = z.object({
+  theme: z.enum(['dark', 'light']).default('dark'),
+  fontSize: z.number().int().min(8).max(32).default(14),
+  tabSize: z.number().int().min(1).max(8).default(2),
+  wordWrap: z.enum(['off', 'on', 'wordWrapColumn', 'bounded']).default('on'),
+  minimap: z.boolean().default(true),
+  lineNumbers: z.enum(['on', 'off', 'relative', 'interval']).default('on'),
+  autoSave: z.boolean().default(true),
+  autoSaveDelay: z.number().int().min(100).max(60000).default(1000),
+}).default({});
+
+const FormatterSettingsSchema = z.object({
+  formatOnPaste: z.boolean().default(true),
+  formatOnType: z.boolean().default(true),
+}).default({});
+
+// Code runs in the execution sandbox
+const RunSettingsSchema = z.object({
+  timeoutMs: z.number().int().min(1000).max(60000).default(10000),
+  stdin: z.string().default(''),
+}).default({});
+
+const AISettingsSchema = z.object({
+  // Earlier chat messages sent along with each prompt
+  historyLength: z.number().int().min(0).max(50).default(10),
+  includeActiveFile: z.boolean().default(true),
+}).default({});
+
+const RevisionRetentionSchema = z.object({
+  // 0 keeps revisions without a limit
+  maxRevisions: z.number().int().min(0).default(50),
+  maxAgeDays: z.number().int().min(0).default(30),
+}).default({});
+
+const SnapshotPolicySchema = z.object({
+  intervalMinutes: z.number().int().min(MIN_SNAPSHOT_INTERVAL_MINUTES).nullable().default(DEFAULT_SNAPSHOT_POLICY.intervalMinutes),
+  daily: z.boolean().default(DEFAULT_SNAPSHOT_POLICY.daily),
+  beforeMultiFileEdits: z.boolean().default(DEFAULT_SNAPSHOT_POLICY.beforeMultiFileEdits),
+  retention: z.object({
+    keepLatest: z.number().int().min(0).default(DEFAULT_SNAPSHOT_POLICY.retention.keepLatest),
+    keepHourly: z.number().int().min(0).default(DEFAULT_SNAPSHOT_POLICY.retention.keepHourly),
+    keepDaily: z.number().int().min(0).default(DEFAULT_SNAPSHOT_POLICY.retention.keepDaily),
+  }).default({}),
+}).default({});
+
+export const WorkspaceSettingsSchema = z.object({
+  version: z.literal(WORKSPACE_SETTINGS_VERSION).default(WORKSPACE_SETTINGS_VERSION),
+  editor: EditorSettingsSchema,
+  formatter: FormatterSettingsSchema,
+  run: RunSettingsSchema,
+  ai: AISettingsSchema,
+  revisionRetention: RevisionRetentionSchema,
+  // Days a deleted file or folder stays restorable
+  trashRetentionDays: z.number().int().min(1).default(30),
+  snapshotPolicy: SnapshotPolicySchema,
+});
+
+export const DEFAULT_WORKSPACE_SETTINGS = WorkspaceSettingsSchema.parse({}) as WorkspaceSettings;
+
+// MIGRATIONS[n] turns version n settings into version n + 1
+const MIGRATIONS: Array<(settings: Record<string, any>) => Record<string, any>> = [
+  // 0 → 1: the editor options new workspaces were given sat at the top level
+  ({ theme, fontSize, tabSize, autoSave, ...rest }) => ({
+    ...rest,
+    editor: { theme, fontSize, tabSize, autoSave, ...rest.editor },
+  }),
+];
+
+export class WorkspaceSettingsError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid workspace settings: ${issues.join('; ')}`);
+    this.name = 'WorkspaceSettingsError';
+    this.issues = issues;
+  }
+}
+
+// Stored settings, as a JSON string or an object, at the current version
+export function migrateWorkspaceSettings(stored: unknown): Record<string, any> {
+  let settings: any = stored;
+  if (typeof stored === 'string') {
+    try {
+      settings = JSON.parse(stored || '{}');
+    } catch {
+      throw new WorkspaceSettingsError(['settings: not valid JSON']);
+    }
+  }
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    settings = {};
+  }
+
+  const version = typeof settings.version === 'number' ? settings.version : 0;
+  if (version > WORKSPACE_SETTINGS_VERSION) {
+    throw new WorkspaceSettingsError([`version ${version} is newer than ${WORKSPACE_SETTINGS_VERSION}`]);
+  }
+
+  for (let from = version; from < WORKSPACE_SETTINGS_VERSION; from++) {
+    settings = MIGRATIONS[from](settings);
+  }
+  return { ...settings, version: WORKSPACE_SETTINGS_VERSION };
+}
+
+// Settings about to be saved. Anything invalid is refused, with every
+// problem named.
+export function validateWorkspaceSettings(settings: unknown): WorkspaceSettings {
+  const result = WorkspaceSettingsSchema.safeParse(migrateWorkspaceSettings(settings));
+  if (!result.success) {
+    throw new WorkspaceSettingsError(
+      result.error.issues.map(issue => `${issue.path.join('.') || 'settings'}: ${issue.message}`)
+    );
+  }
+  return result.data as WorkspaceSettings;
+}
+
+// Settings as they were read back. A section that doesn't validate, e.g.
+// one edited by hand, falls back to its defaults instead of failing the
+// whole workspace.
+export function parseWorkspaceSettings(stored: unknown): WorkspaceSettings {
+  let settings: Record<string, any>;
+  try {
+    settings = migrateWorkspaceSettings(stored);
+  } catch {
+    return WorkspaceSettingsSchema.parse({}) as WorkspaceSettings;
+  }
+
+  const result = WorkspaceSettingsSchema.safeParse(settings);
+  if (result.success) {
+    return result.data as WorkspaceSettings;
+  }
+
+  const sections: Record<string, any> = {};
+  for (const [key, schema] of Object.entries(WorkspaceSettingsSchema.shape)) {
+    const section = schema.safeParse(settings[key]);
+    sections[key] = section.success ? section.data : schema.parse(undefined);
+  }
+  return sections as WorkspaceSettings;
+}
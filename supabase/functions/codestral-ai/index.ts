@@ -12,7 +12,7 @@ Deno.serve(async (req) => {
     }
 
     try {
-        const { action, code, prompt, language = 'typescript', messages = [] } = await req.json();
+        const { action, code, filePath, prompt, language = 'typescript', messages = [] } = await req.json();
 
         // Get Codestral API key from environment
         const codestralApiKey = Deno.env.get('CODESTRAL_API_KEY');
@@ -33,7 +33,7 @@ Deno.serve(async (req) => {
                 result = await explainCode(codestralApiKey, code);
                 break;
             case 'chat':
-                result = await chatWithAI(codestralApiKey, messages, prompt);
+                result = await chatWithAI(codestralApiKey, messages, prompt, code, filePath);
                 break;
             case 'completeCode':
                 result = await completeCode(codestralApiKey, code, language);
@@ -172,12 +172,17 @@ async function explainCode(apiKey: string, code: string) {
     };
 }
 
-async function chatWithAI(apiKey: string, messages: any[], newMessage: string) {
+// `code` is the file the user has open, when their settings share it
+async function chatWithAI(apiKey: string, messages: any[], newMessage: string, code?: string, filePath?: string) {
     const chatMessages = [
         {
             role: 'system',
             content: 'You are Codestral, an AI coding assistant. Help users with programming questions, code review, debugging, and development best practices. Be concise but thorough in your responses.'
         },
+        ...(code !== undefined ? [{
+            role: 'system',
+            content: `The user has ${filePath || 'a file'} open:\n\n\`\`\`\n${code}\n\`\`\``
+        }] : []),
         ...messages,
         {
             role: 'user',
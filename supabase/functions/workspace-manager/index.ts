@@ -1,3 +1,14 @@
+import { assertWithinQuota, QuotaExceededError, resolveQuotas } from '../_shared/quotas.ts';
+import { assertPathAvailable, normalizePath } from '../_shared/workspacePaths.ts';
+import {
+    dueSnapshotTrigger,
+    isAutomaticTrigger,
+    isSnapshotTrigger,
+    resolveSnapshotPolicy,
+    snapshotsToPrune
+} from '../_shared/snapshotPolicy.ts';
+import { parseWorkspaceSettings, validateWorkspaceSettings, WorkspaceSettingsError } from '../_shared/workspaceSettings.ts';
+
 Deno.serve(async (req) => {
     const corsHeaders = {
         'Access-Control-Allow-Origin': '*',
@@ -49,6 +60,12 @@ Deno.serve(async (req) => {
             case 'createWorkspace':
                 result = await createWorkspace(currentUserId, params);
                 break;
+            case 'cloneWorkspace':
+                result = await cloneWorkspace(workspaceId, currentUserId, params);
+                break;
+            case 'forkSnapshot':
+                result = await forkSnapshot(workspaceId, currentUserId, params);
+                break;
             case 'getWorkspace':
                 result = await getWorkspace(workspaceId, currentUserId);
                 break;
@@ -68,7 +85,22 @@ Deno.serve(async (req) => {
                 result = await listSnapshots(workspaceId, currentUserId);
                 break;
             case 'restoreSnapshot':
-                result = await restoreSnapshot(workspaceId, currentUserId, params.snapshotId);
+                result = await restoreSnapshot(workspaceId, currentUserId, params);
+                break;
+            case 'diffSnapshots':
+                result = await diffSnapshots(workspaceId, currentUserId, params);
+                break;
+            case 'diffSnapshotFile':
+                result = await diffSnapshotFile(workspaceId, currentUserId, params);
+                break;
+            case 'listSnapshotFiles':
+                result = await listSnapshotFiles(workspaceId, currentUserId, params.snapshotId);
+                break;
+            case 'runSnapshotPolicy':
+                result = await runSnapshotPolicy(workspaceId, currentUserId, params);
+                break;
+            case 'getUsage':
+                result = await getUsage(workspaceId, currentUserId);
                 break;
             default:
                 throw new Error(`Unsupported action: ${action}`);
@@ -81,22 +113,25 @@ Deno.serve(async (req) => {
     } catch (error) {
         console.error('Workspace manager error:', error);
 
+        const isQuotaError = error instanceof QuotaExceededError;
+        const isSettingsError = error instanceof WorkspaceSettingsError;
         const errorResponse = {
             error: {
-                code: 'WORKSPACE_MANAGER_ERROR',
+                code: isQuotaError ? 'QUOTA_EXCEEDED' : isSettingsError ? 'INVALID_SETTINGS' : 'WORKSPACE_MANAGER_ERROR',
                 message: error.message
             }
         };
 
         return new Response(JSON.stringify(errorResponse), {
-            status: 500,
+            status: isQuotaError ? 403 : isSettingsError ? 400 : 500,
             headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         });
     }
 });
 
 async function createWorkspace(userId: string, params: any) {
-    const { name, description = '', template = 'blank', settings = {} } = params;
+    // forkedFrom is set by forkSnapshot, which seeds the files itself
+    const { name, description = '', template = 'blank', settings = {}, forkedFrom = null } = params;
 
     if (!name) {
         throw new Error('Workspace name is required');
@@ -105,6 +140,10 @@ async function createWorkspace(userId: string, params: any) {
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
     const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
+    const quotas = await getUserQuotas(userId);
+    const existing = await listWorkspaceIds(userId);
+    assertWithinQuota('maxWorkspaces', existing.length + 1, quotas);
+
     // Create workspace in database
     const workspaceResponse = await fetch(`${supabaseUrl}/rest/v1/workspaces`, {
         method: 'POST',
@@ -119,7 +158,8 @@ async function createWorkspace(userId: string, params: any) {
             name,
             description,
             template,
-            settings: JSON.stringify(settings)
+            settings: JSON.stringify(validateWorkspaceSettings(settings)),
+            forked_from: forkedFrom
         })
     });
 
@@ -132,7 +172,9 @@ async function createWorkspace(userId: string, params: any) {
     const workspace = workspaceData[0];
 
     // Create default files based on template
-    await createTemplateFiles(workspace.id, template);
+    if (!forkedFrom) {
+        await createTemplateFiles(workspace.id, template);
+    }
 
     return {
         workspace,
@@ -140,6 +182,90 @@ async function createWorkspace(userId: string, params: any) {
     };
 }
 
+// Copy a workspace's files, folders, settings and stored binary files into
+// a new workspace. The rows are written by clone_workspace() in a single
+// transaction; if it fails, the copied binary files are removed again.
+async function cloneWorkspace(sourceId: string, userId: string, params: any) {
+    const { name, description } = params;
+
+    if (!sourceId) {
+        throw new Error('Workspace ID is required');
+    }
+    if (!name) {
+        throw new Error('Workspace name is required');
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    const workspaceIds = await listWorkspaceIds(userId);
+    if (!workspaceIds.includes(sourceId)) {
+        throw new Error('Workspace not found or access denied');
+    }
+
+    const quotas = await getUserQuotas(userId);
+    assertWithinQuota('maxWorkspaces', workspaceIds.length + 1, quotas);
+
+    const filesResponse = await fetch(`${supabaseUrl}/rest/v1/files?workspace_id=in.(${workspaceIds.join(',')})&select=workspace_id,storage_path,size_bytes`, {
+        headers: {
+            'Authorization': `Bearer ${serviceRoleKey}`,
+            'apikey': serviceRoleKey
+        }
+    });
+
+    if (!filesResponse.ok) {
+        throw new Error('Failed to get workspace files');
+    }
+
+    const files = await filesResponse.json();
+    const sourceFiles = files.filter((file: any) => file.workspace_id === sourceId);
+    const userBytes = files.reduce((sum: number, file: any) => sum + (file.size_bytes || 0), 0);
+    const sourceBytes = sourceFiles.reduce((sum: number, file: any) => sum + (file.size_bytes || 0), 0);
+    assertWithinQuota('maxUserBytes', userBytes + sourceBytes, quotas);
+
+    // Stored bytes are copied first, under the id the clone will get
+    const newWorkspaceId = crypto.randomUUID();
+    const assets: Record<string, string> = {};
+    try {
+        for (const file of sourceFiles) {
+            if (file.storage_path && !assets[file.storage_path]) {
+                assets[file.storage_path] = await copyAsset(file.storage_path, newWorkspaceId);
+            }
+        }
+
+        const response = await fetch(`${supabaseUrl}/rest/v1/rpc/clone_workspace`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${serviceRoleKey}`,
+                'apikey': serviceRoleKey,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+                p_source_id: sourceId,
+                p_workspace_id: newWorkspaceId,
+                p_user_id: userId,
+                p_name: name,
+                p_description: description ?? null,
+                p_assets: assets
+            })
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`Failed to clone workspace: ${errorText}`);
+        }
+    } catch (error) {
+        await deleteAssets(Object.values(assets));
+        throw error;
+    }
+
+    return {
+        workspaceId: newWorkspaceId,
+        fileCount: sourceFiles.length,
+        message: 'Workspace cloned successfully'
+    };
+}
+
 async function getWorkspace(workspaceId: string, userId: string) {
     if (!workspaceId) {
         throw new Error('Workspace ID is required');
@@ -237,7 +363,7 @@ async function updateWorkspace(workspaceId: string, userId: string, params: any)
     const updateData: any = {};
     if (name) updateData.name = name;
     if (description !== undefined) updateData.description = description;
-    if (settings) updateData.settings = JSON.stringify(settings);
+    if (settings) updateData.settings = JSON.stringify(validateWorkspaceSettings(settings));
 
     const response = await fetch(`${supabaseUrl}/rest/v1/workspaces?id=eq.${workspaceId}&user_id=eq.${userId}`, {
         method: 'PATCH',
@@ -271,6 +397,15 @@ async function deleteWorkspace(workspaceId: string, userId: string) {
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
     const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
+    const workspaceIds = await listWorkspaceIds(userId);
+    if (!workspaceIds.includes(workspaceId)) {
+        throw new Error('Workspace not found or access denied');
+    }
+
+    // Stored bytes of binary files, live or in the trash, removed once the
+    // rows are gone
+    const assets = await listWorkspaceAssets(workspaceId);
+
     // Delete workspace files first
     await fetch(`${supabaseUrl}/rest/v1/files?workspace_id=eq.${workspaceId}`, {
         method: 'DELETE',
@@ -311,19 +446,91 @@ async function deleteWorkspace(workspaceId: string, userId: string) {
         throw new Error('Failed to delete workspace');
     }
 
+    await deleteAssets(assets);
+
     return {
         message: 'Workspace deleted successfully'
     };
 }
 
-async function createSnapshot(workspaceId: string, userId: string, params: any) {
-    const { name = `Snapshot ${new Date().toISOString()}` } = params;
+// Keys in the file-assets bucket referenced by a workspace's files and trash
+async function listWorkspaceAssets(workspaceId: string) {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    const filesResponse = await fetch(`${supabaseUrl}/rest/v1/files?workspace_id=eq.${workspaceId}&storage_path=not.is.null&select=storage_path`, {
+        headers: {
+            'Authorization': `Bearer ${serviceRoleKey}`,
+            'apikey': serviceRoleKey
+        }
+    });
+
+    if (!filesResponse.ok) {
+        throw new Error('Failed to get workspace files');
+    }
+
+    const trashResponse = await fetch(`${supabaseUrl}/rest/v1/trash_items?workspace_id=eq.${workspaceId}&select=files`, {
+        headers: {
+            'Authorization': `Bearer ${serviceRoleKey}`,
+            'apikey': serviceRoleKey
+        }
+    });
+
+    if (!trashResponse.ok) {
+        throw new Error('Failed to get workspace trash');
+    }
+
+    const keys = new Set<string>();
+    (await filesResponse.json()).forEach((file: any) => keys.add(file.storage_path));
+    (await trashResponse.json()).forEach((item: any) => {
+        (item.files || []).forEach((file: any) => {
+            if (file.storage_path) {
+                keys.add(file.storage_path);
+            }
+        });
+    });
+    return Array.from(keys);
+}
+
+// Snapshots are manifests at <workspaceId>/<timestamp>-<name>.json in the
+// workspace-backups bucket, or <timestamp>.<trigger>-<name>.json for those
+// taken automatically. A manifest lists the files without their bytes;
+// each entry names a blob at <workspaceId>/blobs/<sha256>, so a file that
+// didn't change shares its blob with earlier snapshots. Snapshots from
+// before manifests have no version and carry the file content inline; they
+// are still listed, compared and restored.
+const SNAPSHOT_VERSION = 2;
+
+// Everything of a file row but its content, which is read in batches
+const SNAPSHOT_FILE_COLUMNS = 'id,path,file_type,size_bytes,storage_path,encoding,line_ending,read_only,revision,created_at,updated_at';
+const SNAPSHOT_BATCH_SIZE = 50;
+
+// `countsTowardsQuota` is false only for the safety snapshot restoreSnapshot
+// takes, which must not be refused for the number of snapshots. It's not
+// taken from the request, so clients can't skip the quota.
+async function createSnapshot(workspaceId: string, userId: string, params: any, countsTowardsQuota: boolean = true) {
+    const { name = `Snapshot ${new Date().toISOString()}`, excludePaths = [], trigger = 'manual' } = params;
+    if (!isSnapshotTrigger(trigger)) {
+        throw new Error(`Unknown snapshot trigger: ${trigger}`);
+    }
+    // Paths matched by the workspace's ignore files, sent by the client
+    const excluded = new Set<string>(excludePaths);
 
-    // Get all workspace files
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
     const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
-    const filesResponse = await fetch(`${supabaseUrl}/rest/v1/files?workspace_id=eq.${workspaceId}`, {
+    const workspaceIds = await listWorkspaceIds(userId);
+    if (!workspaceIds.includes(workspaceId)) {
+        throw new Error('Workspace not found or access denied');
+    }
+
+    const quotas = await getUserQuotas(userId);
+    const { snapshots } = await listSnapshots(workspaceId, userId);
+    if (countsTowardsQuota) {
+        assertWithinQuota('maxSnapshotsPerWorkspace', snapshots.length + 1, quotas);
+    }
+
+    const filesResponse = await fetch(`${supabaseUrl}/rest/v1/files?workspace_id=eq.${workspaceId}&select=${SNAPSHOT_FILE_COLUMNS}`, {
         headers: {
             'Authorization': `Bearer ${serviceRoleKey}`,
             'apikey': serviceRoleKey
@@ -334,20 +541,96 @@ async function createSnapshot(workspaceId: string, userId: string, params: any)
         throw new Error('Failed to get workspace files');
     }
 
-    const files = await filesResponse.json();
+    const files = (await filesResponse.json()).filter((file: any) => !excluded.has(file.path));
+
+    const foldersResponse = await fetch(`${supabaseUrl}/rest/v1/folders?workspace_id=eq.${workspaceId}`, {
+        headers: {
+            'Authorization': `Bearer ${serviceRoleKey}`,
+            'apikey': serviceRoleKey
+        }
+    });
+
+    if (!foldersResponse.ok) {
+        throw new Error('Failed to get workspace folders');
+    }
+
+    const folders = (await foldersResponse.json()).filter((folder: any) => !excluded.has(folder.path));
+
+    // Kept so a workspace forked from the snapshot starts out the same way
+    const workspaceResponse = await fetch(`${supabaseUrl}/rest/v1/workspaces?id=eq.${workspaceId}&select=template,settings`, {
+        headers: {
+            'Authorization': `Bearer ${serviceRoleKey}`,
+            'apikey': serviceRoleKey
+        }
+    });
+
+    if (!workspaceResponse.ok) {
+        throw new Error('Failed to get workspace');
+    }
+
+    const [workspace] = await workspaceResponse.json();
+
+    // A file whose row is at the same revision as in the latest snapshot
+    // still has the same bytes, so it keeps that snapshot's blob
+    const previous = new Map<string, any>();
+    const latest = snapshots[0] && await downloadSnapshot(workspaceId, snapshots[0].id);
+    if (latest?.version === SNAPSHOT_VERSION) {
+        latest.files.forEach((file: any) => previous.set(file.id, file));
+    }
+    const blobOf = (file: any) => {
+        const before = previous.get(file.id);
+        return before
+            && before.revision === file.revision
+            && before.storage_path === file.storage_path
+            && before.size_bytes === file.size_bytes
+            ? before.blob
+            : null;
+    };
+
+    // Checked before anything is uploaded, against what is stored already
+    // plus the files that changed since the latest snapshot
+    const changed = files.filter((file: any) => !blobOf(file));
+    const storedBytes = await snapshotStorageBytes(workspaceId);
+    const changedBytes = changed.reduce((sum: number, file: any) => sum + (file.size_bytes || 0), 0);
+    assertWithinQuota('maxSnapshotBytesPerWorkspace', storedBytes + changedBytes, quotas);
+
+    const blobs = new Map<string, string>();
+    const uploaded = new Set<string>(Array.from(previous.values(), (file: any) => file.blob));
+    for (let i = 0; i < changed.length; i += SNAPSHOT_BATCH_SIZE) {
+        const batch = changed.slice(i, i + SNAPSHOT_BATCH_SIZE);
+        const contents = await loadFileContents(batch.filter((file: any) => !file.storage_path).map((file: any) => file.id));
+
+        for (const file of batch) {
+            const bytes = file.storage_path
+                ? await downloadAsset(file.storage_path)
+                : new TextEncoder().encode(contents.get(file.id) ?? '');
+            const hash = await sha256(bytes);
+            if (!uploaded.has(hash)) {
+                await putBlob(workspaceId, hash, bytes);
+                uploaded.add(hash);
+            }
+            blobs.set(file.id, hash);
+        }
+    }
 
-    // Create snapshot data
     const snapshotData = {
+        version: SNAPSHOT_VERSION,
         name,
+        trigger,
         workspaceId,
-        files,
+        template: workspace?.template,
+        settings: parseWorkspaceSettings(workspace?.settings),
+        files: files.map((file: any) => ({ ...file, blob: blobOf(file) || blobs.get(file.id) })),
+        folders,
+        excludedPaths: excludePaths,
         createdAt: new Date().toISOString(),
         userId
     };
 
-    // Store snapshot in storage bucket
+    // Store the manifest in the storage bucket
     const snapshotJson = JSON.stringify(snapshotData, null, 2);
-    const snapshotFileName = `${workspaceId}/${Date.now()}-${name.replace(/[^a-zA-Z0-9]/g, '_')}.json`;
+    const tag = isAutomaticTrigger(trigger) ? `.${trigger}` : '';
+    const snapshotFileName = `${workspaceId}/${Date.now()}${tag}-${name.replace(/[^a-zA-Z0-9]/g, '_')}.json`;
 
     const uploadResponse = await fetch(`${supabaseUrl}/storage/v1/object/workspace-backups/${snapshotFileName}`, {
         method: 'POST',
@@ -367,33 +650,27 @@ async function createSnapshot(workspaceId: string, userId: string, params: any)
     return {
         snapshotId: snapshotFileName,
         name,
+        trigger,
         fileCount: files.length,
         message: 'Snapshot created successfully'
     };
 }
 
 async function listSnapshots(workspaceId: string, userId: string) {
-    const supabaseUrl = Deno.env.get('SUPABASE_URL');
-    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
-
-    // List files in the workspace backup folder
-    const response = await fetch(`${supabaseUrl}/storage/v1/object/list/workspace-backups?prefix=${workspaceId}/`, {
-        headers: {
-            'Authorization': `Bearer ${serviceRoleKey}`
-        }
-    });
-
-    if (!response.ok) {
-        throw new Error('Failed to list snapshots');
+    const workspaceIds = await listWorkspaceIds(userId);
+    if (!workspaceIds.includes(workspaceId)) {
+        throw new Error('Workspace not found or access denied');
     }
 
-    const files = await response.json();
+    // Manifests sit next to the blobs folder
+    const files = await listBackupObjects(`${workspaceId}/`);
 
     const snapshots = files
         .filter((file: any) => file.name.endsWith('.json'))
         .map((file: any) => ({
             id: `${workspaceId}/${file.name}`,
-            name: file.name.replace(/^\d+-/, '').replace(/\.json$/, '').replace(/_/g, ' '),
+            name: snapshotName(file.name),
+            trigger: snapshotTrigger(file.name),
             size: file.metadata?.size || 0,
             createdAt: new Date(file.created_at).toISOString()
         }))
@@ -405,58 +682,861 @@ async function listSnapshots(workspaceId: string, userId: string) {
     };
 }
 
-async function restoreSnapshot(workspaceId: string, userId: string, snapshotId: string) {
+// Apply the workspace's snapshot policy: take the snapshot it asks for, if
+// anything changed since the latest one, then prune the automatic snapshots
+// its retention rules don't keep. The client calls this on a timer while the
+// workspace is open (event "tick") and before edits that touch several files
+// (event "multi-file-edit").
+async function runSnapshotPolicy(workspaceId: string, userId: string, params: any) {
+    const { event = 'tick', excludePaths = [] } = params;
+
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
     const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
-    // Download snapshot
-    const downloadResponse = await fetch(`${supabaseUrl}/storage/v1/object/workspace-backups/${snapshotId}`, {
+    const workspaceResponse = await fetch(`${supabaseUrl}/rest/v1/workspaces?id=eq.${workspaceId}&user_id=eq.${userId}&select=settings`, {
         headers: {
-            'Authorization': `Bearer ${serviceRoleKey}`
+            'Authorization': `Bearer ${serviceRoleKey}`,
+            'apikey': serviceRoleKey
         }
     });
 
-    if (!downloadResponse.ok) {
-        throw new Error('Failed to download snapshot');
+    if (!workspaceResponse.ok) {
+        throw new Error('Failed to get workspace');
+    }
+
+    const workspaces = await workspaceResponse.json();
+    if (workspaces.length === 0) {
+        throw new Error('Workspace not found or access denied');
     }
 
-    const snapshotData = await downloadResponse.json();
+    const policy = resolveSnapshotPolicy(parseWorkspaceSettings(workspaces[0].settings));
+    const { snapshots } = await listSnapshots(workspaceId, userId);
 
-    // Delete existing files
-    await fetch(`${supabaseUrl}/rest/v1/files?workspace_id=eq.${workspaceId}`, {
+    let trigger = event === 'multi-file-edit'
+        ? (policy.beforeMultiFileEdits ? 'multi-file-edit' : null)
+        : dueSnapshotTrigger(policy, snapshots);
+    if (trigger && snapshots[0] && !await hasChangesSince(workspaceId, snapshots[0].createdAt)) {
+        trigger = null;
+    }
+
+    let snapshotId = null;
+    let skipped = null;
+    if (trigger) {
+        try {
+            const created = await createSnapshot(workspaceId, userId, {
+                name: `${trigger === 'multi-file-edit' ? 'Before edit' : 'Auto'} ${new Date().toISOString()}`,
+                excludePaths,
+                trigger
+            });
+            snapshotId = created.snapshotId;
+            snapshots.unshift({ id: snapshotId, name: created.name, trigger, size: 0, createdAt: new Date().toISOString() });
+        } catch (error) {
+            // A full quota skips this snapshot; pruning below makes room
+            if (!(error instanceof QuotaExceededError)) {
+                throw error;
+            }
+            skipped = error.message;
+        }
+    }
+
+    const pruned = snapshotsToPrune(snapshots, policy.retention);
+    await deleteSnapshots(workspaceId, userId, pruned);
+
+    return {
+        snapshotId,
+        trigger: snapshotId ? trigger : null,
+        skipped,
+        pruned: pruned.length
+    };
+}
+
+// Whether any file or folder was written, added or deleted after `since`
+async function hasChangesSince(workspaceId: string, since: string) {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const after = encodeURIComponent(since);
+
+    for (const query of [
+        `files?workspace_id=eq.${workspaceId}&updated_at=gt.${after}`,
+        `folders?workspace_id=eq.${workspaceId}&updated_at=gt.${after}`,
+        `trash_items?workspace_id=eq.${workspaceId}&deleted_at=gt.${after}`
+    ]) {
+        const response = await fetch(`${supabaseUrl}/rest/v1/${query}&select=id&limit=1`, {
+            headers: {
+                'Authorization': `Bearer ${serviceRoleKey}`,
+                'apikey': serviceRoleKey
+            }
+        });
+
+        if (!response.ok) {
+            throw new Error('Failed to check for workspace changes');
+        }
+
+        if ((await response.json()).length > 0) {
+            return true;
+        }
+    }
+    return false;
+}
+
+// Blobs younger than this may belong to a snapshot still being written, so
+// they are never collected
+const BLOB_GRACE_MS = 60 * 60 * 1000;
+
+// Remove snapshot manifests, then every blob no remaining manifest refers to
+async function deleteSnapshots(workspaceId: string, userId: string, snapshotIds: string[]) {
+    if (snapshotIds.length === 0) {
+        return;
+    }
+
+    await deleteBackupObjects(snapshotIds);
+
+    const referenced = new Set<string>();
+    const { snapshots } = await listSnapshots(workspaceId, userId);
+    for (const snapshot of snapshots) {
+        const manifest = await downloadSnapshot(workspaceId, snapshot.id);
+        if (manifest.version === SNAPSHOT_VERSION) {
+            manifest.files.forEach((file: any) => referenced.add(file.blob));
+        }
+    }
+
+    const cutoff = Date.now() - BLOB_GRACE_MS;
+    const unreferenced = (await listBackupObjects(`${workspaceId}/blobs/`))
+        .filter((object: any) => !referenced.has(object.name) && new Date(object.created_at).getTime() < cutoff)
+        .map((object: any) => blobKey(workspaceId, object.name));
+    await deleteBackupObjects(unreferenced);
+}
+
+async function deleteBackupObjects(keys: string[]) {
+    if (keys.length === 0) {
+        return;
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    const response = await fetch(`${supabaseUrl}/storage/v1/object/workspace-backups`, {
         method: 'DELETE',
+        headers: {
+            'Authorization': `Bearer ${serviceRoleKey}`,
+            'apikey': serviceRoleKey,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ prefixes: keys })
+    });
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to delete snapshots: ${errorText}`);
+    }
+}
+
+// Restore a snapshot, or only `paths` from it, in one transaction. A safety
+// snapshot of the workspace is taken first so the restore can be undone.
+async function restoreSnapshot(workspaceId: string, userId: string, params: any) {
+    const { snapshotId, paths = null, excludePaths = [] } = params;
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    const workspaceIds = await listWorkspaceIds(userId);
+    if (!workspaceIds.includes(workspaceId)) {
+        throw new Error('Workspace not found or access denied');
+    }
+
+    const snapshotData = await downloadSnapshot(workspaceId, snapshotId);
+    const snapshotFolders = canonicalRows(snapshotData.folders || []);
+    const snapshotFiles = canonicalRows(snapshotData.files || []);
+
+    const scope: string[] | null = paths && paths.map((path: string) => normalizePath(path));
+    const inScope = (path: string) =>
+        !scope || scope.some(selected => path === selected || path.startsWith(`${selected}/`));
+    const files = snapshotFiles.rows.filter((file: any) => inScope(file.path));
+    const folders = snapshotFolders.rows.filter((folder: any) => inScope(folder.path));
+    const skippedPaths = [...snapshotFolders.skipped, ...snapshotFiles.skipped].filter(inScope);
+
+    if (scope) {
+        if (files.length === 0 && folders.length === 0) {
+            throw new Error('None of the selected paths are in the snapshot');
+        }
+
+        // Restored paths must not collide with what stays in the workspace
+        const existingResponse = await fetch(`${supabaseUrl}/rest/v1/files?workspace_id=eq.${workspaceId}&select=path`, {
+            headers: {
+                'Authorization': `Bearer ${serviceRoleKey}`,
+                'apikey': serviceRoleKey
+            }
+        });
+
+        if (!existingResponse.ok) {
+            throw new Error('Failed to get workspace files');
+        }
+
+        const remaining = (await existingResponse.json())
+            .map((file: any) => file.path)
+            .filter((path: string) => !inScope(path));
+        files.forEach((file: any) => assertPathAvailable(file.path, remaining));
+    }
+
+    const safety = await createSnapshot(workspaceId, userId, {
+        name: `Before restoring ${snapshotName(snapshotId.split('/').pop())}`,
+        excludePaths,
+        trigger: 'restore'
+    }, false);
+
+    // Binary files are copied for the workspace; the copies are removed
+    // again if the restore fails
+    const assets: string[] = [];
+    try {
+        const rows = [];
+        for (const file of files) {
+            const row = await snapshotFileRow(workspaceId, file);
+            if (row.storage_path) {
+                assets.push(row.storage_path);
+            }
+            rows.push(row);
+        }
+
+        const response = await fetch(`${supabaseUrl}/rest/v1/rpc/restore_snapshot`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${serviceRoleKey}`,
+                'apikey': serviceRoleKey,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+                p_workspace_id: workspaceId,
+                p_files: rows,
+                p_folders: folders,
+                // Files the snapshot left out as ignored stay as they are
+                p_keep_paths: snapshotData.excludedPaths || [],
+                p_paths: scope
+            })
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`Failed to restore snapshot: ${errorText}`);
+        }
+    } catch (error) {
+        await deleteAssets(assets);
+        throw error;
+    }
+
+    // The safety snapshot went past the quota, so the automatic snapshots
+    // the retention rules don't keep go now rather than at the next policy run
+    const workspaceResponse = await fetch(`${supabaseUrl}/rest/v1/workspaces?id=eq.${workspaceId}&select=settings`, {
         headers: {
             'Authorization': `Bearer ${serviceRoleKey}`,
             'apikey': serviceRoleKey
         }
     });
 
-    // Restore files from snapshot
-    if (snapshotData.files && snapshotData.files.length > 0) {
-        for (const file of snapshotData.files) {
-            const { id, ...fileData } = file; // Remove id to let database generate new one
-            
-            await fetch(`${supabaseUrl}/rest/v1/files`, {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${serviceRoleKey}`,
-                    'apikey': serviceRoleKey,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({
-                    ...fileData,
-                    workspace_id: workspaceId
-                })
-            });
-        }
+    if (!workspaceResponse.ok) {
+        throw new Error('Failed to get workspace');
     }
 
+    const [workspace] = await workspaceResponse.json();
+    const { retention } = resolveSnapshotPolicy(parseWorkspaceSettings(workspace.settings));
+    const { snapshots } = await listSnapshots(workspaceId, userId);
+    await deleteSnapshots(
+        workspaceId,
+        userId,
+        snapshotsToPrune(snapshots, retention).filter(id => id !== safety.snapshotId)
+    );
+
     return {
         message: 'Snapshot restored successfully',
-        restoredFiles: snapshotData.files?.length || 0
+        restoredFiles: files.length,
+        restoredFolders: folders.length,
+        skippedPaths,
+        safetySnapshotId: safety.snapshotId
     };
 }
 
+// Create a workspace from a snapshot, leaving the snapshot's workspace as it
+// is. The workspace is made by createWorkspace with the snapshot's template
+// and settings and records what it was forked from; its files and folders
+// are then written by restore_snapshot() in one transaction. If that fails,
+// the new workspace and its copied binary files are removed again.
+async function forkSnapshot(workspaceId: string, userId: string, params: any) {
+    const { snapshotId, name, description } = params;
+
+    if (!name) {
+        throw new Error('Workspace name is required');
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    const workspaceIds = await listWorkspaceIds(userId);
+    if (!workspaceIds.includes(workspaceId)) {
+        throw new Error('Workspace not found or access denied');
+    }
+
+    const snapshotData = await downloadSnapshot(workspaceId, snapshotId);
+    const { rows: files, skipped: skippedFiles } = canonicalRows(snapshotData.files || []);
+    const { rows: folders, skipped: skippedFolders } = canonicalRows(snapshotData.folders || []);
+
+    const quotas = await getUserQuotas(userId);
+    const filesResponse = await fetch(`${supabaseUrl}/rest/v1/files?workspace_id=in.(${workspaceIds.join(',')})&select=size_bytes`, {
+        headers: {
+            'Authorization': `Bearer ${serviceRoleKey}`,
+            'apikey': serviceRoleKey
+        }
+    });
+
+    if (!filesResponse.ok) {
+        throw new Error('Failed to get workspace files');
+    }
+
+    const userBytes = (await filesResponse.json()).reduce((sum: number, file: any) => sum + (file.size_bytes || 0), 0);
+    const snapshotBytes = files.reduce((sum: number, file: any) => sum + (file.size_bytes || 0), 0);
+    assertWithinQuota('maxUserBytes', userBytes + snapshotBytes, quotas);
+
+    // Snapshots from before templates and settings were kept take the
+    // source workspace's current ones
+    const sourceResponse = await fetch(`${supabaseUrl}/rest/v1/workspaces?id=eq.${workspaceId}&select=name,template,settings`, {
+        headers: {
+            'Authorization': `Bearer ${serviceRoleKey}`,
+            'apikey': serviceRoleKey
+        }
+    });
+
+    if (!sourceResponse.ok) {
+        throw new Error('Failed to get workspace');
+    }
+
+    const [source] = await sourceResponse.json();
+    const snapshotTitle = snapshotData.name || snapshotName(snapshotId.split('/').pop());
+
+    const { workspace } = await createWorkspace(userId, {
+        name,
+        description: description ?? `Forked from ${source.name} at "${snapshotTitle}"`,
+        template: snapshotData.template ?? source.template,
+        settings: parseWorkspaceSettings(snapshotData.settings ?? source.settings),
+        forkedFrom: {
+            workspaceId,
+            snapshotId,
+            snapshotName: snapshotTitle,
+            snapshotCreatedAt: snapshotData.createdAt ?? null
+        }
+    });
+
+    const assets: string[] = [];
+    try {
+        const rows = [];
+        for (const file of files) {
+            const row = await snapshotFileRow(workspaceId, file, workspace.id);
+            if (row.storage_path) {
+                assets.push(row.storage_path);
+            }
+            rows.push(row);
+        }
+
+        const response = await fetch(`${supabaseUrl}/rest/v1/rpc/restore_snapshot`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${serviceRoleKey}`,
+                'apikey': serviceRoleKey,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+                p_workspace_id: workspace.id,
+                p_files: rows,
+                p_folders: folders,
+                p_keep_paths: [],
+                p_paths: null
+            })
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`Failed to fork snapshot: ${errorText}`);
+        }
+    } catch (error) {
+        await deleteAssets(assets);
+        await deleteWorkspace(workspace.id, userId);
+        throw error;
+    }
+
+    return {
+        workspaceId: workspace.id,
+        fileCount: files.length,
+        skippedPaths: [...skippedFolders, ...skippedFiles],
+        message: 'Workspace forked successfully'
+    };
+}
+
+// Paths in a snapshot, without their content, to choose a partial restore from
+async function listSnapshotFiles(workspaceId: string, userId: string, snapshotId: string) {
+    const workspaceIds = await listWorkspaceIds(userId);
+    if (!workspaceIds.includes(workspaceId)) {
+        throw new Error('Workspace not found or access denied');
+    }
+
+    const snapshotData = await downloadSnapshot(workspaceId, snapshotId);
+
+    // The paths a restore would write, so they can be chosen from
+    return {
+        files: canonicalRows(snapshotData.files || []).rows.map((file: any) => ({
+            path: file.path,
+            size: file.size_bytes || 0
+        })),
+        folders: canonicalRows(snapshotData.folders || []).rows.map((folder: any) => folder.path)
+    };
+}
+
+// Files added, removed and modified going from one snapshot to another.
+// A null `to` stands for the workspace as it is now. Paths either side left
+// out as ignored are not compared.
+async function diffSnapshots(workspaceId: string, userId: string, params: any) {
+    const { from, to = null } = params;
+
+    const workspaceIds = await listWorkspaceIds(userId);
+    if (!workspaceIds.includes(workspaceId)) {
+        throw new Error('Workspace not found or access denied');
+    }
+
+    const before = await loadFileSet(workspaceId, from);
+    const after = await loadFileSet(workspaceId, to);
+    const excluded = new Set<string>([...before.excludedPaths, ...after.excludedPaths]);
+
+    const beforeFiles = new Map<string, any>(before.files.map((file: any) => [file.path, file]));
+    const afterFiles = new Map<string, any>(after.files.map((file: any) => [file.path, file]));
+    const paths = new Set<string>([...beforeFiles.keys(), ...afterFiles.keys()]);
+
+    const changes = [];
+    for (const path of paths) {
+        if (excluded.has(path)) continue;
+
+        const oldFile = beforeFiles.get(path);
+        const newFile = afterFiles.get(path);
+        const status = !oldFile ? 'added' : !newFile ? 'removed' : isFileModified(oldFile, newFile) ? 'modified' : null;
+        if (!status) continue;
+
+        changes.push({
+            path,
+            status,
+            binary: !!(oldFile?.storage_path || newFile?.storage_path),
+            beforeSize: oldFile ? oldFile.size_bytes || 0 : null,
+            afterSize: newFile ? newFile.size_bytes || 0 : null
+        });
+    }
+
+    changes.sort((a, b) => a.path.localeCompare(b.path));
+    return { from, to, changes };
+}
+
+// Both sides of one file for a diff view; a side is null where the file
+// doesn't exist, and binary files have no text to show
+async function diffSnapshotFile(workspaceId: string, userId: string, params: any) {
+    const { from, to = null, path } = params;
+
+    const workspaceIds = await listWorkspaceIds(userId);
+    if (!workspaceIds.includes(workspaceId)) {
+        throw new Error('Workspace not found or access denied');
+    }
+
+    const before = (await loadFileSet(workspaceId, from)).files.find((file: any) => file.path === path);
+    const after = (await loadFileSet(workspaceId, to)).files.find((file: any) => file.path === path);
+    const textOf = async (file: any) => {
+        if (!file) return null;
+        if (file.storage_path) return '';
+        return file.blob ? await readBlobText(workspaceId, file.blob) : file.content ?? '';
+    };
+
+    return {
+        path,
+        binary: !!(before?.storage_path || after?.storage_path),
+        before: await textOf(before),
+        after: await textOf(after)
+    };
+}
+
+// Files compare by the hash of their bytes where both sides have one. The
+// workspace's binary files and those in legacy snapshots have none, so they
+// compare by size and modification time.
+function isFileModified(before: any, after: any) {
+    if (before.hash && after.hash) {
+        return before.hash !== after.hash;
+    }
+    return !before.storage_path !== !after.storage_path
+        || before.size_bytes !== after.size_bytes
+        || before.updated_at !== after.updated_at;
+}
+
+// The files of a snapshot, or of the workspace itself when snapshotId is
+// null, each with the hash of its bytes where it is known
+async function loadFileSet(workspaceId: string, snapshotId: string | null) {
+    const withHashes = (files: any[]) => Promise.all(files.map(async (file: any) => ({
+        ...file,
+        hash: file.blob || (file.storage_path ? null : await sha256(new TextEncoder().encode(file.content ?? '')))
+    })));
+
+    if (snapshotId) {
+        const snapshotData = await downloadSnapshot(workspaceId, snapshotId);
+        return {
+            files: await withHashes(snapshotData.files || []),
+            excludedPaths: snapshotData.excludedPaths || []
+        };
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    const response = await fetch(`${supabaseUrl}/rest/v1/files?workspace_id=eq.${workspaceId}`, {
+        headers: {
+            'Authorization': `Bearer ${serviceRoleKey}`,
+            'apikey': serviceRoleKey
+        }
+    });
+
+    if (!response.ok) {
+        throw new Error('Failed to get workspace files');
+    }
+
+    return { files: await withHashes(await response.json()), excludedPaths: [] };
+}
+
+async function downloadSnapshot(workspaceId: string, snapshotId: string) {
+    if (!snapshotId || !snapshotId.startsWith(`${workspaceId}/`)) {
+        throw new Error('Snapshot not found');
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    const response = await fetch(`${supabaseUrl}/storage/v1/object/workspace-backups/${snapshotId}`, {
+        headers: {
+            'Authorization': `Bearer ${serviceRoleKey}`
+        }
+    });
+
+    if (!response.ok) {
+        throw new Error('Failed to download snapshot');
+    }
+
+    return await response.json();
+}
+
+// Display name of a snapshot from its object name,
+// "<timestamp>[.<trigger>]-<name>.json"
+function snapshotName(fileName: string) {
+    return fileName.replace(/^\d+(\.[a-z-]+)?-/, '').replace(/\.json$/, '').replace(/_/g, ' ');
+}
+
+// Why a snapshot was taken; names without a trigger are manual snapshots
+function snapshotTrigger(fileName: string) {
+    const trigger = fileName.match(/^\d+\.([a-z-]+)-/)?.[1];
+    return isSnapshotTrigger(trigger) ? trigger : 'manual';
+}
+
+// Limits for the user, merged from their user_quotas row over the defaults
+async function getUserQuotas(userId: string) {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    const response = await fetch(`${supabaseUrl}/rest/v1/user_quotas?user_id=eq.${userId}`, {
+        headers: {
+            'Authorization': `Bearer ${serviceRoleKey}`,
+            'apikey': serviceRoleKey
+        }
+    });
+
+    if (!response.ok) {
+        throw new Error('Failed to get quotas');
+    }
+
+    const rows = await response.json();
+    return resolveQuotas(rows[0]);
+}
+
+async function listWorkspaceIds(userId: string): Promise<string[]> {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    const response = await fetch(`${supabaseUrl}/rest/v1/workspaces?user_id=eq.${userId}&select=id`, {
+        headers: {
+            'Authorization': `Bearer ${serviceRoleKey}`,
+            'apikey': serviceRoleKey
+        }
+    });
+
+    if (!response.ok) {
+        throw new Error('Failed to list workspaces');
+    }
+
+    return (await response.json()).map((workspace: any) => workspace.id);
+}
+
+// Usage that only the server can see: storage across all of the user's
+// workspaces and the workspace's snapshots, next to the user's limits
+async function getUsage(workspaceId: string, userId: string) {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    const workspaceIds = await listWorkspaceIds(userId);
+    if (!workspaceIds.includes(workspaceId)) {
+        throw new Error('Workspace not found or access denied');
+    }
+
+    const filesResponse = await fetch(`${supabaseUrl}/rest/v1/files?workspace_id=in.(${workspaceIds.join(',')})&select=size_bytes`, {
+        headers: {
+            'Authorization': `Bearer ${serviceRoleKey}`,
+            'apikey': serviceRoleKey
+        }
+    });
+
+    if (!filesResponse.ok) {
+        throw new Error('Failed to get workspace files');
+    }
+
+    const files = await filesResponse.json();
+    const { snapshots } = await listSnapshots(workspaceId, userId);
+
+    return {
+        quotas: await getUserQuotas(userId),
+        workspaceCount: workspaceIds.length,
+        userBytes: files.reduce((sum: number, file: any) => sum + (file.size_bytes || 0), 0),
+        snapshotCount: snapshots.length,
+        snapshotBytes: await snapshotStorageBytes(workspaceId)
+    };
+}
+
+// Snapshot rows with the paths the client would have written itself.
+// Snapshots from before paths were validated may hold paths like
+// "/src//App.tsx", which are normalized; rows whose path can't be, or that
+// end up on a path taken by an earlier row, are skipped and named in
+// `skipped`.
+function canonicalRows<T extends { path: string }>(rows: T[]): { rows: T[]; skipped: string[] } {
+    const canonical: T[] = [];
+    const skipped: string[] = [];
+    const seen = new Set<string>();
+
+    for (const row of rows) {
+        let path: string;
+        try {
+            path = normalizePath(row.path.replace(/^[\\/]+/, ''));
+        } catch {
+            skipped.push(row.path);
+            continue;
+        }
+
+        if (seen.has(path)) {
+            skipped.push(row.path);
+            continue;
+        }
+        seen.add(path);
+        canonical.push(path === row.path ? row : { ...row, path });
+    }
+
+    return { rows: canonical, skipped };
+}
+
+// Content of text files by id
+async function loadFileContents(ids: string[]) {
+    const contents = new Map<string, string>();
+    if (ids.length === 0) {
+        return contents;
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    const response = await fetch(`${supabaseUrl}/rest/v1/files?id=in.(${ids.join(',')})&select=id,content`, {
+        headers: {
+            'Authorization': `Bearer ${serviceRoleKey}`,
+            'apikey': serviceRoleKey
+        }
+    });
+
+    if (!response.ok) {
+        throw new Error('Failed to get file contents');
+    }
+
+    for (const row of await response.json()) {
+        contents.set(row.id, row.content ?? '');
+    }
+    return contents;
+}
+
+async function downloadAsset(key: string) {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    const response = await fetch(`${supabaseUrl}/storage/v1/object/file-assets/${key}`, {
+        headers: {
+            'Authorization': `Bearer ${serviceRoleKey}`
+        }
+    });
+
+    if (!response.ok) {
+        throw new Error(`Failed to download stored file ${key}`);
+    }
+
+    return new Uint8Array(await response.arrayBuffer());
+}
+
+async function sha256(bytes: Uint8Array) {
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function blobKey(workspaceId: string, hash: string) {
+    return `${workspaceId}/blobs/${hash}`;
+}
+
+// Blobs are named by their content, so writing one again changes nothing
+async function putBlob(workspaceId: string, hash: string, bytes: Uint8Array) {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    const response = await fetch(`${supabaseUrl}/storage/v1/object/workspace-backups/${blobKey(workspaceId, hash)}`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${serviceRoleKey}`,
+            'Content-Type': 'application/octet-stream',
+            'x-upsert': 'true'
+        },
+        body: bytes
+    });
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to store snapshot blob: ${errorText}`);
+    }
+}
+
+async function readBlobText(workspaceId: string, hash: string) {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    const response = await fetch(`${supabaseUrl}/storage/v1/object/workspace-backups/${blobKey(workspaceId, hash)}`, {
+        headers: {
+            'Authorization': `Bearer ${serviceRoleKey}`
+        }
+    });
+
+    if (!response.ok) {
+        throw new Error(`Failed to read snapshot blob ${hash}`);
+    }
+
+    return new TextDecoder().decode(await response.arrayBuffer());
+}
+
+// A snapshot file's row as it is written back to the workspace, or to
+// `targetId` for a fork: text comes from its blob or the legacy inline
+// content, and binary files get their own copy in the file-assets bucket
+async function snapshotFileRow(workspaceId: string, file: any, targetId: string = workspaceId) {
+    const { id, workspace_id, revision, blob, locked_by, locked_by_name, lock_expires_at, ...row } = file;
+
+    if (blob) {
+        if (row.storage_path) {
+            row.storage_path = await copyAsset(blobKey(workspaceId, blob), targetId, 'workspace-backups');
+        } else {
+            row.content = await readBlobText(workspaceId, blob);
+        }
+    } else if (row.storage_path) {
+        row.storage_path = await copyAsset(row.storage_path, targetId);
+    }
+    return row;
+}
+
+// Objects directly under `prefix` in workspace-backups, page by page
+async function listBackupObjects(prefix: string) {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const pageSize = 1000;
+
+    const objects = [];
+    for (let offset = 0; ; offset += pageSize) {
+        const response = await fetch(`${supabaseUrl}/storage/v1/object/list/workspace-backups`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${serviceRoleKey}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ prefix, limit: pageSize, offset })
+        });
+
+        if (!response.ok) {
+            throw new Error('Failed to list snapshots');
+        }
+
+        const page = await response.json();
+        objects.push(...page);
+        if (page.length < pageSize) {
+            return objects;
+        }
+    }
+}
+
+// What a workspace's snapshots take up: the manifests and every blob,
+// however many snapshots share it
+async function snapshotStorageBytes(workspaceId: string) {
+    const objects = [
+        ...await listBackupObjects(`${workspaceId}/`),
+        ...await listBackupObjects(`${workspaceId}/blobs/`)
+    ];
+    return objects.reduce((sum: number, object: any) => sum + (object.metadata?.size || 0), 0);
+}
+
+// Copy a binary file's bytes to a fresh key in the file-assets bucket and
+// return that key
+async function copyAsset(sourceKey: string, workspaceId: string, sourceBucket: string = 'file-assets') {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    const destinationKey = `${workspaceId}/.assets/${crypto.randomUUID()}`;
+    const response = await fetch(`${supabaseUrl}/storage/v1/object/copy`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${serviceRoleKey}`,
+            'apikey': serviceRoleKey,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+            bucketId: sourceBucket,
+            sourceKey,
+            destinationBucket: 'file-assets',
+            destinationKey
+        })
+    });
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to copy stored file ${sourceKey}: ${errorText}`);
+    }
+
+    return destinationKey;
+}
+
+// Remove copies made for an operation that failed; errors are only logged
+// since the copies are unreferenced either way
+async function deleteAssets(keys: string[]) {
+    if (keys.length === 0) {
+        return;
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    const response = await fetch(`${supabaseUrl}/storage/v1/object/file-assets`, {
+        method: 'DELETE',
+        headers: {
+            'Authorization': `Bearer ${serviceRoleKey}`,
+            'apikey': serviceRoleKey,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ prefixes: keys })
+    });
+
+    if (!response.ok) {
+        console.error('Failed to remove stored files:', await response.text());
+    }
+}
+
 async function createTemplateFiles(workspaceId: string, template: string) {
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
     const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
@@ -503,7 +1583,7 @@ async function createTemplateFiles(workspaceId: string, template: string) {
                 path: file.path,
                 content: file.content,
                 file_type: file.file_type,
-                size_bytes: file.content.length
+                size_bytes: new TextEncoder().encode(file.content).length
             })
         });
     }
@@ -0,0 +1,28 @@
+-- Per-file revision history. One row per save; pruned by the client
+-- according to the workspace's revisionRetention setting.
+create table if not exists public.file_revisions (
+    id uuid primary key default gen_random_uuid(),
+    workspace_id uuid not null references public.workspaces(id) on delete cascade,
+    file_id uuid not null references public.files(id) on delete cascade,
+    path text not null,
+    content text not null default '',
+    size_bytes integer not null default 0,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists file_revisions_file_id_created_at_idx
+    on public.file_revisions (file_id, created_at desc);
+
+alter table public.file_revisions enable row level security;
+
+create policy "Users manage revisions in their workspaces"
+    on public.file_revisions
+    for all
+    using (exists (
+        select 1 from public.workspaces w
+        where w.id = file_revisions.workspace_id and w.user_id = auth.uid()
+    ))
+    with check (exists (
+        select 1 from public.workspaces w
+        where w.id = file_revisions.workspace_id and w.user_id = auth.uid()
+    ));
@@ -0,0 +1,36 @@
+-- Atomically move a file or a whole folder prefix. Runs as the caller so
+-- row level security on `files` still applies.
+create or replace function public.move_path(p_workspace_id uuid, p_from text, p_to text)
+returns table (old_path text, new_path text)
+language plpgsql
+security invoker
+as $$
+begin
+    if p_to = p_from or left(p_to, length(p_from) + 1) = p_from || '/' then
+        raise exception 'Cannot move % into itself', p_from;
+    end if;
+
+    if exists (
+        select 1 from public.files f
+        where f.workspace_id = p_workspace_id
+          and (f.path = p_to or left(f.path, length(p_to) + 1) = p_to || '/')
+    ) then
+        raise exception 'Destination % already exists', p_to;
+    end if;
+
+    return query
+    with moved as (
+        select f.id, f.path as before
+        from public.files f
+        where f.workspace_id = p_workspace_id
+          and (f.path = p_from or left(f.path, length(p_from) + 1) = p_from || '/')
+        for update
+    )
+    update public.files f
+    set path = p_to || substr(m.before, length(p_from) + 1),
+        updated_at = now()
+    from moved m
+    where f.id = m.id
+    returning m.before, f.path;
+end;
+$$;
@@ -0,0 +1,71 @@
+-- Folders stored as first-class entries so empty folders survive reloads
+create table if not exists public.folders (
+    id uuid primary key default gen_random_uuid(),
+    workspace_id uuid not null references public.workspaces(id) on delete cascade,
+    path text not null,
+    description text,
+    is_collapsed boolean not null default false,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    unique (workspace_id, path)
+);
+
+alter table public.folders enable row level security;
+
+create policy "Users manage folders in their workspaces"
+    on public.folders
+    for all
+    using (exists (
+        select 1 from public.workspaces w
+        where w.id = folders.workspace_id and w.user_id = auth.uid()
+    ))
+    with check (exists (
+        select 1 from public.workspaces w
+        where w.id = folders.workspace_id and w.user_id = auth.uid()
+    ));
+
+-- move_path now carries folder records along with files
+create or replace function public.move_path(p_workspace_id uuid, p_from text, p_to text)
+returns table (old_path text, new_path text)
+language plpgsql
+security invoker
+as $$
+begin
+    if p_to = p_from or left(p_to, length(p_from) + 1) = p_from || '/' then
+        raise exception 'Cannot move % into itself', p_from;
+    end if;
+
+    if exists (
+        select 1 from public.files f
+        where f.workspace_id = p_workspace_id
+          and (f.path = p_to or left(f.path, length(p_to) + 1) = p_to || '/')
+    ) or exists (
+        select 1 from public.folders d
+        where d.workspace_id = p_workspace_id
+          and (d.path = p_to or left(d.path, length(p_to) + 1) = p_to || '/')
+    ) then
+        raise exception 'Destination % already exists', p_to;
+    end if;
+
+    return query
+    with moved_folders as (
+        update public.folders d
+        set path = p_to || substr(d.path, length(p_from) + 1),
+            updated_at = now()
+        where d.workspace_id = p_workspace_id
+          and (d.path = p_from or left(d.path, length(p_from) + 1) = p_from || '/')
+        returning p_from || substr(d.path, length(p_to) + 1) as before, d.path as after
+    ),
+    moved_files as (
+        update public.files f
+        set path = p_to || substr(f.path, length(p_from) + 1),
+            updated_at = now()
+        where f.workspace_id = p_workspace_id
+          and (f.path = p_from or left(f.path, length(p_from) + 1) = p_from || '/')
+        returning p_from || substr(f.path, length(p_to) + 1) as before, f.path as after
+    )
+    select before, after from moved_folders
+    union all
+    select before, after from moved_files;
+end;
+$$;
@@ -0,0 +1,25 @@
+-- Optimistic concurrency for file saves. Every content change must bump
+-- `revision` by exactly one, so a client writing from a stale copy is
+-- rejected instead of silently overwriting someone else's work.
+alter table public.files
+    add column if not exists revision integer not null default 1;
+
+create or replace function public.enforce_file_revision()
+returns trigger
+language plpgsql
+as $$
+begin
+    if new.content is distinct from old.content
+       and new.revision is distinct from old.revision + 1 then
+        raise exception 'Stale revision for %: expected %, got %', old.path, old.revision + 1, new.revision
+            using errcode = '40001';
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists files_enforce_revision on public.files;
+create trigger files_enforce_revision
+    before update on public.files
+    for each row
+    execute function public.enforce_file_revision();
@@ -0,0 +1,7 @@
+-- Stream file and folder row changes to clients watching a workspace
+alter publication supabase_realtime add table public.files, public.folders;
+
+-- Deletes carry the whole old row, so the workspace filter applies to them
+-- and clients learn which path went away
+alter table public.files replica identity full;
+alter table public.folders replica identity full;
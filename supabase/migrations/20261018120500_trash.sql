@@ -0,0 +1,30 @@
+-- Deleted files and folders, kept with a copy of their rows until restored,
+-- purged, or past expires_at. Expired items are purged by the client
+-- according to the workspace's trashRetentionDays setting.
+create table if not exists public.trash_items (
+    id uuid primary key default gen_random_uuid(),
+    workspace_id uuid not null references public.workspaces(id) on delete cascade,
+    path text not null,
+    item_type text not null check (item_type in ('file', 'folder')),
+    files jsonb not null default '[]'::jsonb,
+    folders jsonb not null default '[]'::jsonb,
+    deleted_at timestamptz not null default now(),
+    expires_at timestamptz not null
+);
+
+create index if not exists trash_items_workspace_id_deleted_at_idx
+    on public.trash_items (workspace_id, deleted_at desc);
+
+alter table public.trash_items enable row level security;
+
+create policy "Users manage trash in their workspaces"
+    on public.trash_items
+    for all
+    using (exists (
+        select 1 from public.workspaces w
+        where w.id = trash_items.workspace_id and w.user_id = auth.uid()
+    ))
+    with check (exists (
+        select 1 from public.workspaces w
+        where w.id = trash_items.workspace_id and w.user_id = auth.uid()
+    ));
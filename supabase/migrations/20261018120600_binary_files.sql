@@ -0,0 +1,10 @@
+-- Binary files keep their bytes in the file-assets bucket. The row carries
+-- the object key in storage_path and an empty content; size_bytes is the
+-- object's size. Object keys are never reused, so renames and moves leave
+-- storage untouched.
+alter table public.files
+    add column if not exists storage_path text;
+
+create index if not exists files_storage_path_idx
+    on public.files (storage_path)
+    where storage_path is not null;
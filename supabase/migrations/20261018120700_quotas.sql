@@ -0,0 +1,125 @@
+-- Per-user storage quotas. Users without a row, or with a null column, get
+-- the defaults from supabase/functions/_shared/quotas.ts (DEFAULT_QUOTAS),
+-- which are repeated in public.user_quota() below. Rows are managed by the
+-- service role; users can only read their own.
+create table if not exists public.user_quotas (
+    user_id uuid primary key references auth.users(id) on delete cascade,
+    max_file_bytes bigint,
+    max_files_per_workspace integer,
+    max_workspace_bytes bigint,
+    max_user_bytes bigint,
+    max_workspaces integer,
+    max_snapshots_per_workspace integer,
+    max_snapshot_bytes_per_workspace bigint,
+    updated_at timestamptz not null default now()
+);
+
+alter table public.user_quotas enable row level security;
+
+create policy "Users read their own quotas"
+    on public.user_quotas
+    for select
+    using (user_id = auth.uid());
+
+create or replace function public.user_quota(p_user_id uuid)
+returns table (
+    max_file_bytes bigint,
+    max_files_per_workspace integer,
+    max_workspace_bytes bigint,
+    max_user_bytes bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select
+        coalesce(q.max_file_bytes, 10 * 1024 * 1024),
+        coalesce(q.max_files_per_workspace, 5000),
+        coalesce(q.max_workspace_bytes, 100 * 1024 * 1024),
+        coalesce(q.max_user_bytes, 500 * 1024 * 1024)
+    from (select p_user_id as user_id) u
+    left join public.user_quotas q on q.user_id = u.user_id;
+$$;
+
+-- File writes that would go over a limit are rejected with 53400
+-- (configuration_limit_exceeded). Writes that don't grow anything, like
+-- renames or shrinking a file, always pass so an over-quota workspace can
+-- be cleaned up.
+create or replace function public.enforce_file_quota()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_user_id uuid;
+    v_quota record;
+    v_size bigint;
+    v_previous bigint := 0;
+    v_count integer;
+    v_workspace_bytes bigint;
+    v_user_bytes bigint;
+begin
+    -- Text files are measured by their content; binary files keep the size
+    -- of their object, which the database cannot see
+    if new.storage_path is null then
+        new.size_bytes := coalesce(octet_length(new.content), 0);
+    end if;
+
+    if tg_op = 'UPDATE' and coalesce(new.size_bytes, 0) <= coalesce(old.size_bytes, 0) then
+        return new;
+    end if;
+
+    v_size := coalesce(new.size_bytes, 0);
+    if tg_op = 'UPDATE' then
+        v_previous := coalesce(old.size_bytes, 0);
+    end if;
+
+    select w.user_id into v_user_id from public.workspaces w where w.id = new.workspace_id;
+    select * into v_quota from public.user_quota(v_user_id);
+
+    if v_size > v_quota.max_file_bytes then
+        raise exception 'Quota exceeded: file size would be %, the limit is %',
+            pg_size_pretty(v_size), pg_size_pretty(v_quota.max_file_bytes)
+            using errcode = '53400';
+    end if;
+
+    if tg_op = 'INSERT' then
+        select count(*) into v_count from public.files f where f.workspace_id = new.workspace_id;
+        if v_count + 1 > v_quota.max_files_per_workspace then
+            raise exception 'Quota exceeded: files in workspace would be %, the limit is %',
+                v_count + 1, v_quota.max_files_per_workspace
+                using errcode = '53400';
+        end if;
+    end if;
+
+    select coalesce(sum(f.size_bytes), 0) into v_workspace_bytes
+    from public.files f where f.workspace_id = new.workspace_id;
+    v_workspace_bytes := v_workspace_bytes - v_previous + v_size;
+    if v_workspace_bytes > v_quota.max_workspace_bytes then
+        raise exception 'Quota exceeded: workspace size would be %, the limit is %',
+            pg_size_pretty(v_workspace_bytes), pg_size_pretty(v_quota.max_workspace_bytes)
+            using errcode = '53400';
+    end if;
+
+    select coalesce(sum(f.size_bytes), 0) into v_user_bytes
+    from public.files f
+    join public.workspaces w on w.id = f.workspace_id
+    where w.user_id = v_user_id;
+    v_user_bytes := v_user_bytes - v_previous + v_size;
+    if v_user_bytes > v_quota.max_user_bytes then
+        raise exception 'Quota exceeded: storage across workspaces would be %, the limit is %',
+            pg_size_pretty(v_user_bytes), pg_size_pretty(v_quota.max_user_bytes)
+            using errcode = '53400';
+    end if;
+
+    return new;
+end;
+$$;
+
+drop trigger if exists files_enforce_quota on public.files;
+create trigger files_enforce_quota
+    before insert or update of content, size_bytes, storage_path on public.files
+    for each row
+    execute function public.enforce_file_quota();
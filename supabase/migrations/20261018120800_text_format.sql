@@ -0,0 +1,14 @@
+-- Encoding and line endings of text files, detected on import and used when
+-- files are exported. Content is stored with LF line endings; files saved
+-- before this migration may still hold CRLF content, so those are marked
+-- as CRLF to keep exporting them the way they were written.
+alter table public.files
+    add column if not exists encoding text not null default 'utf-8'
+        check (encoding in ('utf-8', 'utf-8-bom', 'utf-16le', 'utf-16be', 'windows-1252')),
+    add column if not exists line_ending text not null default 'lf'
+        check (line_ending in ('lf', 'crlf'));
+
+update public.files
+    set line_ending = 'crlf'
+    where storage_path is null
+      and position(E'\r\n' in content) > 0;
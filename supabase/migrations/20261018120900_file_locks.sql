@@ -0,0 +1,48 @@
+-- Read-only files and temporary edit locks. A read-only file cannot be
+-- saved, moved or deleted until the flag is cleared. A lock reserves a file
+-- for one user until lock_expires_at; nobody else can change or delete it
+-- meanwhile, nor take over the lock. locked_by_name is kept so other
+-- sessions can show who holds the lock.
+alter table public.files
+    add column if not exists read_only boolean not null default false,
+    add column if not exists locked_by uuid references auth.users(id) on delete set null,
+    add column if not exists locked_by_name text,
+    add column if not exists lock_expires_at timestamptz;
+
+create or replace function public.enforce_file_lock()
+returns trigger
+language plpgsql
+as $$
+declare
+    v_locked boolean;
+begin
+    -- The service role replaces whole workspaces when restoring snapshots
+    if auth.uid() is null then
+        return case when tg_op = 'DELETE' then old else new end;
+    end if;
+
+    v_locked := old.locked_by is not null
+        and old.locked_by <> auth.uid()
+        and old.lock_expires_at > now();
+
+    if v_locked and (tg_op = 'DELETE' or row(new.*) is distinct from row(old.*)) then
+        raise exception '% is locked by %', old.path, coalesce(old.locked_by_name, 'another user')
+            using errcode = '42501';
+    end if;
+
+    if old.read_only and (tg_op = 'DELETE'
+        or new.content is distinct from old.content
+        or new.path is distinct from old.path) then
+        raise exception '% is read-only', old.path
+            using errcode = '42501';
+    end if;
+
+    return case when tg_op = 'DELETE' then old else new end;
+end;
+$$;
+
+drop trigger if exists files_enforce_lock on public.files;
+create trigger files_enforce_lock
+    before update or delete on public.files
+    for each row
+    execute function public.enforce_file_lock();
@@ -0,0 +1,67 @@
+-- Copy a workspace with its folders, files and settings in one transaction,
+-- so a failed clone leaves nothing behind. Binary files are copied in the
+-- file-assets bucket beforehand; p_assets maps each source storage_path to
+-- the key of its copy. Revisions, trash and locks are not carried over.
+-- Only the workspace-manager edge function calls this, as the service role.
+create or replace function public.clone_workspace(
+    p_source_id uuid,
+    p_workspace_id uuid,
+    p_user_id uuid,
+    p_name text,
+    p_description text,
+    p_assets jsonb default '{}'::jsonb
+)
+returns uuid
+language plpgsql
+security invoker
+as $$
+declare
+    v_missing text;
+begin
+    if not exists (
+        select 1 from public.workspaces w
+        where w.id = p_source_id and w.user_id = p_user_id
+    ) then
+        raise exception 'Workspace not found or access denied';
+    end if;
+
+    -- A clone must never share stored bytes with its source
+    select f.storage_path into v_missing
+    from public.files f
+    where f.workspace_id = p_source_id
+      and f.storage_path is not null
+      and not p_assets ? f.storage_path
+    limit 1;
+
+    if v_missing is not null then
+        raise exception 'No copy of stored file % was made', v_missing;
+    end if;
+
+    insert into public.workspaces (id, user_id, name, description, template, settings)
+    select p_workspace_id, p_user_id, p_name, coalesce(p_description, w.description), w.template, w.settings
+    from public.workspaces w
+    where w.id = p_source_id;
+
+    insert into public.folders (workspace_id, path, description, is_collapsed)
+    select p_workspace_id, d.path, d.description, d.is_collapsed
+    from public.folders d
+    where d.workspace_id = p_source_id;
+
+    insert into public.files (
+        workspace_id, path, content, file_type, size_bytes, storage_path,
+        encoding, line_ending, read_only
+    )
+    select
+        p_workspace_id, f.path, f.content, f.file_type, f.size_bytes,
+        case when f.storage_path is null then null else p_assets ->> f.storage_path end,
+        f.encoding, f.line_ending, f.read_only
+    from public.files f
+    where f.workspace_id = p_source_id
+    order by f.path;
+
+    return p_workspace_id;
+end;
+$$;
+
+revoke execute on function public.clone_workspace(uuid, uuid, uuid, text, text, jsonb) from public, anon, authenticated;
+grant execute on function public.clone_workspace(uuid, uuid, uuid, text, text, jsonb) to service_role;
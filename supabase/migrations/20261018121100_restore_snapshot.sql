@@ -0,0 +1,59 @@
+-- Replace a workspace's files and folders with those of a snapshot in one
+-- transaction, so a failed restore leaves the workspace as it was.
+--
+-- p_files and p_folders are the snapshot's rows, with binary files already
+-- pointing at fresh copies in the file-assets bucket. When p_paths is given
+-- only those files and folders, and everything below them, are replaced;
+-- otherwise the whole workspace is. Paths in p_keep_paths are never deleted.
+-- Only the workspace-manager edge function calls this, as the service role.
+create or replace function public.restore_snapshot(
+    p_workspace_id uuid,
+    p_files jsonb,
+    p_folders jsonb,
+    p_keep_paths text[] default '{}',
+    p_paths text[] default null
+)
+returns void
+language plpgsql
+security invoker
+as $$
+begin
+    delete from public.files f
+    where f.workspace_id = p_workspace_id
+      and not f.path = any(p_keep_paths)
+      and (p_paths is null or exists (
+          select 1 from unnest(p_paths) as s(path)
+          where f.path = s.path or left(f.path, length(s.path) + 1) = s.path || '/'
+      ));
+
+    delete from public.folders d
+    where d.workspace_id = p_workspace_id
+      and not d.path = any(p_keep_paths)
+      and (p_paths is null or exists (
+          select 1 from unnest(p_paths) as s(path)
+          where d.path = s.path or left(d.path, length(s.path) + 1) = s.path || '/'
+      ));
+
+    insert into public.folders (workspace_id, path, description, is_collapsed, created_at)
+    select p_workspace_id, d.path, d.description, coalesce(d.is_collapsed, false), coalesce(d.created_at, now())
+    from jsonb_to_recordset(coalesce(p_folders, '[]'::jsonb))
+        as d(path text, description text, is_collapsed boolean, created_at timestamptz);
+
+    -- Snapshots taken before a column existed leave it out
+    insert into public.files (
+        workspace_id, path, content, file_type, size_bytes, storage_path,
+        encoding, line_ending, read_only, created_at
+    )
+    select
+        p_workspace_id, f.path, coalesce(f.content, ''), f.file_type, coalesce(f.size_bytes, 0), f.storage_path,
+        coalesce(f.encoding, 'utf-8'), coalesce(f.line_ending, 'lf'), coalesce(f.read_only, false),
+        coalesce(f.created_at, now())
+    from jsonb_to_recordset(coalesce(p_files, '[]'::jsonb))
+        as f(path text, content text, file_type text, size_bytes bigint, storage_path text,
+             encoding text, line_ending text, read_only boolean, created_at timestamptz)
+    order by f.path;
+end;
+$$;
+
+revoke execute on function public.restore_snapshot(uuid, jsonb, jsonb, text[], text[]) from public, anon, authenticated;
+grant execute on function public.restore_snapshot(uuid, jsonb, jsonb, text[], text[]) to service_role;
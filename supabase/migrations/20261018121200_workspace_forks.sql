@@ -0,0 +1,6 @@
+-- Where a workspace forked from a snapshot came from: the source workspace
+-- and snapshot, with the snapshot's name and time. Null for workspaces that
+-- were created, cloned or imported. clone_workspace() lists its columns, so
+-- a clone of a fork does not claim to be a fork itself.
+alter table public.workspaces
+    add column if not exists forked_from jsonb;
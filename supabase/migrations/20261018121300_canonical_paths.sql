@@ -0,0 +1,51 @@
+-- Workspace paths are normalized and validated by workspacePaths.ts before
+-- the client or workspace-manager writes them. These triggers hold direct
+-- PostgREST writes to the same rules: relative, "/"-separated, NFC, no empty,
+-- "." or ".." segments, no names ending in a dot or starting or ending with
+-- whitespace, none of <>:"|?*\ or control characters, at most 255 characters
+-- per name and 1024 per path.
+--
+-- Only inserted and renamed rows are checked, so rows written before the
+-- rules existed can still be saved, and renamed to a valid path.
+create or replace function public.is_canonical_path(p_path text)
+returns boolean
+language sql
+immutable
+as $$
+    select p_path is not null
+        and length(p_path) between 1 and 1024
+        and p_path is nfc normalized
+        and p_path !~ '^/|/$|//'
+        and p_path !~ '(^|/)\s|\s(/|$)|\.(/|$)'
+        and p_path !~ '[<>:"|?*\\\x01-\x1f\x7f]'
+        and not exists (
+            select 1 from unnest(string_to_array(p_path, '/')) as s(name)
+            where length(s.name) > 255
+        );
+$$;
+
+create or replace function public.enforce_canonical_path()
+returns trigger
+language plpgsql
+as $$
+begin
+    if (tg_op = 'INSERT' or new.path is distinct from old.path)
+       and not public.is_canonical_path(new.path) then
+        raise exception 'Invalid path: %', new.path
+            using errcode = '23514';
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists files_enforce_canonical_path on public.files;
+create trigger files_enforce_canonical_path
+    before insert or update of path on public.files
+    for each row
+    execute function public.enforce_canonical_path();
+
+drop trigger if exists folders_enforce_canonical_path on public.folders;
+create trigger folders_enforce_canonical_path
+    before insert or update of path on public.folders
+    for each row
+    execute function public.enforce_canonical_path();
@@ -0,0 +1,110 @@
+-- restore_snapshot() now restores files in place instead of deleting and
+-- re-inserting them. A file whose path is in the snapshot keeps its id, so
+-- its revision history survives, and its revision is bumped, so clients
+-- still holding the pre-restore copy can't overwrite the restored content.
+-- Only paths the snapshot adds are inserted and only paths it doesn't have
+-- are deleted. A text file whose content changes gets the restored content
+-- as a new entry in its history.
+create or replace function public.restore_snapshot(
+    p_workspace_id uuid,
+    p_files jsonb,
+    p_folders jsonb,
+    p_keep_paths text[] default '{}',
+    p_paths text[] default null
+)
+returns void
+language plpgsql
+security invoker
+as $$
+begin
+    create temporary table restored_files on commit drop as
+    select
+        f.path, coalesce(f.content, '') as content, f.file_type, coalesce(f.size_bytes, 0) as size_bytes,
+        f.storage_path, coalesce(f.encoding, 'utf-8') as encoding, coalesce(f.line_ending, 'lf') as line_ending,
+        coalesce(f.read_only, false) as read_only, coalesce(f.created_at, now()) as created_at
+    from jsonb_to_recordset(coalesce(p_files, '[]'::jsonb))
+        as f(path text, content text, file_type text, size_bytes bigint, storage_path text,
+             encoding text, line_ending text, read_only boolean, created_at timestamptz);
+
+    create temporary table restored_folders on commit drop as
+    select d.path, d.description, coalesce(d.is_collapsed, false) as is_collapsed, coalesce(d.created_at, now()) as created_at
+    from jsonb_to_recordset(coalesce(p_folders, '[]'::jsonb))
+        as d(path text, description text, is_collapsed boolean, created_at timestamptz);
+
+    delete from public.files f
+    where f.workspace_id = p_workspace_id
+      and not f.path = any(p_keep_paths)
+      and not exists (select 1 from restored_files r where r.path = f.path)
+      and (p_paths is null or exists (
+          select 1 from unnest(p_paths) as s(path)
+          where f.path = s.path or left(f.path, length(s.path) + 1) = s.path || '/'
+      ));
+
+    delete from public.folders d
+    where d.workspace_id = p_workspace_id
+      and not d.path = any(p_keep_paths)
+      and not exists (select 1 from restored_folders r where r.path = d.path)
+      and (p_paths is null or exists (
+          select 1 from unnest(p_paths) as s(path)
+          where d.path = s.path or left(d.path, length(s.path) + 1) = s.path || '/'
+      ));
+
+    insert into public.file_revisions (workspace_id, file_id, path, content, size_bytes)
+    select p_workspace_id, f.id, f.path, r.content, r.size_bytes
+    from public.files f
+    join restored_files r on r.path = f.path
+    where f.workspace_id = p_workspace_id
+      and r.storage_path is null
+      and f.content is distinct from r.content;
+
+    update public.files f
+    set content = r.content,
+        file_type = r.file_type,
+        size_bytes = r.size_bytes,
+        storage_path = r.storage_path,
+        encoding = r.encoding,
+        line_ending = r.line_ending,
+        read_only = r.read_only,
+        revision = f.revision + 1,
+        updated_at = now()
+    from restored_files r
+    where f.workspace_id = p_workspace_id
+      and f.path = r.path
+      and (f.content, f.file_type, f.size_bytes, f.storage_path, f.encoding, f.line_ending, f.read_only)
+          is distinct from (r.content, r.file_type, r.size_bytes, r.storage_path, r.encoding, r.line_ending, r.read_only);
+
+    update public.folders d
+    set description = r.description,
+        is_collapsed = r.is_collapsed,
+        updated_at = now()
+    from restored_folders r
+    where d.workspace_id = p_workspace_id
+      and d.path = r.path
+      and (d.description, d.is_collapsed) is distinct from (r.description, r.is_collapsed);
+
+    insert into public.folders (workspace_id, path, description, is_collapsed, created_at)
+    select p_workspace_id, r.path, r.description, r.is_collapsed, r.created_at
+    from restored_folders r
+    where not exists (
+        select 1 from public.folders d
+        where d.workspace_id = p_workspace_id and d.path = r.path
+    );
+
+    insert into public.files (
+        workspace_id, path, content, file_type, size_bytes, storage_path,
+        encoding, line_ending, read_only, created_at
+    )
+    select
+        p_workspace_id, r.path, r.content, r.file_type, r.size_bytes, r.storage_path,
+        r.encoding, r.line_ending, r.read_only, r.created_at
+    from restored_files r
+    where not exists (
+        select 1 from public.files f
+        where f.workspace_id = p_workspace_id and f.path = r.path
+    )
+    order by r.path;
+end;
+$$;
+
+revoke execute on function public.restore_snapshot(uuid, jsonb, jsonb, text[], text[]) from public, anon, authenticated;
+grant execute on function public.restore_snapshot(uuid, jsonb, jsonb, text[], text[]) to service_role;
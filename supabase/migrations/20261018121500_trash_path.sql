@@ -0,0 +1,58 @@
+-- Move a file, or a folder with everything under it, to the trash in one
+-- transaction: the trash item takes a copy of every file and folder row under
+-- p_path, and those rows are deleted. A failure leaves both the workspace and
+-- the trash as they were.
+create or replace function public.trash_path(p_workspace_id uuid, p_path text, p_expires_at timestamptz)
+returns public.trash_items
+language plpgsql
+security invoker
+as $$
+declare
+    v_item public.trash_items;
+begin
+    insert into public.trash_items (workspace_id, path, item_type, files, folders, expires_at)
+    select
+        p_workspace_id,
+        p_path,
+        case when exists (
+            select 1 from public.files f
+            where f.workspace_id = p_workspace_id and f.path = p_path
+        ) then 'file' else 'folder' end,
+        coalesce((
+            select jsonb_agg(jsonb_build_object(
+                'path', f.path,
+                'content', f.content,
+                'file_type', f.file_type,
+                'size_bytes', f.size_bytes,
+                'storage_path', f.storage_path,
+                'encoding', f.encoding,
+                'line_ending', f.line_ending
+            ) order by f.path)
+            from public.files f
+            where f.workspace_id = p_workspace_id
+              and (f.path = p_path or left(f.path, length(p_path) + 1) = p_path || '/')
+        ), '[]'::jsonb),
+        coalesce((
+            select jsonb_agg(jsonb_build_object(
+                'path', d.path,
+                'description', d.description,
+                'is_collapsed', d.is_collapsed
+            ) order by d.path)
+            from public.folders d
+            where d.workspace_id = p_workspace_id
+              and (d.path = p_path or left(d.path, length(p_path) + 1) = p_path || '/')
+        ), '[]'::jsonb),
+        p_expires_at
+    returning * into v_item;
+
+    delete from public.files f
+    where f.workspace_id = p_workspace_id
+      and (f.path = p_path or left(f.path, length(p_path) + 1) = p_path || '/');
+
+    delete from public.folders d
+    where d.workspace_id = p_workspace_id
+      and (d.path = p_path or left(d.path, length(p_path) + 1) = p_path || '/');
+
+    return v_item;
+end;
+$$;
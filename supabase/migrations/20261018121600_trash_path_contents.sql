@@ -0,0 +1,67 @@
+-- trash_path() can take the trash item's contents from the caller. Offline
+-- trash moves are synced this way: the item keeps the copies that were
+-- trashed offline, which may hold edits the server never saw, while the
+-- live rows under p_path are still removed in the same transaction.
+drop function if exists public.trash_path(uuid, text, timestamptz);
+
+create or replace function public.trash_path(
+    p_workspace_id uuid,
+    p_path text,
+    p_expires_at timestamptz,
+    p_item_type text default null,
+    p_files jsonb default null,
+    p_folders jsonb default null
+)
+returns public.trash_items
+language plpgsql
+security invoker
+as $$
+declare
+    v_item public.trash_items;
+begin
+    insert into public.trash_items (workspace_id, path, item_type, files, folders, expires_at)
+    select
+        p_workspace_id,
+        p_path,
+        coalesce(p_item_type, case when exists (
+            select 1 from public.files f
+            where f.workspace_id = p_workspace_id and f.path = p_path
+        ) then 'file' else 'folder' end),
+        coalesce(p_files, (
+            select jsonb_agg(jsonb_build_object(
+                'path', f.path,
+                'content', f.content,
+                'file_type', f.file_type,
+                'size_bytes', f.size_bytes,
+                'storage_path', f.storage_path,
+                'encoding', f.encoding,
+                'line_ending', f.line_ending
+            ) order by f.path)
+            from public.files f
+            where f.workspace_id = p_workspace_id
+              and (f.path = p_path or left(f.path, length(p_path) + 1) = p_path || '/')
+        ), '[]'::jsonb),
+        coalesce(p_folders, (
+            select jsonb_agg(jsonb_build_object(
+                'path', d.path,
+                'description', d.description,
+                'is_collapsed', d.is_collapsed
+            ) order by d.path)
+            from public.folders d
+            where d.workspace_id = p_workspace_id
+              and (d.path = p_path or left(d.path, length(p_path) + 1) = p_path || '/')
+        ), '[]'::jsonb),
+        p_expires_at
+    returning * into v_item;
+
+    delete from public.files f
+    where f.workspace_id = p_workspace_id
+      and (f.path = p_path or left(f.path, length(p_path) + 1) = p_path || '/');
+
+    delete from public.folders d
+    where d.workspace_id = p_workspace_id
+      and (d.path = p_path or left(d.path, length(p_path) + 1) = p_path || '/');
+
+    return v_item;
+end;
+$$;
@@ -0,0 +1,85 @@
+-- Put a trash item back in one transaction: its folders and files are
+-- inserted and the item is deleted. A failure, such as a path that was taken
+-- since the item was trashed, leaves both the workspace and the trash as they
+-- were. Folders that still exist, with a record of their own or as the parent
+-- of a file, are left alone. Returns the inserted rows as
+-- { files, folders }.
+create or replace function public.restore_trash_item(p_workspace_id uuid, p_item_id uuid)
+returns jsonb
+language plpgsql
+security invoker
+as $$
+declare
+    v_item public.trash_items;
+    v_conflict text;
+    v_files jsonb;
+    v_folders jsonb;
+begin
+    delete from public.trash_items t
+    where t.workspace_id = p_workspace_id and t.id = p_item_id
+    returning * into v_item;
+
+    if not found then
+        raise exception 'Trash item not found'
+            using errcode = 'P0002';
+    end if;
+
+    select r.path into v_conflict
+    from jsonb_to_recordset(v_item.files) as r(path text)
+    where exists (
+        select 1 from public.files f
+        where f.workspace_id = p_workspace_id
+          and (f.path = r.path or left(r.path, length(f.path) + 1) = f.path || '/')
+    ) or exists (
+        select 1 from public.folders d
+        where d.workspace_id = p_workspace_id and d.path = r.path
+    )
+    limit 1;
+
+    if v_conflict is not null then
+        raise exception 'Cannot restore: % already exists', v_conflict
+            using errcode = '23505';
+    end if;
+
+    with inserted as (
+        insert into public.folders (workspace_id, path, description, is_collapsed)
+        select p_workspace_id, r.path, r.description, coalesce(r.is_collapsed, false)
+        from jsonb_to_recordset(v_item.folders) as r(path text, description text, is_collapsed boolean)
+        where not exists (
+            select 1 from public.folders d
+            where d.workspace_id = p_workspace_id and d.path = r.path
+        ) and not exists (
+            select 1 from public.files f
+            where f.workspace_id = p_workspace_id and left(f.path, length(r.path) + 1) = r.path || '/'
+        )
+        returning *
+    )
+    select coalesce(jsonb_agg(to_jsonb(i) order by i.path), '[]'::jsonb) into v_folders
+    from inserted i;
+
+    with inserted as (
+        insert into public.files (
+            workspace_id, path, content, file_type, size_bytes, storage_path, encoding, line_ending
+        )
+        select
+            p_workspace_id, r.path, coalesce(r.content, ''), r.file_type, coalesce(r.size_bytes, 0), r.storage_path,
+            coalesce(r.encoding, 'utf-8'), coalesce(r.line_ending, 'lf')
+        from jsonb_to_recordset(v_item.files)
+            as r(path text, content text, file_type text, size_bytes bigint, storage_path text,
+                 encoding text, line_ending text)
+        order by r.path
+        returning *
+    ),
+    -- Restored text files start their history with the restored content
+    revisions as (
+        insert into public.file_revisions (workspace_id, file_id, path, content, size_bytes)
+        select p_workspace_id, i.id, i.path, i.content, i.size_bytes
+        from inserted i
+        where i.storage_path is null
+    )
+    select coalesce(jsonb_agg(to_jsonb(i) order by i.path), '[]'::jsonb) into v_files
+    from inserted i;
+
+    return jsonb_build_object('files', v_files, 'folders', v_folders);
+end;
+$$;